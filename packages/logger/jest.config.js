@@ -5,13 +5,13 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
   testMatch: ['**/*.test.ts', '**/*.spec.ts'],
-  testPathIgnorePatterns: ['/node_modules/', '/__mocks__/'],
+  testPathIgnorePatterns: ['/node_modules/', '/test-utils/'],
   moduleFileExtensions: ['ts', 'js', 'json'],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.test.ts',
     '!src/**/*.spec.ts',
-    '!src/__mocks__/**',
+    '!src/test-utils/**',
   ],
   clearMocks: true,
   transform: {
@@ -0,0 +1,325 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createCloudWatchTransport,
+  signRequest,
+  type CloudWatchTransportOptions,
+} from './cloudwatch';
+import { createLogger } from './index';
+
+interface LogsRequest {
+  action: string;
+  headers: IncomingHttpHeaders;
+  body: {
+    logGroupName?: string;
+    logStreamName?: string;
+    logEvents?: { timestamp: number; message: string }[];
+  };
+}
+
+/** Error response in the CloudWatch Logs JSON protocol */
+const failure = (status: number, type: string) => ({
+  status,
+  body: { __type: `com.amazonaws.logs#${type}`, message: `${type} from stand-in` },
+});
+
+describe('CloudWatch Logs transport', () => {
+  const originalEnv = process.env;
+  let server: Server;
+  let endpoint: string;
+  let requests: LogsRequest[];
+  /** Scripted responses by action; anything else succeeds */
+  let responses: Record<string, { status: number; body: unknown }[]>;
+
+  const transport = (options: Partial<CloudWatchTransportOptions> = {}) =>
+    createCloudWatchTransport({
+      logGroupName: '/arivlabs/my-service',
+      logStreamName: 'host/1',
+      region: 'us-east-1',
+      endpoint,
+      credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' },
+      retryBaseDelayMs: 1,
+      ...options,
+    });
+
+  const puts = () => requests.filter((r) => r.action === 'PutLogEvents');
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const action = String(req.headers['x-amz-target']).replace('Logs_20140328.', '');
+        requests.push({ action, headers: req.headers, body: JSON.parse(raw) });
+        const response = responses[action]?.shift() ?? { status: 200, body: {} };
+        // String bodies stand in for a proxy's error page
+        const json = typeof response.body !== 'string';
+        res.writeHead(response.status, {
+          'content-type': json ? 'application/x-amz-json-1.1' : 'text/html',
+        });
+        res.end(json ? JSON.stringify(response.body) : response.body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    requests = [];
+    responses = {};
+  });
+
+  it('should sign requests with Signature Version 4', () => {
+    // AWS SigV4 test suite: post-vanilla
+    const headers = signRequest({
+      method: 'POST',
+      url: new URL('https://example.amazonaws.com/'),
+      headers: {},
+      body: '',
+      service: 'service',
+      region: 'us-east-1',
+      credentials: {
+        accessKeyId: 'AKIDEXAMPLE',
+        secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+      },
+      date: new Date('2015-08-30T12:36:00Z'),
+    });
+
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, ' +
+        'Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b'
+    );
+  });
+
+  it('should create a missing log group and stream and deliver records on shutdown', async () => {
+    responses.PutLogEvents = [failure(400, 'ResourceNotFoundException')];
+    responses.CreateLogGroup = [failure(400, 'ResourceAlreadyExistsException')];
+    const logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      destinations: [{ target: transport() }],
+    });
+
+    logger.info('First');
+    logger.info('Second');
+    await logger.shutdown();
+
+    expect(requests.map((r) => r.action)).toEqual([
+      'PutLogEvents',
+      'CreateLogGroup',
+      'CreateLogStream',
+      'PutLogEvents',
+    ]);
+    const delivered = puts()[1];
+    expect(delivered.body).toMatchObject({
+      logGroupName: '/arivlabs/my-service',
+      logStreamName: 'host/1',
+    });
+    expect(delivered.body.logEvents!.map((e) => JSON.parse(e.message).msg)).toEqual([
+      'First',
+      'Second',
+    ]);
+    expect(delivered.headers['content-type']).toBe('application/x-amz-json-1.1');
+    expect(delivered.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/logs\/aws4_request, /
+    );
+  });
+
+  it('should retry throttling and server errors with backoff', async () => {
+    responses.PutLogEvents = [
+      failure(400, 'ThrottlingException'),
+      failure(503, 'ServiceUnavailableException'),
+    ];
+    const onError = jest.fn();
+    const cw = transport({ onError });
+
+    cw.write('{"msg":"Retried"}\n');
+    await cw.close();
+
+    expect(puts()).toHaveLength(3);
+    expect(puts()[2].body.logEvents).toEqual([
+      { timestamp: expect.any(Number), message: '{"msg":"Retried"}' },
+    ]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should drop a batch on other errors and report it', async () => {
+    responses.PutLogEvents = [failure(400, 'InvalidParameterException')];
+    const onError = jest.fn();
+    const cw = transport({ onError, createMissing: false });
+
+    cw.write('{"msg":"Dropped"}\n');
+    await cw.close();
+
+    expect(puts()).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('Dropped 1 log events: PutLogEvents failed'),
+      })
+    );
+  });
+
+  it('should be closed by the caller after shutdown(), which only flushes it', async () => {
+    responses.PutLogEvents = [failure(503, 'ServiceUnavailableException')];
+    const cw = transport({ flushIntervalMs: 5 });
+    const logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      destinations: [{ target: cw }],
+    });
+
+    logger.info('Delivered');
+    await logger.shutdown();
+    await cw.close();
+    cw.write('{"msg":"After close"}\n');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(puts()).toHaveLength(2);
+    expect(puts()[1].body.logEvents!.map((e) => JSON.parse(e.message).msg)).toEqual(['Delivered']);
+    expect(cw.stats().queued).toBe(0);
+  });
+
+  it('should retry a non-JSON 5xx response', async () => {
+    responses.PutLogEvents = [{ status: 502, body: '<html>502 Bad Gateway</html>' }];
+    const onError = jest.fn();
+    const cw = transport({ onError });
+
+    cw.write('{"msg":"Retried"}\n');
+    await cw.close();
+
+    expect(puts()).toHaveLength(2);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should drop a batch on a non-JSON 4xx response', async () => {
+    responses.PutLogEvents = [{ status: 413, body: '<html>413 Request Entity Too Large</html>' }];
+    const onError = jest.fn();
+    const cw = transport({ onError, createMissing: false });
+
+    cw.write('{"msg":"Dropped"}\n');
+    await cw.close();
+
+    expect(puts()).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('PutLogEvents failed: 413 Payload Too Large'),
+      })
+    );
+  });
+
+  it("should use the record's time as the event timestamp", async () => {
+    const cw = transport();
+
+    cw.write('{"level":30,"time":"2026-01-01T00:00:02.000Z","msg":"Second"}\n');
+    cw.write('{"@timestamp":"2026-01-01T00:00:01.000Z","message":"First"}\n');
+    cw.write('{"level":30,"time":1767225603000,"msg":"Third"}\n');
+    cw.write('{"msg":"Untimed"}\n');
+    const before = Date.now();
+    await cw.close();
+
+    const events = puts()[0].body.logEvents!;
+    expect(events.map((e) => [e.timestamp, JSON.parse(e.message).time])).toEqual([
+      [1_767_225_601_000, undefined],
+      [1_767_225_602_000, '2026-01-01T00:00:02.000Z'],
+      [1_767_225_603_000, 1_767_225_603_000],
+    ]);
+    // More than 24 hours after the others: PutLogEvents needs a separate batch
+    const [untimed] = puts()[1].body.logEvents!;
+    expect(untimed.timestamp).toBeGreaterThanOrEqual(before - 1000);
+  });
+
+  it('should split batches at the event count and byte limits, sorted by timestamp', async () => {
+    const now = jest.spyOn(Date, 'now');
+    const cw = transport();
+
+    // Written newest first
+    for (let i = 0; i < 10_001; i++) {
+      now.mockReturnValue(1_767_225_600_000 - i);
+      cw.write(`{"i":${i}}\n`);
+    }
+    // Oversized events are truncated to 256 KB, so four fill a batch
+    for (let i = 0; i < 5; i++) {
+      cw.write(`${'x'.repeat(300_000)}\n`);
+    }
+    now.mockRestore();
+    await cw.close();
+
+    const batches = puts().map((r) => r.body.logEvents!);
+    const sizes = batches.map((events) => events.length);
+    expect(sizes.reduce((a, b) => a + b)).toBe(10_006);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(10_000);
+    for (const events of batches) {
+      const timestamps = events.map((e) => e.timestamp);
+      expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+      const bytes = events.reduce((sum, e) => sum + Buffer.byteLength(e.message) + 26, 0);
+      expect(bytes).toBeLessThanOrEqual(1_048_576);
+    }
+    // A full batch is sent as soon as it is queued
+    expect(sizes[0]).toBe(10_000);
+    expect(batches[0][0].message).toBe('{"i":9999}');
+    const large = batches.flat().filter((e) => e.message.startsWith('x'));
+    expect(large).toHaveLength(5);
+    expect(Buffer.byteLength(large[0].message)).toBeLessThanOrEqual(262_144 - 26);
+  });
+
+  it('should spool batches while CloudWatch is unavailable and replay them in order', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'logger-cloudwatch-spool-'));
+    const messages = () => puts().flatMap((r) => r.body.logEvents!.map((e) => e.message));
+    try {
+      responses.PutLogEvents = [failure(503, 'ServiceUnavailableException')];
+      const cw = transport({ maxRetries: 0, spool: { dir, replayIntervalMs: 60_000 } });
+
+      cw.write('{"msg":"First"}\n');
+      await new Promise<void>((resolve) => cw.flush(resolve));
+      // Written while "First" is spooled: queued behind it
+      cw.write('{"msg":"Second"}\n');
+      await new Promise<void>((resolve) => cw.flush(resolve));
+      expect(cw.stats().spool).toMatchObject({ spooled: 2, pendingRecords: 2 });
+
+      await cw.close();
+      // A new process replays what the previous one left behind
+      const next = transport({ spool: { dir, replayIntervalMs: 10 } });
+      while (next.stats().spool!.pendingRecords > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      next.write('{"msg":"Third"}\n');
+      await next.close();
+
+      expect(messages()).toEqual([
+        '{"msg":"First"}', // the failed attempt
+        '{"msg":"First"}',
+        '{"msg":"Second"}',
+        '{"msg":"Third"}',
+      ]);
+      expect(next.stats().spool).toMatchObject({ replayed: 2, pendingRecords: 0 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a region and credentials', () => {
+    delete process.env.AWS_REGION;
+    delete process.env.AWS_DEFAULT_REGION;
+    delete process.env.AWS_ACCESS_KEY_ID;
+    delete process.env.AWS_SECRET_ACCESS_KEY;
+
+    expect(() => createCloudWatchTransport({ logGroupName: 'g' })).toThrow(
+      'CloudWatch transport needs a region'
+    );
+    expect(() => createCloudWatchTransport({ logGroupName: 'g', region: 'us-east-1' })).toThrow(
+      'CloudWatch transport needs credentials'
+    );
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * CloudWatch Logs transport (PutLogEvents).
+ *
+ * For workloads where no agent forwards stdout: records are batched in memory and sent
+ * straight to CloudWatch Logs. The transport is a destination stream, so it plugs into
+ * `destinations` like any other stream. Like other caller-owned streams, shutdown() only
+ * flushes it: the caller closes it.
+ *
+ * ```typescript
+ * const cloudwatch = createCloudWatchTransport({ logGroupName: '/arivlabs/my-service' });
+ * const logger = createLogger({ service: 'my-service', destinations: [{ target: cloudwatch }] });
+ * // On exit
+ * await logger.shutdown();
+ * await cloudwatch.close();
+ * ```
+ *
+ * Design notes:
+ * - No AWS SDK dependency: requests use fetch() with Signature Version 4 signing
+ * - Batches respect the PutLogEvents limits (1 MB including 26 bytes per event, 10,000
+ *   events, 24 hours) and are sorted by timestamp. One request is in flight at a time.
+ * - Event timestamps are the record's own `time` (or a format profile's `@timestamp`/
+ *   `timestamp`), not the time the line was queued; lines without one use the current time
+ * - A missing log group or stream is created on the first ResourceNotFoundException
+ * - Throttling, 5xx and network errors are retried with exponential backoff and jitter;
+ *   other failures drop the batch and are reported through `onError`. With `spool`,
+ *   batches still failing after the retries are kept on disk and replayed later
+ * - Delivery is asynchronous: the handleExceptions crash path cannot wait for it
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { hostname } from 'node:os';
+import { createSpool, type SpoolConfig, type SpoolStats } from './spool';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** AWS credentials used to sign requests */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/** Options for createCloudWatchTransport() */
+export interface CloudWatchTransportOptions {
+  /** Log group, e.g. `/arivlabs/my-service` */
+  logGroupName: string;
+  /** Log stream (default: `<hostname>/<pid>`) */
+  logStreamName?: string;
+  /** AWS region (default: AWS_REGION or AWS_DEFAULT_REGION) */
+  region?: string;
+  /** Endpoint URL (default: `https://logs.<region>.amazonaws.com`), e.g. a local stand-in */
+  endpoint?: string;
+  /**
+   * Credentials, or a function returning them (called for every request; cache inside it).
+   * Default: AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_SESSION_TOKEN.
+   */
+  credentials?: AwsCredentials | (() => Promise<AwsCredentials>);
+  /** Create the log group and stream when they are missing (default: true) */
+  createMissing?: boolean;
+  /** Send buffered events at least this often (default: 1000) */
+  flushIntervalMs?: number;
+  /** Retries for throttling, 5xx and network errors (default: 5) */
+  maxRetries?: number;
+  /** First retry delay; doubles on every retry (default: 200) */
+  retryBaseDelayMs?: number;
+  /** Events buffered before new ones are dropped (default: 100,000) */
+  maxQueuedEvents?: number;
+  /** Called for dropped batches and rejected events (default: console.error) */
+  onError?: (err: Error) => void;
+  /**
+   * Keep batches on disk while CloudWatch is unreachable (after retries) and replay them
+   * in order once it recovers
+   */
+  spool?: SpoolConfig;
+}
+
+/** A destination stream that ships records to CloudWatch Logs */
+export interface CloudWatchTransport {
+  /** Queue one record (called by pino) */
+  write(line: string): void;
+  /** Send everything queued, then call `cb` */
+  flush(cb?: () => void): void;
+  /**
+   * Stop the flush and replay timers and send everything queued, retries included.
+   * logger.shutdown() does not call it: call it after shutdown()
+   */
+  close(): Promise<void>;
+  /** Queue size and spool counters */
+  stats(): CloudWatchTransportStats;
+}
+
+/** Counters reported by CloudWatchTransport.stats() */
+export interface CloudWatchTransportStats {
+  /** Events waiting in memory */
+  queued: number;
+  /** Spool counters (only with `spool`) */
+  spool?: SpoolStats;
+}
+
+/** Error returned by the CloudWatch Logs API */
+interface CloudWatchError extends Error {
+  /** Exception name, e.g. `ThrottlingException` */
+  code?: string;
+  statusCode?: number;
+}
+
+interface LogEvent {
+  timestamp: number;
+  message: string;
+  /** UTF-8 size plus the 26-byte per-event overhead */
+  size: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** PutLogEvents limits */
+const MAX_BATCH_BYTES = 1_048_576;
+const MAX_BATCH_EVENTS = 10_000;
+const MAX_BATCH_SPAN_MS = 24 * 60 * 60_000;
+const EVENT_OVERHEAD_BYTES = 26;
+/** Largest message accepted for one event */
+const MAX_EVENT_BYTES = 262_144 - EVENT_OVERHEAD_BYTES;
+
+const MAX_RETRY_DELAY_MS = 20_000;
+/** First top-level time field of a record: ISO string (pino isoTime) or epoch milliseconds */
+const TIME_FIELD = /"(?:time|@timestamp|timestamp|Timestamp)":(?:"([^"]+)"|(\d+))/;
+
+const RETRYABLE_CODES = new Set([
+  'ThrottlingException',
+  'ServiceUnavailableException',
+  'RequestLimitExceeded',
+]);
+
+// =============================================================================
+// SIGNATURE VERSION 4
+// =============================================================================
+
+const sha256 = (data: string) => createHash('sha256').update(data, 'utf8').digest('hex');
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data, 'utf8').digest();
+
+/**
+ * Sign a request with AWS Signature Version 4. Returns the headers to send, including
+ * `authorization`, `x-amz-date` and (with a session token) `x-amz-security-token`.
+ * @internal
+ */
+export function signRequest(request: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+  service: string;
+  region: string;
+  credentials: AwsCredentials;
+  date?: Date;
+}): Record<string, string> {
+  const { method, url, body, service, region, credentials } = request;
+  const amzDate = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers).map(([k, v]) => [k.toLowerCase(), v])),
+    host: url.host,
+    'x-amz-date': amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const names = Object.keys(headers).sort();
+  const canonicalHeaders = names.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+  const query = [...url.searchParams]
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    method,
+    url.pathname || '/',
+    query,
+    canonicalHeaders,
+    signedHeaders,
+    sha256(body),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function envCredentials(): AwsCredentials | undefined {
+  const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN } = process.env;
+  if (!AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY) {
+    return undefined;
+  }
+  return {
+    accessKeyId: AWS_ACCESS_KEY_ID,
+    secretAccessKey: AWS_SECRET_ACCESS_KEY,
+    sessionToken: AWS_SESSION_TOKEN || undefined,
+  };
+}
+
+/** The record's own time in epoch milliseconds, else the current time */
+function recordTime(message: string): number {
+  const match = TIME_FIELD.exec(message);
+  const time = match ? (match[1] !== undefined ? Date.parse(match[1]) : Number(match[2])) : NaN;
+  return Number.isFinite(time) ? time : Date.now();
+}
+
+function toEvent(line: string): LogEvent {
+  let message = line.endsWith('\n') ? line.slice(0, -1) : line;
+  let bytes = Buffer.byteLength(message);
+  if (bytes > MAX_EVENT_BYTES) {
+    // Leave room for a replacement character where a multi-byte sequence is cut
+    message = Buffer.from(message)
+      .subarray(0, MAX_EVENT_BYTES - 3)
+      .toString();
+    bytes = Buffer.byteLength(message);
+  }
+  return { timestamp: recordTime(message), message, size: bytes + EVENT_OVERHEAD_BYTES };
+}
+
+/** Take the next batch from a timestamp-sorted queue */
+function takeBatch(queue: LogEvent[]): LogEvent[] {
+  let bytes = 0;
+  let count = 0;
+  for (const event of queue) {
+    if (
+      count === MAX_BATCH_EVENTS ||
+      bytes + event.size > MAX_BATCH_BYTES ||
+      event.timestamp - queue[0].timestamp > MAX_BATCH_SPAN_MS
+    ) {
+      break;
+    }
+    bytes += event.size;
+    count++;
+  }
+  return queue.splice(0, count);
+}
+
+/** A JSON response body, or {} for an empty or non-JSON one (e.g. a proxy's HTML error page) */
+function parseBody(text: string): Record<string, unknown> {
+  try {
+    const data: unknown = JSON.parse(text);
+    return data !== null && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function isRetryable(err: CloudWatchError): boolean {
+  return (
+    err.statusCode === undefined ||
+    err.statusCode >= 500 ||
+    (err.code !== undefined && RETRYABLE_CODES.has(err.code))
+  );
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+/**
+ * Create a destination stream that sends records to CloudWatch Logs with PutLogEvents.
+ * Throws when the region or credentials cannot be resolved. The caller owns the transport:
+ * close() it after logger.shutdown().
+ *
+ * @example
+ * ```typescript
+ * const cloudwatch = createCloudWatchTransport({ logGroupName: '/arivlabs/batch-job' });
+ * const logger = createLogger({ service: 'batch-job', destinations: [{ target: cloudwatch }] });
+ * ```
+ */
+export function createCloudWatchTransport(
+  options: CloudWatchTransportOptions
+): CloudWatchTransport {
+  const region = options.region ?? process.env.AWS_REGION ?? process.env.AWS_DEFAULT_REGION;
+  if (!region) {
+    throw new Error(
+      '[@arivlabs/logger] CloudWatch transport needs a region (options.region or AWS_REGION)'
+    );
+  }
+  const credentials = options.credentials ?? envCredentials();
+  if (!credentials) {
+    throw new Error(
+      '[@arivlabs/logger] CloudWatch transport needs credentials ' +
+        '(options.credentials or AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY)'
+    );
+  }
+
+  const url = new URL(options.endpoint ?? `https://logs.${region}.amazonaws.com`);
+  const logGroupName = options.logGroupName;
+  const logStreamName = options.logStreamName ?? `${hostname()}/${process.pid}`;
+  const createMissing = options.createMissing ?? true;
+  const maxRetries = options.maxRetries ?? 5;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? 200;
+  const maxQueuedEvents = options.maxQueuedEvents ?? 100_000;
+  const onError =
+    options.onError ??
+    ((err: Error) => console.error('[@arivlabs/logger] CloudWatch transport:', err.message));
+
+  const queue: LogEvent[] = [];
+  let dropped = 0;
+  let draining: Promise<void> | undefined;
+  let closed = false;
+
+  async function call(action: string, payload: Record<string, unknown>): Promise<unknown> {
+    const body = JSON.stringify(payload);
+    const resolved = typeof credentials === 'function' ? await credentials() : credentials!;
+    const headers = signRequest({
+      method: 'POST',
+      url,
+      headers: {
+        'content-type': 'application/x-amz-json-1.1',
+        'x-amz-target': `Logs_20140328.${action}`,
+      },
+      body,
+      service: 'logs',
+      region: region!,
+      credentials: resolved,
+    });
+
+    let res: Response;
+    try {
+      res = await fetch(url, { method: 'POST', headers, body });
+    } catch (err) {
+      // Network error: no status code, retryable
+      throw Object.assign(new Error(`${action} failed: ${(err as Error).message}`), {
+        cause: err,
+      }) as CloudWatchError;
+    }
+
+    const data = parseBody(await res.text());
+    if (!res.ok) {
+      const code = String(data.__type ?? '')
+        .split('#')
+        .pop();
+      const message = String(data.message ?? data.Message ?? res.statusText);
+      throw Object.assign(new Error(`${action} failed: ${code || res.status} ${message}`), {
+        code: code || undefined,
+        statusCode: res.status,
+      }) as CloudWatchError;
+    }
+    return data;
+  }
+
+  /** Create the log group and stream, ignoring ones that already exist */
+  async function createGroupAndStream(): Promise<void> {
+    for (const [action, payload] of [
+      ['CreateLogGroup', { logGroupName }],
+      ['CreateLogStream', { logGroupName, logStreamName }],
+    ] as const) {
+      try {
+        await call(action, payload);
+      } catch (err) {
+        if ((err as CloudWatchError).code !== 'ResourceAlreadyExistsException') {
+          throw err;
+        }
+      }
+    }
+  }
+
+  /** PutLogEvents with retries; throws once retries are exhausted or on other errors */
+  async function put(batch: LogEvent[]): Promise<void> {
+    let created = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = (await call('PutLogEvents', {
+          logGroupName,
+          logStreamName,
+          logEvents: batch.map(({ timestamp, message }) => ({ timestamp, message })),
+        })) as { rejectedLogEventsInfo?: Record<string, number> };
+        if (result.rejectedLogEventsInfo) {
+          onError(
+            new Error(
+              `CloudWatch rejected log events: ${JSON.stringify(result.rejectedLogEventsInfo)}`
+            )
+          );
+        }
+        return;
+      } catch (err) {
+        const error = err as CloudWatchError;
+        if (error.code === 'ResourceNotFoundException' && createMissing && !created) {
+          created = true;
+          await createGroupAndStream();
+          attempt--;
+          continue;
+        }
+        if (isRetryable(error) && attempt < maxRetries) {
+          const delay = Math.min(MAX_RETRY_DELAY_MS, retryBaseDelayMs * 2 ** attempt);
+          await sleep(delay / 2 + Math.random() * (delay / 2));
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /** Replay spooled events: transient failures keep them spooled, others drop them */
+  async function replaySpooled(events: LogEvent[]): Promise<void> {
+    events.sort((a, b) => a.timestamp - b.timestamp);
+    while (events.length > 0) {
+      const batch = takeBatch(events);
+      try {
+        await put(batch);
+      } catch (err) {
+        if (isRetryable(err as CloudWatchError)) {
+          throw err;
+        }
+        onError(new Error(`Dropped ${batch.length} log events: ${(err as Error).message}`));
+      }
+    }
+  }
+
+  const spool = options.spool
+    ? createSpool<LogEvent>(options.spool, replaySpooled, onError)
+    : undefined;
+
+  /** Send one batch; with a spool, keep it on disk when the sink is unavailable */
+  async function send(batch: LogEvent[]): Promise<void> {
+    // Spooled events go first: queue behind them
+    if (spool?.hasPending()) {
+      spool.append(batch);
+      return;
+    }
+    try {
+      await put(batch);
+    } catch (err) {
+      if (spool && isRetryable(err as CloudWatchError)) {
+        spool.append(batch);
+        return;
+      }
+      onError(new Error(`Dropped ${batch.length} log events: ${(err as Error).message}`));
+    }
+  }
+
+  /** Send batches until the queue is empty. Concurrent callers share one drain. */
+  function drain(): Promise<void> {
+    draining ??= (async () => {
+      try {
+        while (queue.length > 0) {
+          if (dropped > 0) {
+            onError(new Error(`Dropped ${dropped} log events: queue full`));
+            dropped = 0;
+          }
+          queue.sort((a, b) => a.timestamp - b.timestamp);
+          await send(takeBatch(queue));
+        }
+      } finally {
+        draining = undefined;
+      }
+    })();
+    return draining;
+  }
+
+  const timer = setInterval(() => void drain(), options.flushIntervalMs ?? 1000);
+  timer.unref();
+
+  let queuedBytes = 0;
+
+  return {
+    write(line: string): void {
+      if (closed) {
+        return;
+      }
+      if (queue.length >= maxQueuedEvents) {
+        dropped++;
+        return;
+      }
+      const event = toEvent(line);
+      queue.push(event);
+      queuedBytes = queue.length === 1 ? event.size : queuedBytes + event.size;
+      // Send as soon as a full batch is queued
+      if (queue.length >= MAX_BATCH_EVENTS || queuedBytes >= MAX_BATCH_BYTES) {
+        queuedBytes = 0;
+        void drain();
+      }
+    },
+
+    flush(cb?: () => void): void {
+      void drain().then(() => cb?.());
+    },
+
+    async close(): Promise<void> {
+      clearInterval(timer);
+      spool?.close();
+      await drain();
+      closed = true;
+    },
+
+    stats: () => ({ queued: queue.length, spool: spool?.stats() }),
+  };
+}
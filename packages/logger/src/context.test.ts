@@ -0,0 +1,158 @@
+import { EventEmitter } from 'node:events';
+import { createLogger, runWithContext, getContext, bindContext } from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('request context (AsyncLocalStorage)', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    output = captureDestination();
+  });
+
+  afterEach(() => {
+    output.restore();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getContext()', () => {
+    it('should return undefined outside a scope', () => {
+      expect(getContext()).toBeUndefined();
+    });
+
+    it('should return the active context inside a scope', () => {
+      runWithContext({ correlationId: 'abc-123', tenantId: 'tenant-1' }, () => {
+        expect(getContext()).toEqual({ correlationId: 'abc-123', tenantId: 'tenant-1' });
+      });
+    });
+
+    it('should merge nested scopes without clearing inherited fields', () => {
+      runWithContext({ correlationId: 'abc-123', tenantId: 'tenant-1' }, () => {
+        runWithContext({ userId: 'user-1', tenantId: undefined }, () => {
+          expect(getContext()).toEqual({
+            correlationId: 'abc-123',
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+          });
+        });
+        expect(getContext()).toEqual({ correlationId: 'abc-123', tenantId: 'tenant-1' });
+      });
+    });
+
+    it('should return the value of the wrapped function', () => {
+      expect(runWithContext({ correlationId: 'abc-123' }, () => 42)).toBe(42);
+    });
+  });
+
+  describe('root logger', () => {
+    it('should include active context fields on every log call', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      runWithContext({ correlationId: 'abc-123', tenantId: 'tenant-1', userId: 'user-1' }, () => {
+        logger.info('Inside scope');
+      });
+      logger.info('Outside scope');
+
+      expect(output.lines[0]).toMatchObject({
+        msg: 'Inside scope',
+        correlation_id: 'abc-123',
+        tenant_id: 'tenant-1',
+        user_id: 'user-1',
+      });
+      expect(output.lines[1].correlation_id).toBeUndefined();
+    });
+
+    it('should let explicit log data override context fields', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      runWithContext({ correlationId: 'abc-123' }, () => {
+        logger.info('Override', { correlation_id: 'explicit' });
+        logger.info({ msg: 'Object style', jobId: 'job-1' });
+      });
+
+      expect(output.lines[0].correlation_id).toBe('explicit');
+      expect(output.lines[1]).toMatchObject({ correlation_id: 'abc-123', jobId: 'job-1' });
+    });
+
+    it('should keep the domain bound by logger.domain()', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      runWithContext({ correlationId: 'abc-123', domain: 'discovery' }, () => {
+        logger.domain('auth').info('Domain logger');
+        logger.info('Root logger');
+      });
+
+      expect(output.lines[0]).toMatchObject({ domain: 'auth', correlation_id: 'abc-123' });
+      expect(output.lines[1]).toMatchObject({ domain: 'discovery', correlation_id: 'abc-123' });
+    });
+
+    it('should not add active context to loggers created with withContext()', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+      const reqLogger = logger.withContext({ correlationId: 'bound' });
+
+      runWithContext({ correlationId: 'implicit', tenantId: 'tenant-1' }, () => {
+        reqLogger.info('Bound logger');
+      });
+
+      expect(output.lines[0].correlation_id).toBe('bound');
+      expect(output.lines[0].tenant_id).toBeUndefined();
+    });
+  });
+
+  describe('propagation', () => {
+    it('should propagate across async/await and timers', async () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      await runWithContext({ correlationId: 'async-1' }, async () => {
+        await Promise.resolve();
+        logger.info('After await');
+        await new Promise<void>((resolve) =>
+          setTimeout(() => {
+            logger.info('In timer');
+            resolve();
+          }, 1)
+        );
+      });
+
+      expect(output.lines.map((line) => line.correlation_id)).toEqual(['async-1', 'async-1']);
+    });
+
+    it('should isolate concurrent scopes', async () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      await Promise.all(
+        ['req-1', 'req-2'].map((id) =>
+          runWithContext({ correlationId: id }, async () => {
+            await new Promise((resolve) => setTimeout(resolve, id === 'req-1' ? 5 : 1));
+            logger.info(id);
+          })
+        )
+      );
+
+      for (const line of output.lines) {
+        expect(line.correlation_id).toBe(line.msg);
+      }
+    });
+
+    it('should bind EventEmitter listeners with bindContext()', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+      const emitter = new EventEmitter();
+
+      runWithContext({ correlationId: 'registered' }, () => {
+        emitter.on(
+          'event',
+          bindContext(() => logger.info('Bound listener'))
+        );
+      });
+      runWithContext({ correlationId: 'emitter' }, () => {
+        emitter.emit('event');
+      });
+
+      expect(output.lines[0].correlation_id).toBe('registered');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Implicit request context propagation.
+ *
+ * Built on AsyncLocalStorage so that a context established once at the edge of a
+ * request (HTTP handler, queue consumer, job runner) is visible to every log call
+ * made while handling it, without passing a child logger through every layer.
+ *
+ * Propagation notes:
+ * - async/await, promises, timers and process.nextTick carry the context automatically
+ * - EventEmitter listeners run in the context of the code that calls emit(), not the
+ *   code that registered them. Wrap listeners with bindContext() to pin them to the
+ *   context that was active at registration time.
+ * - When no context is active, the only cost on the log path is a single getStore() call.
+ */
+
+import { AsyncLocalStorage, AsyncResource } from 'node:async_hooks';
+import type { RequestContext } from './index';
+
+/**
+ * Context visible inside a runWithContext() scope.
+ * Fields are optional because nested scopes may only add or override some of them.
+ */
+export type ActiveContext = Partial<RequestContext>;
+
+const storage = new AsyncLocalStorage<ActiveContext>();
+
+/**
+ * Run a function with a request context bound to every log call made inside it.
+ *
+ * Nested calls inherit the enclosing context and add or override fields.
+ * Fields explicitly set to undefined do not clear inherited values.
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => {
+ *   runWithContext({ correlationId: req.headers['x-correlation-id'] }, next);
+ * });
+ *
+ * // Anywhere downstream, no logger threading required
+ * logger.info('Loaded tenant');  // includes correlation_id
+ *
+ * await runWithContext({ tenantId: 'tenant-1' }, async () => {
+ *   logger.info('Scoped');        // includes correlation_id and tenant_id
+ * });
+ * ```
+ */
+export function runWithContext<T>(context: ActiveContext, fn: () => T): T {
+  const parent = storage.getStore();
+  const merged: ActiveContext = { ...parent };
+
+  for (const key of Object.keys(context) as (keyof ActiveContext)[]) {
+    if (context[key] !== undefined) {
+      merged[key] = context[key];
+    }
+  }
+
+  return storage.run(merged, fn);
+}
+
+/**
+ * Get the context of the innermost active runWithContext() scope.
+ * Returns undefined when called outside any scope.
+ */
+export function getContext(): ActiveContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Bind a function to the context that is active right now.
+ * Useful for EventEmitter listeners and callback-based APIs that would otherwise
+ * run in the context of whoever triggers them.
+ *
+ * @example
+ * ```typescript
+ * runWithContext({ correlationId: 'abc-123' }, () => {
+ *   queue.on('message', bindContext((msg) => logger.info('Received', { id: msg.id })));
+ * });
+ * ```
+ */
+export function bindContext<F extends (...args: never[]) => unknown>(fn: F): F {
+  return AsyncResource.bind(fn as unknown as (...args: unknown[]) => unknown) as unknown as F;
+}
+
+/**
+ * Convert a request context into the snake_case log fields used across the package.
+ * @internal
+ */
+export function contextToBindings(context: ActiveContext): Record<string, string | undefined> {
+  return {
+    domain: context.domain,
+    correlation_id: context.correlationId,
+    user_id: context.userId,
+    tenant_id: context.tenantId,
+  };
+}
@@ -0,0 +1,193 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Writable } from 'node:stream';
+import { createLogger, type ArivLogger } from './index';
+
+/** Writable stream that collects parsed JSON lines */
+function collector(): Writable & { lines: Record<string, unknown>[] } {
+  const lines: Record<string, unknown>[] = [];
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      for (const line of chunk.toString().split('\n')) {
+        if (line) {
+          lines.push(JSON.parse(line));
+        }
+      }
+      callback();
+    },
+  });
+  return Object.assign(stream, { lines });
+}
+
+const readLines = (path: string) =>
+  readFileSync(path, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as Record<string, unknown>);
+
+describe('destinations', () => {
+  const originalEnv = process.env;
+  let logger: ArivLogger | undefined;
+  let dir: string;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    dir = mkdtempSync(join(tmpdir(), 'logger-destinations-'));
+  });
+
+  afterEach(async () => {
+    await logger?.shutdown();
+    logger = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should filter each destination by its own level', () => {
+    const all = collector();
+    const errors = collector();
+    logger = createLogger({
+      service: 'my-service',
+      level: 'debug',
+      destinations: [{ target: all }, { target: errors, level: 'error' }],
+    });
+
+    logger.debug('Debug');
+    logger.domain('auth').warn('Warn');
+    logger.error('Error');
+
+    expect(all.lines.map((line) => line.msg)).toEqual(['Debug', 'Warn', 'Error']);
+    expect(errors.lines).toEqual([
+      expect.objectContaining({ level: 50, msg: 'Error', service: 'my-service' }),
+    ]);
+  });
+
+  it('should apply the logger level before destination levels', () => {
+    const all = collector();
+    logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      destinations: [{ target: all, level: 'trace' }],
+    });
+    const auth = logger.domain('auth');
+
+    auth.debug('Hidden');
+    logger.setLevels({ level: 'debug' });
+    auth.debug('Visible');
+
+    expect(
+      all.lines.filter((line) => line.event !== 'log_level_change').map((line) => line.msg)
+    ).toEqual(['Visible']);
+  });
+
+  it('should write files, creating parent directories, and flush buffered output', () => {
+    const path = join(dir, 'nested', 'app.log');
+    logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      enableAsync: true,
+      asyncBufferSize: 8192,
+      destinations: [{ target: path }],
+    });
+
+    logger.info('Buffered');
+    expect(readFileSync(path, 'utf8')).toBe('');
+
+    logger.flush();
+    expect(readLines(path)).toEqual([expect.objectContaining({ msg: 'Buffered' })]);
+  });
+
+  it('should flush and close files on shutdown but leave caller streams open', async () => {
+    const path = join(dir, 'app.log');
+    const stream = collector();
+    logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      enableAsync: true,
+      destinations: [{ target: path }, { target: stream }],
+    });
+
+    logger.info('Before shutdown');
+    await logger.shutdown();
+
+    expect(readLines(path)).toEqual([expect.objectContaining({ msg: 'Before shutdown' })]);
+    expect(stream.lines).toHaveLength(1);
+    expect(stream.writableEnded).toBe(false);
+    expect(logger.getBufferMetrics()).toMatchObject({
+      isDestroyed: true,
+      destinations: [
+        { name: path, isDestroyed: true },
+        { name: 'stream', isDestroyed: false },
+      ],
+    });
+    logger = undefined;
+  });
+
+  it('should report metrics for every destination', () => {
+    logger = createLogger({
+      service: 'my-service',
+      destinations: [{ target: join(dir, 'app.log'), level: 'warn' }, { target: collector() }],
+    });
+
+    expect(logger.getBufferMetrics()).toEqual({
+      isAsync: false,
+      isPrettyMode: false,
+      metricsAvailable: true,
+      isBackpressured: false,
+      isDestroyed: false,
+      destinations: [
+        {
+          name: join(dir, 'app.log'),
+          level: 'warn',
+          format: 'json',
+          isBackpressured: false,
+          isDestroyed: false,
+        },
+        {
+          name: 'stream',
+          level: 'trace',
+          format: 'json',
+          isBackpressured: false,
+          isDestroyed: false,
+        },
+      ],
+    });
+  });
+
+  it('should write pretty output to a file through pino-pretty', async () => {
+    const path = join(dir, 'pretty.log');
+    logger = createLogger({
+      service: 'my-service',
+      level: 'info',
+      destinations: [{ target: path, format: 'pretty' }],
+    });
+
+    logger.domain('auth').info('Pretty line');
+    await logger.shutdown();
+    logger = undefined;
+
+    const output = readFileSync(path, 'utf8');
+    expect(output).toContain('[my-service:auth]');
+    expect(output).toContain('Pretty line');
+    expect(output).not.toContain('{"level"');
+  }, 15000);
+
+  it('should reject invalid destinations', () => {
+    expect(() => createLogger({ service: 'my-service', destinations: [] })).toThrow(
+      'destinations must contain at least one destination'
+    );
+    expect(() =>
+      createLogger({ service: 'my-service', destinations: [{ target: 2, level: 'loud' }] })
+    ).toThrow('Unknown log level "loud" for destination stderr');
+    expect(() =>
+      createLogger({
+        service: 'my-service',
+        destinations: [{ target: collector(), format: 'pretty' }],
+      })
+    ).toThrow('format "pretty" requires an fd or file path target');
+  });
+});
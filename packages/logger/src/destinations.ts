@@ -0,0 +1,492 @@
+/**
+ * Log destinations.
+ *
+ * By default a logger writes JSON to stdout (or pretty output in development). The
+ * `destinations` option replaces that with any number of fds, file paths and writable
+ * streams, each with its own minimum level and format:
+ *
+ * ```typescript
+ * destinations: [
+ *   { target: 1 }, // JSON to stdout
+ *   { target: 2, level: 'error' }, // errors to stderr
+ *   { target: '/var/log/my-service/app.log', level: 'trace' },
+ * ]
+ * ```
+ *
+ * Design notes:
+ * - The logger's level (including runtime changes and overrides) is applied first; a
+ *   destination's `level` filters further. A destination cannot receive lines its logger
+ *   does not emit.
+ * - fds and file paths are written with pino.destination() (SonicBoom) and follow the
+ *   logger's async settings; files are opened (and their directories created) up front.
+ *   `format: 'pretty'` runs pino-pretty in a worker thread
+ * - Streams passed in by the caller are flushed on shutdown() but not closed: the caller
+ *   owns them
+ */
+
+import { mkdirSync, openSync } from 'node:fs';
+import { dirname } from 'node:path';
+import pino, { type DestinationStream, type StreamEntry } from 'pino';
+import { isLevelName } from './levels';
+import { openRotatingFile, type RotateConfig } from './rotation';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Output format of a destination */
+export type DestinationFormat = 'json' | 'pretty';
+
+/** One log destination */
+export interface DestinationConfig {
+  /** fd (1 = stdout, 2 = stderr), file path, or writable stream */
+  target: number | string | DestinationStream;
+  /** Minimum level written to this destination (default: every line the logger emits) */
+  level?: string;
+  /**
+   * Output format (default: 'json'). 'pretty' requires the optional pino-pretty peer
+   * dependency and an fd or file path target.
+   */
+  format?: DestinationFormat;
+  /**
+   * Rotate a file path target by size and/or interval, with retention and optional gzip.
+   * Only for `format: 'json'`.
+   */
+  rotate?: RotateConfig;
+}
+
+/** Buffer state of one destination, as reported by getBufferMetrics() */
+export interface DestinationMetrics {
+  /** `stdout`, `stderr`, `fd:<n>`, the file path, or `stream` */
+  name: string;
+  level: string;
+  format: DestinationFormat;
+  /** Whether the stream is experiencing backpressure */
+  isBackpressured: boolean;
+  /** Whether the stream is destroyed/closed */
+  isDestroyed: boolean;
+}
+
+/**
+ * SonicBoom destination interface.
+ * SonicBoom is the underlying writer used by pino.destination().
+ *
+ * Operational characteristics:
+ * - flushSync() flushes the current buffer synchronously (blocking)
+ * - flush(cb) flushes asynchronously and calls callback when done
+ * - Under backpressure, writes may be dropped (configurable via maxWrite)
+ * - 'drain' event signals when writes can resume after backpressure
+ * - destroyed property indicates if the stream has been closed
+ * @internal
+ */
+export interface SonicBoomDestination extends DestinationStream {
+  /** Synchronously flush the buffer to the underlying file descriptor */
+  flushSync(): void;
+  /** Asynchronously flush and call callback when complete */
+  flush(cb?: () => void): void;
+  /**
+   * End the stream. SonicBoom ignores the callback and emits 'close' when done; other
+   * writers may call the callback instead.
+   */
+  end(cb?: () => void): void;
+  /** Register a one-time event listener (SonicBoom is an EventEmitter) */
+  once?(event: 'close', listener: () => void): void;
+  /** Whether the stream has been destroyed */
+  destroyed: boolean;
+  /** Minimum bytes before auto-flush (0 = immediate) */
+  minLength: number;
+}
+
+/**
+ * A destination opened by the logger, with uniform flush/close/metrics handling.
+ * @internal
+ */
+export interface ManagedDestination {
+  readonly name: string;
+  readonly level: string;
+  readonly format: DestinationFormat;
+  /** Stream handed to pino */
+  readonly stream: DestinationStream;
+  /** Whether the stream buffers output that flushSync() can write out */
+  readonly buffered: boolean;
+  /** Synchronously flush buffered output (may throw) */
+  flushSync(): void;
+  /** Flush and, for streams the logger opened, close. Resolves after at most 5 seconds. */
+  close(): Promise<void>;
+  metrics(): DestinationMetrics;
+}
+
+/** @internal */
+export interface OpenDestinationOptions {
+  /** Buffered async writes for fds and file paths */
+  async: boolean;
+  /** Buffer size before auto-flush in async mode */
+  bufferSize: number;
+  /** Called when a background operation (file rotation) fails */
+  onError(err: Error, name: string): void;
+  /** Reshapes each line written to JSON destinations (see formats.ts) */
+  formatLine?: (line: string) => string;
+  /** Targets that receive the default layout regardless of formatLine (the OTLP exporter) */
+  unformatted?: readonly DestinationStream[];
+}
+
+/** Stream properties read for metrics and shutdown (all optional) */
+interface StreamLike {
+  writableNeedDrain?: boolean;
+  destroyed?: boolean;
+  flushSync?: () => void;
+  flush?: (cb?: (err?: Error) => void) => void;
+  end?: (cb?: () => void) => void;
+  once?: (event: string, listener: () => void) => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** How long close() waits for a stream before giving up */
+const CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * pino-pretty options shared by the development default and `format: 'pretty'`.
+ * @internal
+ */
+export const PRETTY_OPTIONS = {
+  colorize: true,
+  translateTime: 'HH:MM:ss Z',
+  ignore: 'pid,hostname',
+  messageFormat: '[{service}:{domain}] {correlation_id} {msg}',
+} as const;
+
+/**
+ * Type guard to verify a destination has SonicBoom's required methods.
+ * This provides runtime safety for the type cast from pino.destination().
+ * @internal
+ */
+export function isSonicBoomDestination(dest: unknown): dest is SonicBoomDestination {
+  return (
+    dest !== null &&
+    typeof dest === 'object' &&
+    'flushSync' in dest &&
+    typeof (dest as SonicBoomDestination).flushSync === 'function' &&
+    'flush' in dest &&
+    typeof (dest as SonicBoomDestination).flush === 'function' &&
+    'end' in dest &&
+    typeof (dest as SonicBoomDestination).end === 'function' &&
+    'destroyed' in dest
+  );
+}
+
+/** Set by pino on streams that read the level of each line (e.g. pino.multistream()) */
+const METADATA = Symbol.for('pino.metadata');
+
+type MetadataStream = DestinationStream & {
+  lastLevel?: number;
+  lastTime?: string;
+  lastMsg?: string;
+  lastObj?: object;
+  lastLogger?: unknown;
+};
+
+/**
+ * Wrap `inner` so every line is reformatted first. A multistream passed in as a
+ * destination keeps receiving the metadata it filters levels by.
+ */
+function formatStream(inner: MetadataStream, formatLine: (line: string) => string) {
+  if (!(inner as unknown as Record<symbol, unknown>)[METADATA]) {
+    return { write: (line: string) => inner.write(formatLine(line)) };
+  }
+  const wrapper: MetadataStream = {
+    write(line: string) {
+      inner.lastLevel = wrapper.lastLevel;
+      inner.lastTime = wrapper.lastTime;
+      inner.lastMsg = wrapper.lastMsg;
+      inner.lastObj = wrapper.lastObj;
+      inner.lastLogger = wrapper.lastLogger;
+      inner.write(formatLine(line));
+    },
+  };
+  return Object.assign(wrapper, { [METADATA]: true });
+}
+
+function targetName(target: DestinationConfig['target']): string {
+  if (typeof target === 'number') {
+    return target === 1 ? 'stdout' : target === 2 ? 'stderr' : `fd:${target}`;
+  }
+  return typeof target === 'string' ? target : 'stream';
+}
+
+/**
+ * Resolve after `fn` calls back, or after CLOSE_TIMEOUT_MS
+ * @internal
+ */
+export function withTimeout(fn: (done: () => void) => void): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, CLOSE_TIMEOUT_MS);
+    fn(() => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+/** Flush a SonicBoom destination, then end it */
+function closeSonicBoom(dest: SonicBoomDestination): Promise<void> {
+  // end() throws on a destroyed stream (e.g. shutdown() called twice)
+  if (dest.destroyed) {
+    return Promise.resolve();
+  }
+
+  // Step 1: Synchronously flush current buffer
+  try {
+    dest.flushSync();
+  } catch {
+    // Ignore flush errors during shutdown
+  }
+
+  // Step 2: End the stream and wait for completion
+  return withTimeout((done) => {
+    dest.once?.('close', done);
+    // In pino v10+, flush() may not be available on all destinations
+    if (typeof dest.flush === 'function') {
+      dest.flush(() => dest.end(done));
+    } else {
+      dest.end(done);
+    }
+  });
+}
+
+// =============================================================================
+// DESTINATIONS
+// =============================================================================
+
+/**
+ * Wrap a SonicBoom destination opened by the logger.
+ * @internal
+ */
+export function manageSonicBoom(
+  dest: SonicBoomDestination,
+  name: string,
+  level = 'trace',
+  format: DestinationFormat = 'json'
+): ManagedDestination {
+  return {
+    name,
+    level,
+    format,
+    stream: dest,
+    get buffered() {
+      return dest.minLength > 0;
+    },
+    flushSync: () => dest.flushSync(),
+    close: () => closeSonicBoom(dest),
+    metrics: () => streamMetrics(dest, name, level, format),
+  };
+}
+
+function streamMetrics(
+  stream: DestinationStream,
+  name: string,
+  level: string,
+  format: DestinationFormat
+): DestinationMetrics {
+  const s = stream as StreamLike;
+  return {
+    name,
+    level,
+    format,
+    // writableNeedDrain is a standard Node.js stream property that SonicBoom inherits
+    isBackpressured: s.writableNeedDrain ?? false,
+    isDestroyed: s.destroyed ?? false,
+  };
+}
+
+/** JSON file rotated by size and/or interval */
+function openRotating(
+  path: string,
+  rotate: RotateConfig,
+  level: string,
+  options: OpenDestinationOptions
+): ManagedDestination {
+  const file = openRotatingFile(path, rotate, {
+    async: options.async,
+    bufferSize: options.bufferSize,
+    onError: (err) => {
+      if (file.sonic.destroyed) {
+        // Background work finishing after shutdown() cannot log through the closed file
+        console.error(`[@arivlabs/logger] Log file rotation failed for ${path}:`, err.message);
+        return;
+      }
+      options.onError(err, path);
+    },
+  });
+  const { sonic } = file;
+
+  return {
+    name: path,
+    level,
+    format: 'json',
+    stream: file.stream,
+    get buffered() {
+      return sonic.minLength > 0;
+    },
+    flushSync: () => {
+      // The file is opened asynchronously in async mode; writes are buffered until then
+      if ((sonic as unknown as { fd: number }).fd >= 0) {
+        sonic.flushSync();
+      }
+    },
+    close: async () => {
+      file.stop();
+      await closeSonicBoom(sonic);
+      await file.idle();
+    },
+    metrics: () => streamMetrics(sonic, path, level, 'json'),
+  };
+}
+
+/** pino-pretty in a worker thread, writing to an fd or file */
+function openPretty(target: number | string, name: string, level: string): ManagedDestination {
+  const stream = pino.transport({
+    target: 'pino-pretty',
+    options: {
+      ...PRETTY_OPTIONS,
+      colorize: typeof target === 'number',
+      destination: target,
+      mkdir: true,
+    },
+  });
+  const s = stream as unknown as StreamLike;
+
+  return {
+    name,
+    level,
+    format: 'pretty',
+    stream,
+    buffered: true,
+    flushSync: () => s.flushSync?.(),
+    close: () =>
+      withTimeout((done) => {
+        s.once?.('close', done);
+        s.end?.();
+      }),
+    metrics: () => streamMetrics(stream, name, level, 'pretty'),
+  };
+}
+
+/** A stream owned by the caller: flushed on close, never ended */
+function manageCallerStream(stream: DestinationStream, level: string): ManagedDestination {
+  const s = stream as StreamLike;
+
+  return {
+    name: 'stream',
+    level,
+    format: 'json',
+    stream,
+    buffered: typeof s.flushSync === 'function',
+    flushSync: () => s.flushSync?.(),
+    close: () => {
+      if (typeof s.flush === 'function') {
+        return withTimeout((done) => s.flush!(() => done()));
+      }
+      if (s.writableNeedDrain && typeof s.once === 'function') {
+        return withTimeout((done) => s.once!('drain', done));
+      }
+      return Promise.resolve();
+    },
+    metrics: () => streamMetrics(stream, 'stream', level, 'json'),
+  };
+}
+
+/**
+ * Open one configured destination. Throws on invalid configuration.
+ * @internal
+ */
+export function openDestination(
+  config: DestinationConfig,
+  options: OpenDestinationOptions
+): ManagedDestination {
+  const { target, level = 'trace', format = 'json', rotate } = config;
+  const name = targetName(target);
+
+  if (!isLevelName(level)) {
+    throw new Error(`[@arivlabs/logger] Unknown log level "${level}" for destination ${name}`);
+  }
+  if (format !== 'json' && format !== 'pretty') {
+    throw new Error(`[@arivlabs/logger] Unknown format "${format}" for destination ${name}`);
+  }
+
+  if (rotate && (typeof target !== 'string' || format !== 'json')) {
+    throw new Error(`[@arivlabs/logger] rotate requires a file path target with format "json"`);
+  }
+
+  if (typeof target !== 'number' && typeof target !== 'string') {
+    if (format === 'pretty') {
+      throw new Error(
+        '[@arivlabs/logger] format "pretty" requires an fd or file path target, not a stream'
+      );
+    }
+    return manageCallerStream(target, level);
+  }
+
+  if (format === 'pretty') {
+    return openPretty(target, name, level);
+  }
+  if (rotate) {
+    return openRotating(target as string, rotate, level, options);
+  }
+
+  // Open files synchronously so flush() works right away and a bad path throws here
+  let fd = target;
+  if (typeof fd === 'string') {
+    mkdirSync(dirname(fd), { recursive: true });
+    fd = openSync(fd, 'a');
+  }
+
+  const dest = pino.destination({
+    dest: fd,
+    sync: !options.async,
+    minLength: options.async ? options.bufferSize : 0,
+  });
+  if (!isSonicBoomDestination(dest)) {
+    // Should never happen with standard pino; treat it like a caller-provided stream
+    return manageCallerStream(dest, level);
+  }
+  return manageSonicBoom(dest, name, level);
+}
+
+/**
+ * Open every configured destination and combine them into one pino stream that filters
+ * by each destination's level. Already opened destinations are closed if one fails.
+ * @internal
+ */
+export function openDestinations(
+  configs: DestinationConfig[],
+  options: OpenDestinationOptions
+): { stream: DestinationStream; destinations: ManagedDestination[] } {
+  if (configs.length === 0) {
+    throw new Error('[@arivlabs/logger] destinations must contain at least one destination');
+  }
+
+  const destinations: ManagedDestination[] = [];
+  try {
+    for (const config of configs) {
+      destinations.push(openDestination(config, options));
+    }
+  } catch (err) {
+    for (const dest of destinations) {
+      void dest.close();
+    }
+    throw err;
+  }
+
+  const { formatLine, unformatted = [] } = options;
+  const entries = destinations.map((dest): StreamEntry<string> => {
+    const stream =
+      formatLine && dest.format === 'json' && !unformatted.includes(dest.stream)
+        ? formatStream(dest.stream, formatLine)
+        : dest.stream;
+    return { stream, level: dest.level };
+  });
+  return { stream: pino.multistream(entries), destinations };
+}
@@ -0,0 +1,233 @@
+import pino from 'pino';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+import { runFatalHooks } from './diagnostics';
+import { collectDiagnostics, createLogger, type ArivLogger } from './index';
+
+const lastListener = (event: string) =>
+  process.listeners(event as NodeJS.Signals).at(-1) as (...args: unknown[]) => void;
+
+describe('collectDiagnostics()', () => {
+  it('should snapshot memory, uptime, handles and the Node version', () => {
+    const diagnostics = collectDiagnostics();
+
+    expect(diagnostics).toMatchObject({
+      node_version: process.version,
+      pid: process.pid,
+      memory: { rss_bytes: expect.any(Number), heap_used_bytes: expect.any(Number) },
+      active_handles: expect.any(Number),
+      active_requests: expect.any(Number),
+    });
+    expect(diagnostics.uptime_s).toBeGreaterThan(0);
+    expect(diagnostics.active_resources).toBeInstanceOf(Object);
+    expect(diagnostics.report).toBeUndefined();
+  });
+
+  it('should add a process.report summary with report: true', () => {
+    const { report } = collectDiagnostics({ report: true });
+
+    expect(report).toMatchObject({ arch: process.arch, cpus: expect.any(Number) });
+    expect(report?.max_rss_bytes).toBeGreaterThan(0);
+  });
+
+  it('should leave out parts that fail', () => {
+    jest.spyOn(process, 'memoryUsage').mockImplementation(() => {
+      throw new Error('EMFILE');
+    });
+
+    const diagnostics = collectDiagnostics();
+
+    expect(diagnostics.memory).toBeUndefined();
+    expect(diagnostics.node_version).toBe(process.version);
+    jest.restoreAllMocks();
+  });
+});
+
+describe('runFatalHooks()', () => {
+  const err = new Error('boom');
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run hooks in order and report failures without stopping', async () => {
+    const calls: string[] = [];
+    const failures: unknown[] = [];
+
+    await runFatalHooks(
+      [
+        async () => {
+          calls.push('first');
+        },
+        () => {
+          throw new Error('hook failed');
+        },
+        (hookErr, event) => {
+          calls.push(`${hookErr.message}:${event}`);
+        },
+      ],
+      err,
+      'uncaughtException',
+      (hookErr) => failures.push(hookErr)
+    );
+
+    expect(calls).toEqual(['first', 'boom:uncaughtException']);
+    expect(failures).toEqual([new Error('hook failed')]);
+  });
+
+  it('should stop waiting after 5 seconds', async () => {
+    jest.useFakeTimers();
+    let settled = false;
+
+    const running = runFatalHooks(
+      [() => new Promise<void>(() => {})],
+      err,
+      'unhandledRejection',
+      () => {}
+    ).then(() => {
+      settled = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(settled).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    await running;
+    expect(settled).toBe(true);
+  });
+});
+
+describe('createLogger() crash diagnostics', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let logger: ArivLogger | undefined;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+  });
+
+  afterEach(async () => {
+    await logger?.shutdown();
+    logger = undefined;
+    output.restore();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  const destination = () =>
+    (pino.destination as jest.Mock).mock.results[0].value as {
+      flushSync: jest.Mock;
+      minLength: number;
+    };
+
+  it('should flush synchronously after fatal(), also behind a format profile', () => {
+    // pino only flushes fatal lines itself when its stream has flushSync()
+    logger = createLogger({ service: 'api', pretty: false, enableAsync: true, format: 'ecs' });
+    destination().minLength = 4096;
+
+    logger.info('Buffered');
+    expect(destination().flushSync).not.toHaveBeenCalled();
+    logger.fatal('Cannot continue');
+
+    expect(destination().flushSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write diagnostics on crash records and run onFatal hooks before exiting', async () => {
+    process.env.NODE_ENV = 'production';
+    const exited = new Promise<number | undefined>((resolve) => {
+      jest.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+        resolve(code);
+      }) as never);
+    });
+    const onFatal = jest.fn(async () => {
+      throw new Error('alerting unavailable');
+    });
+    logger = createLogger({
+      service: 'api',
+      pretty: false,
+      handleExceptions: true,
+      onFatal,
+      diagnostics: { report: true },
+    });
+
+    lastListener('uncaughtException')(new Error('boom'));
+
+    await expect(exited).resolves.toBe(1);
+    expect(onFatal).toHaveBeenCalledWith(new Error('boom'), 'uncaughtException');
+    expect(output.lines[0]).toMatchObject({
+      level: 60,
+      msg: 'Process terminating due to error',
+      event: 'uncaughtException',
+      diagnostics: {
+        node_version: process.version,
+        memory: { rss_bytes: expect.any(Number) },
+        report: { arch: process.arch },
+      },
+    });
+    expect(output.lines[1]).toMatchObject({ level: 50, msg: 'onFatal hook failed' });
+    expect(destination().flushSync.mock.calls.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should not start another crash sequence while onFatal hooks run', async () => {
+    process.env.NODE_ENV = 'production';
+    const exit = jest.spyOn(process, 'exit').mockImplementation((() => {}) as never);
+    let finishHook = () => {};
+    const onFatal = jest.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishHook = resolve;
+        })
+    );
+    logger = createLogger({ service: 'api', pretty: false, handleExceptions: true, onFatal });
+
+    lastListener('uncaughtException')(new Error('boom'));
+    lastListener('unhandledRejection')(new Error('hook side effect'));
+    finishHook();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(onFatal).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledTimes(1);
+    expect(output.lines.map((line) => [line.level, line.msg, line.event])).toEqual([
+      [60, 'Process terminating due to error', 'uncaughtException'],
+      [50, 'Uncaught error while terminating', 'unhandledRejection'],
+    ]);
+  });
+
+  it('should log opted-in process events and remove the listeners on shutdown', async () => {
+    const before = process.listenerCount('exit');
+    logger = createLogger({
+      service: 'api',
+      pretty: false,
+      enableAsync: true,
+      diagnostics: { processEvents: ['warning', 'exit'] },
+    });
+    destination().minLength = 4096;
+
+    lastListener('warning')(new Error('Possible EventEmitter memory leak detected'));
+    lastListener('exit')(2);
+
+    expect(output.lines).toEqual([
+      expect.objectContaining({
+        level: 40,
+        msg: 'Process warning',
+        event: 'warning',
+        err: expect.objectContaining({ message: 'Possible EventEmitter memory leak detected' }),
+      }),
+      expect.objectContaining({
+        level: 50,
+        msg: 'Process exiting',
+        event: 'exit',
+        exit_code: 2,
+        uptime_s: expect.any(Number),
+      }),
+    ]);
+    expect(destination().flushSync).toHaveBeenCalled();
+
+    await logger.shutdown();
+    logger = undefined;
+    expect(process.listenerCount('exit')).toBe(before);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Crash diagnostics and process event logging.
+ *
+ * A crash record with only `err` rarely explains why the process died: whether it was out
+ * of memory, leaking sockets, or had been up for minutes or weeks. Crash records written
+ * by `handleExceptions` carry a `diagnostics` snapshot:
+ *
+ * ```json
+ * {"level":60,"event":"uncaughtException","err":{...},"diagnostics":{"node_version":"v22.11.0",
+ *   "pid":4121,"uptime_s":86012.4,"memory":{"rss_bytes":512000000,"heap_used_bytes":401000000,...},
+ *   "active_handles":212,"active_requests":3,"active_resources":{"TCPSocketWrap":198,"Timeout":12}}}
+ * ```
+ *
+ * Design notes:
+ * - Collection never throws: each part that fails is left out, so a broken snapshot cannot
+ *   cost the crash record itself
+ * - The process.report summary is opt-in (`diagnostics.report`): generating a report takes
+ *   tens of milliseconds and the full report contains environment variables, so only a
+ *   summary is logged
+ * - `beforeExit` is logged once: writing a line schedules work, which would emit
+ *   `beforeExit` again
+ */
+
+import type { EventLogFn } from './events';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Process events that can be logged via `diagnostics.processEvents` */
+export type ProcessEventName = 'warning' | 'beforeExit' | 'exit';
+
+/**
+ * Crash diagnostics and process event settings.
+ *
+ * @example
+ * diagnostics: { report: true, processEvents: ['warning', 'exit'] }
+ */
+export interface DiagnosticsConfig {
+  /** Add a process.report summary to crash records (default: false) */
+  report?: boolean;
+  /**
+   * Log these process events (`true` for all): `warning` at warn, `beforeExit` at info,
+   * `exit` at info (error for a non-zero exit code). Default: none
+   */
+  processEvents?: boolean | ProcessEventName[];
+}
+
+/** Process events handled by `handleExceptions` */
+export type CrashEvent = 'uncaughtException' | 'unhandledRejection';
+
+/**
+ * A hook run after the crash record is written and flushed, before process.exit(1).
+ * Hooks run in order; together they are awaited for at most 5 seconds.
+ */
+export type FatalHook = (err: Error, event: CrashEvent) => void | Promise<void>;
+
+/** Summary of a process.report diagnostic report */
+export interface ReportSummary {
+  os?: string;
+  arch?: string;
+  cpus?: number;
+  libuv_handles?: number;
+  workers?: number;
+  user_cpu_seconds?: number;
+  kernel_cpu_seconds?: number;
+  max_rss_bytes?: number;
+}
+
+/** Process snapshot written as `diagnostics` on crash records */
+export interface ProcessDiagnostics {
+  node_version: string;
+  pid: number;
+  uptime_s: number;
+  memory?: {
+    rss_bytes: number;
+    heap_total_bytes: number;
+    heap_used_bytes: number;
+    external_bytes: number;
+    array_buffers_bytes: number;
+  };
+  active_handles?: number;
+  active_requests?: number;
+  /** Active libuv resources by type (e.g. `TCPSocketWrap`, `Timeout`) */
+  active_resources?: Record<string, number>;
+  report?: ReportSummary;
+}
+
+// =============================================================================
+// COLLECTION
+// =============================================================================
+
+/** How long onFatal hooks may run before the process exits anyway */
+const FATAL_HOOK_TIMEOUT_MS = 5000;
+
+/** Undocumented but present in every supported Node version */
+interface ProcessInternals {
+  _getActiveHandles?: () => unknown[];
+  _getActiveRequests?: () => unknown[];
+}
+
+/** Run `fn`, returning undefined if it throws */
+function attempt<T>(fn: () => T): T | undefined {
+  try {
+    return fn();
+  } catch {
+    return undefined;
+  }
+}
+
+function summarizeReport(): ReportSummary | undefined {
+  const report = process.report?.getReport() as
+    | {
+        header?: { osName?: string; osRelease?: string; arch?: string; cpus?: unknown[] };
+        libuv?: unknown[];
+        workers?: unknown[];
+        resourceUsage?: { userCpuSeconds?: number; kernelCpuSeconds?: number; maxRss?: number };
+      }
+    | undefined;
+  if (!report) {
+    return undefined;
+  }
+  const { header, resourceUsage } = report;
+  return {
+    os: header?.osName && [header.osName, header.osRelease].filter(Boolean).join(' '),
+    arch: header?.arch,
+    cpus: header?.cpus?.length,
+    libuv_handles: report.libuv?.length,
+    workers: report.workers?.length,
+    user_cpu_seconds: resourceUsage?.userCpuSeconds,
+    kernel_cpu_seconds: resourceUsage?.kernelCpuSeconds,
+    max_rss_bytes: resourceUsage?.maxRss,
+  };
+}
+
+/**
+ * Snapshot of the process for crash records: memory, uptime, active handles and requests,
+ * Node version and, with `report: true`, a process.report summary.
+ *
+ * @example
+ * logger.warn('Memory pressure', { diagnostics: collectDiagnostics() });
+ */
+export function collectDiagnostics(
+  options: Pick<DiagnosticsConfig, 'report'> = {}
+): ProcessDiagnostics {
+  const internals = process as unknown as ProcessInternals;
+  const memory = attempt(() => process.memoryUsage());
+  const resources = attempt(() => process.getActiveResourcesInfo());
+
+  return {
+    node_version: process.version,
+    pid: process.pid,
+    uptime_s: process.uptime(),
+    ...(memory && {
+      memory: {
+        rss_bytes: memory.rss,
+        heap_total_bytes: memory.heapTotal,
+        heap_used_bytes: memory.heapUsed,
+        external_bytes: memory.external,
+        array_buffers_bytes: memory.arrayBuffers,
+      },
+    }),
+    active_handles: attempt(() => internals._getActiveHandles?.().length),
+    active_requests: attempt(() => internals._getActiveRequests?.().length),
+    ...(resources && {
+      active_resources: resources.reduce<Record<string, number>>((counts, type) => {
+        counts[type] = (counts[type] ?? 0) + 1;
+        return counts;
+      }, {}),
+    }),
+    ...(options.report && { report: attempt(summarizeReport) }),
+  };
+}
+
+// =============================================================================
+// FATAL HOOKS
+// =============================================================================
+
+/**
+ * Run onFatal hooks in order, for at most FATAL_HOOK_TIMEOUT_MS in total. Hooks that throw
+ * are reported to `onHookError` and the next one runs.
+ * @internal
+ */
+export async function runFatalHooks(
+  hooks: FatalHook[],
+  err: Error,
+  event: CrashEvent,
+  onHookError: (hookErr: unknown) => void
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, FATAL_HOOK_TIMEOUT_MS);
+    timer.unref();
+  });
+  const run = async () => {
+    for (const hook of hooks) {
+      try {
+        await hook(err, event);
+      } catch (hookErr) {
+        onHookError(hookErr);
+      }
+    }
+  };
+  await Promise.race([run(), expired]).finally(() => clearTimeout(timer));
+}
+
+// =============================================================================
+// PROCESS EVENTS
+// =============================================================================
+
+/**
+ * Log the given process events through `log`, calling `flush` after `beforeExit` and
+ * `exit` records. Returns a function that removes the listeners.
+ * @internal
+ */
+export function attachProcessEvents(
+  log: EventLogFn,
+  events: DiagnosticsConfig['processEvents'],
+  flush: () => void
+): () => void {
+  const names: ProcessEventName[] =
+    events === true ? ['warning', 'beforeExit', 'exit'] : events || [];
+  const listeners: [
+    ProcessEventName,
+    NodeJS.WarningListener | NodeJS.BeforeExitListener | NodeJS.ExitListener,
+  ][] = [];
+
+  if (names.includes('warning')) {
+    listeners.push([
+      'warning',
+      (warning: Error) => log('warn', 'Process warning', { event: 'warning', err: warning }),
+    ]);
+  }
+  if (names.includes('beforeExit')) {
+    let logged = false;
+    listeners.push([
+      'beforeExit',
+      (code: number) => {
+        if (logged) {
+          return;
+        }
+        logged = true;
+        log('info', 'Process before exit', { event: 'beforeExit', exit_code: code });
+        flush();
+      },
+    ]);
+  }
+  if (names.includes('exit')) {
+    listeners.push([
+      'exit',
+      (code: number) => {
+        log(code === 0 ? 'info' : 'error', 'Process exiting', {
+          event: 'exit',
+          exit_code: code,
+          uptime_s: process.uptime(),
+        });
+        flush();
+      },
+    ]);
+  }
+
+  for (const [name, listener] of listeners) {
+    process.on(name, listener);
+  }
+  return () => {
+    for (const [name, listener] of listeners) {
+      process.removeListener(name, listener);
+    }
+  };
+}
@@ -0,0 +1,141 @@
+import { errorFingerprint, messageTemplate, serializeError, toError } from './errors';
+import { createTestLogger } from './testing';
+
+describe('error serialization', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  class SyncError extends Error {
+    code = 'E_SYNC';
+  }
+
+  it('should serialize cause chains as nested errors up to the depth limit', () => {
+    const root = new TypeError('socket closed');
+    const middle = new Error('Timed out', { cause: root });
+    const top = new SyncError('Tenant sync failed', { cause: middle });
+
+    const serialized = serializeError(top);
+    expect(serialized).toMatchObject({
+      type: 'SyncError',
+      message: 'Tenant sync failed',
+      code: 'E_SYNC',
+      stack: expect.stringContaining('Tenant sync failed'),
+      fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      cause: {
+        type: 'Error',
+        message: 'Timed out',
+        cause: { type: 'TypeError', message: 'socket closed' },
+      },
+    });
+    expect(serialized.cause?.fingerprint).toBeUndefined();
+
+    const shallow = serializeError(top, { maxCauseDepth: 1 });
+    expect(shallow.cause).toMatchObject({ message: 'Timed out', truncated: true });
+    expect(shallow.cause?.cause).toBeUndefined();
+  });
+
+  it('should stop at circular causes', () => {
+    const a = new Error('a');
+    const b = new Error('b', { cause: a });
+    (a as { cause?: unknown }).cause = b;
+
+    const serialized = serializeError(a);
+    expect(serialized.cause).toMatchObject({ message: 'b' });
+    expect(serialized.cause?.cause).toBeUndefined();
+    expect(() => JSON.stringify(serialized)).not.toThrow();
+  });
+
+  it('should serialize AggregateError members', () => {
+    const members = [new Error('first'), 'second', new RangeError('third')];
+    const serialized = serializeError(new AggregateError(members, 'Batch failed'), {
+      maxAggregateErrors: 2,
+    });
+
+    expect(serialized).toMatchObject({
+      type: 'AggregateError',
+      message: 'Batch failed',
+      errors: [
+        { type: 'Error', message: 'first' },
+        { type: 'NonError', message: 'second', thrown: 'second' },
+      ],
+      omitted_errors: 1,
+    });
+  });
+
+  it('should normalize thrown non-Errors', () => {
+    expect(serializeError('boom', { fingerprint: false })).toEqual({
+      type: 'NonError',
+      message: 'boom',
+      stack: expect.any(String),
+      thrown: 'boom',
+    });
+    expect(serializeError(42)).toMatchObject({ type: 'NonError', message: '42', thrown: 42 });
+    expect(serializeError({ status: 503 })).toMatchObject({
+      type: 'NonError',
+      message: '{"status":503}',
+      thrown: { status: 503 },
+    });
+    // Error-like objects (e.g. deserialized errors) keep their name and fields
+    expect(
+      serializeError({ name: 'HttpError', message: 'Bad gateway', status: 502 })
+    ).toMatchObject({
+      type: 'HttpError',
+      message: 'Bad gateway',
+      status: 502,
+    });
+
+    const err = new Error('kept');
+    expect(toError(err)).toBe(err);
+    expect(toError(undefined)).toMatchObject({ name: 'NonError', message: 'undefined' });
+  });
+
+  it('should fingerprint by type, message template and call site', () => {
+    const notFound = (id: string) => new Error(`User ${id} not found`);
+
+    const first = errorFingerprint(notFound('3f2b8e4c-1d7a-4b9e-8c6f-2a5d9e1b7c30'));
+    const second = errorFingerprint(notFound('9c1e5a7b-2f4d-4e8a-b3c6-7d0f1e2a3b4c'));
+    const other = errorFingerprint(
+      new Error('User 3f2b8e4c-1d7a-4b9e-8c6f-2a5d9e1b7c30 not found')
+    );
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(other);
+    expect(errorFingerprint(new TypeError('x'))).not.toBe(errorFingerprint(new Error('x')));
+
+    expect(messageTemplate(`Order 1234 for "acme" failed after 2.5s (req deadbeef00112233)`)).toBe(
+      'Order <n> for <str> failed after <n>s (req <hex>)'
+    );
+    expect(messageTemplate("Can't reach 'db-1'")).toBe("Can't reach <str>");
+  });
+
+  it('should serialize err on log records, including redacted cause chains and non-Errors', () => {
+    const logger = createTestLogger({
+      redact: { patterns: true, censor: '***' },
+    });
+
+    logger.error('Charge failed', {
+      err: new Error('Declined', { cause: new Error('card 4111111111111111 expired') }),
+    });
+    logger.error('Rejected', { err: 'plain string' });
+
+    expect(logger.entries[0].err).toMatchObject({
+      type: 'Error',
+      message: 'Declined',
+      fingerprint: expect.any(String),
+      cause: { message: 'card *** expired' },
+    });
+    expect(logger.entries[1].err).toMatchObject({ type: 'NonError', message: 'plain string' });
+
+    const plain = createTestLogger({ errors: { fingerprint: false } });
+    plain.error('Failed', { error: new Error('x') });
+    expect(plain.entries[0].err).not.toHaveProperty('fingerprint');
+  });
+});
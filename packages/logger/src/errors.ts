@@ -0,0 +1,245 @@
+/**
+ * Error serialization: cause chains, AggregateError members, thrown non-Errors and
+ * fingerprints.
+ *
+ * Replaces pino's `err` serializer, which folds causes into one message/stack string,
+ * passes thrown strings and plain objects through as-is, and offers nothing to group
+ * repeated occurrences by:
+ *
+ * ```json
+ * {"err":{"type":"SyncError","message":"Tenant sync failed","stack":"...","fingerprint":"3f9c0d5e1a2b4c6d",
+ *   "cause":{"type":"TimeoutError","message":"Timed out after 5000ms","stack":"..."}}}
+ * ```
+ *
+ * Design notes:
+ * - `cause` is serialized as a nested error up to `maxCauseDepth` levels; deeper causes are
+ *   replaced by `truncated: true`, and circular chains stop at the repeated error
+ * - AggregateError members are serialized as `errors` (up to `maxAggregateErrors`, the rest
+ *   counted in `omitted_errors`)
+ * - Thrown strings, numbers and plain objects become `type: 'NonError'` errors with the
+ *   value kept as `thrown`. Objects with a string `message` are treated as errors
+ * - The fingerprint hashes the type, the message with variable parts (numbers, IDs, quoted
+ *   values) replaced, and the top stack frames without line/column numbers, so it stays
+ *   stable across occurrences and small code changes
+ */
+
+import { createHash } from 'node:crypto';
+import { findTypeSerializer, type TypeSerializer } from './serializers';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Error serialization settings.
+ *
+ * @example
+ * errors: { maxCauseDepth: 3, fingerprint: false }
+ */
+export interface ErrorSerializerOptions {
+  /** Nested `cause` levels to serialize (default: 5) */
+  maxCauseDepth?: number;
+  /** AggregateError members to serialize (default: 10) */
+  maxAggregateErrors?: number;
+  /** Add `fingerprint` to the top-level error (default: true) */
+  fingerprint?: boolean;
+}
+
+/** A serialized error as written to `err` */
+export interface SerializedError {
+  /** Constructor name (e.g. `TypeError`), or `NonError` for thrown non-Errors */
+  type: string;
+  message: string;
+  stack?: string;
+  /** Stable grouping key (top-level error only) */
+  fingerprint?: string;
+  cause?: SerializedError;
+  /** AggregateError members */
+  errors?: SerializedError[];
+  /** AggregateError members beyond `maxAggregateErrors` */
+  omitted_errors?: number;
+  /** Set when the cause chain was cut at `maxCauseDepth` */
+  truncated?: boolean;
+  /** The original value of a thrown non-Error */
+  thrown?: unknown;
+  /** Custom properties of the error (e.g. `code`, `statusCode`) */
+  [key: string]: unknown;
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/** Properties written by the serializer itself rather than copied from the error */
+const RESERVED = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+const FINGERPRINT_FRAMES = 3;
+
+const isErrorLike = (value: unknown): value is Error =>
+  value instanceof Error ||
+  (value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { message?: unknown }).message === 'string');
+
+function describeThrown(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+}
+
+/**
+ * Convert any thrown value into an Error. Errors (and error-like objects) are returned
+ * as-is; other values become an Error named `NonError` that keeps the value as `thrown`.
+ *
+ * @example
+ * process.on('unhandledRejection', (reason) => logger.fatal('Unhandled', { err: toError(reason) }));
+ */
+export function toError(value: unknown): Error {
+  if (isErrorLike(value)) {
+    return value;
+  }
+  const err = new Error(describeThrown(value));
+  err.name = 'NonError';
+  return Object.assign(err, { thrown: value });
+}
+
+// =============================================================================
+// FINGERPRINT
+// =============================================================================
+
+/**
+ * Replace the variable parts of an error message, so messages that differ only in IDs,
+ * numbers or quoted values share a template.
+ * @internal
+ */
+export function messageTemplate(message: string): string {
+  return message
+    .replace(/"[^"]*"|`[^`]*`|(?<!\w)'[^']*'/g, '<str>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{12,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>');
+}
+
+/**
+ * The top stack frames as `function (file)`, without line/column numbers and Node
+ * internals, relative to the working directory.
+ */
+function topFrames(stack: string | undefined): string[] {
+  if (!stack) {
+    return [];
+  }
+  const cwd = process.cwd();
+  return stack
+    .split('\n')
+    .filter((line) => /^\s+at /.test(line) && !line.includes('node:internal'))
+    .slice(0, FINGERPRINT_FRAMES)
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^at /, '')
+        .replace('file://', '')
+        .replace(cwd, '')
+        .replace(/:\d+:\d+(?=\)?$)/, '')
+    );
+}
+
+/**
+ * A stable grouping key for an error: a 16-character hash of its type, message template
+ * and top stack frames.
+ *
+ * @example
+ * logger.metric('Errors', 1, { dimensions: { fingerprint: errorFingerprint(err) } });
+ */
+export function errorFingerprint(value: unknown): string {
+  const err = toError(value);
+  return createHash('sha256')
+    .update([errorType(err), messageTemplate(err.message), ...topFrames(err.stack)].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// =============================================================================
+// SERIALIZER
+// =============================================================================
+
+function errorType(err: Error): string {
+  const ctor = (err as { constructor?: unknown }).constructor;
+  return typeof ctor === 'function' && ctor !== Error && ctor !== Object && ctor.name
+    ? ctor.name
+    : err.name || 'Error';
+}
+
+/**
+ * Serialize any thrown value for the `err` field. Errors handled by one of `types` (e.g.
+ * `BUILTIN_SERIALIZERS.axios`) take that serializer's shape; their causes are still added.
+ *
+ * @example
+ * ```typescript
+ * const serialized = serializeError(new AggregateError([e1, e2], 'Batch failed'));
+ * // { type: 'AggregateError', message: 'Batch failed', errors: [...], fingerprint: '...' }
+ * ```
+ */
+export function serializeError(
+  value: unknown,
+  options: ErrorSerializerOptions = {},
+  types: TypeSerializer[] = []
+): SerializedError {
+  const maxCauseDepth = options.maxCauseDepth ?? 5;
+  const maxAggregateErrors = options.maxAggregateErrors ?? 10;
+  const seen = new Set<unknown>();
+
+  const serialize = (err: Error, depth: number): SerializedError => {
+    seen.add(err);
+    const custom = findTypeSerializer(types, err);
+    const out: SerializedError = custom
+      ? { type: errorType(err), message: err.message, ...(custom.serialize(err) as object) }
+      : { type: errorType(err), message: err.message, stack: err.stack };
+
+    for (const key in err) {
+      if (!custom && !RESERVED.has(key)) {
+        const prop = (err as unknown as Record<string, unknown>)[key];
+        if (!isErrorLike(prop)) {
+          out[key] = prop;
+        } else if (!seen.has(prop)) {
+          out[key] = serialize(prop, depth + 1);
+        }
+      }
+    }
+
+    const { cause } = err as { cause?: unknown };
+    if (cause !== undefined && !seen.has(cause) && !out.cause) {
+      if (depth < maxCauseDepth) {
+        out.cause = serialize(toError(cause), depth + 1);
+      } else {
+        out.truncated = true;
+      }
+    }
+
+    const { errors } = err as { errors?: unknown };
+    if (Array.isArray(errors) && !out.errors) {
+      out.errors = errors
+        .slice(0, maxAggregateErrors)
+        .filter((member) => !seen.has(member))
+        .map((member) => serialize(toError(member), depth + 1));
+      if (errors.length > maxAggregateErrors) {
+        out.omitted_errors = errors.length - maxAggregateErrors;
+      }
+    }
+    return out;
+  };
+
+  const err = toError(value);
+  const serialized = serialize(err, 0);
+  if (options.fingerprint !== false) {
+    serialized.fingerprint = errorFingerprint(err);
+  }
+  return serialized;
+}
@@ -0,0 +1,135 @@
+import { defineEvents } from './events';
+import { createTestLogger } from './testing';
+
+describe('event catalog', () => {
+  const originalEnv = process.env;
+
+  const events = defineEvents({
+    'user.login': {
+      msg: 'User logged in',
+      description: 'A user signed in',
+      fields: {
+        userId: 'string',
+        method: ['sso', 'password'],
+        attempts: { type: 'number', optional: true, description: 'Failed attempts before' },
+      },
+    },
+    'user.login_failed': {
+      level: 'warn',
+      fields: { userId: 'string', reason: { type: 'string', optional: true } },
+    },
+    'cache.cleared': {},
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should write events with the declared message, level and a stable event field', () => {
+    const logger = createTestLogger({ events });
+
+    logger.event('user.login', { userId: 'u-1', method: 'sso' });
+    logger.domain('auth').event('user.login_failed', { userId: 'u-2' });
+    logger.event('cache.cleared');
+
+    expect(logger.entries.map(({ level, msg, event }) => ({ level, msg, event }))).toEqual([
+      { level: 30, msg: 'User logged in', event: 'user.login' },
+      { level: 40, msg: 'user.login_failed', event: 'user.login_failed' },
+      { level: 30, msg: 'cache.cleared', event: 'cache.cleared' },
+    ]);
+    logger.expectLogged({ event: 'user.login', userId: 'u-1', method: 'sso' });
+    logger.expectLogged({ event: 'user.login_failed', domain: 'auth' });
+  });
+
+  it('should type-check names and payloads', () => {
+    const logger = createTestLogger({ events, eventValidation: 'off' });
+
+    // @ts-expect-error unknown event
+    logger.event('user.logout', {});
+    // @ts-expect-error missing required field
+    logger.event('user.login', { method: 'sso' });
+    // @ts-expect-error value outside the declared enum
+    logger.event('user.login', { userId: 'u-1', method: 'magic-link' });
+    // @ts-expect-error required payload left out
+    logger.event('user.login_failed');
+    logger.event('user.login', { userId: 'u-1', method: 'password', attempts: 2 });
+
+    // Loggers without a catalog accept any event
+    createTestLogger().event('anything.happened', { count: 1 });
+
+    expect(logger.entries).toHaveLength(5);
+  });
+
+  it('should report invalid payloads without dropping the event', () => {
+    const logger = createTestLogger({ events });
+
+    logger.event('user.login', { userId: 42, method: 'magic-link' } as never);
+
+    expect(logger.entries).toHaveLength(2);
+    logger.expectLogged({
+      level: 'warn',
+      msg: 'Invalid event payload',
+      invalid_event: 'user.login',
+      event_problems: ['userId: expected string', 'method: expected one of sso, password'],
+    });
+    logger.expectLogged({ level: 'info', event: 'user.login', userId: 42 });
+    expect(logger.entries.filter((entry) => entry.event === 'user.login')).toHaveLength(1);
+  });
+
+  it('should throw on invalid payloads in throw mode and skip checks when off', () => {
+    const strict = createTestLogger({ events, eventValidation: 'throw' });
+    expect(() => strict.event('user.login_failed', {} as never)).toThrow(
+      'Invalid payload for event "user.login_failed": userId: required'
+    );
+    expect(strict.entries).toHaveLength(0);
+
+    const lenient = createTestLogger({ events, eventValidation: 'off' });
+    lenient.event('user.login_failed', {} as never);
+    expect(lenient.entries.map((entry) => entry.msg)).toEqual(['user.login_failed']);
+  });
+
+  it('should export the catalog as JSON', () => {
+    expect(JSON.parse(JSON.stringify(events))).toEqual({
+      events: [
+        {
+          name: 'user.login',
+          level: 'info',
+          msg: 'User logged in',
+          description: 'A user signed in',
+          fields: {
+            userId: { type: 'string', required: true },
+            method: { type: 'string', enum: ['sso', 'password'], required: true },
+            attempts: { type: 'number', required: false, description: 'Failed attempts before' },
+          },
+        },
+        {
+          name: 'user.login_failed',
+          level: 'warn',
+          msg: 'user.login_failed',
+          fields: {
+            userId: { type: 'string', required: true },
+            reason: { type: 'string', required: false },
+          },
+        },
+        { name: 'cache.cleared', level: 'info', msg: 'cache.cleared', fields: {} },
+      ],
+    });
+  });
+
+  it('should reject invalid declarations', () => {
+    expect(() => defineEvents({ 'a.b': { fields: { event: 'string' } } })).toThrow(
+      'Event "a.b": field "event" is reserved'
+    );
+    expect(() => defineEvents({ 'a.b': { fields: { id: 'uuid' as 'string' } } })).toThrow(
+      'field "id" has unknown type "uuid"'
+    );
+    expect(() => defineEvents({ 'a.b': { level: 'notice' as 'info' } })).toThrow(
+      'unknown level "notice"'
+    );
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Typed event catalog.
+ *
+ * Free-form messages drift ("User logged in" becomes "Login successful") and queries that
+ * match on `msg` break. defineEvents() declares each event once, with its level, message and
+ * payload fields; logger.event() then writes it with a stable `event` field and a payload
+ * checked at compile time:
+ *
+ * ```typescript
+ * export const events = defineEvents({
+ *   'user.login': {
+ *     msg: 'User logged in',
+ *     fields: { userId: 'string', method: ['sso', 'password'] },
+ *   },
+ *   'user.login_failed': {
+ *     level: 'warn',
+ *     fields: { userId: 'string', reason: { type: 'string', optional: true } },
+ *   },
+ * });
+ *
+ * const logger = createLogger({ service: 'auth', events });
+ * logger.event('user.login', { userId: 'u-1', method: 'sso' });
+ * // {"level":30,"userId":"u-1","method":"sso","event":"user.login","msg":"User logged in"}
+ * ```
+ *
+ * Design notes:
+ * - Field specs are runtime values, so the same declaration drives the payload types,
+ *   runtime validation and the JSON export (catalog.toJSON()) used to build dashboards
+ * - Events go through the logger's normal methods: levels, sampling, rate limiting and
+ *   redaction apply as for any other record
+ * - Validation (outside production by default) never drops an event: problems are reported
+ *   in a separate warning, or thrown with `eventValidation: 'throw'`
+ */
+
+import type { LogData } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Levels an event can be written at */
+export type EventLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/** Primitive field types. `object` accepts any object (including Errors and arrays) */
+export type EventFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/** A field with options */
+export interface EventFieldOptions {
+  /** Field type, or the allowed string values */
+  type: EventFieldType | readonly string[];
+  /** Whether the field may be left out (default: false) */
+  optional?: boolean;
+  description?: string;
+}
+
+/**
+ * A payload field: a type name, the allowed string values, or a type with options.
+ *
+ * @example
+ * { userId: 'string', method: ['sso', 'password'], attempts: { type: 'number', optional: true } }
+ */
+export type EventFieldSpec = EventFieldType | readonly string[] | EventFieldOptions;
+
+/** Declaration of one event */
+export interface EventSpec {
+  /** Message written with the event (default: the event name) */
+  msg?: string;
+  /** Level the event is written at (default: 'info') */
+  level?: EventLevel;
+  description?: string;
+  /** Payload fields */
+  fields?: Readonly<Record<string, EventFieldSpec>>;
+}
+
+/** Payload types by event name */
+export type EventPayloads = Record<string, object>;
+
+type FieldValue<T> = T extends 'string'
+  ? string
+  : T extends 'number'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'object'
+        ? object
+        : T extends 'array'
+          ? unknown[]
+          : T extends readonly (infer V)[]
+            ? V
+            : never;
+
+type FieldType<F> = F extends EventFieldOptions ? F['type'] : F;
+
+type OptionalKeys<F> = {
+  [K in keyof F]: F[K] extends { optional: true } ? K : never;
+}[keyof F];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/** Payload type of an event declaration */
+export type EventPayload<S extends EventSpec> = S extends { fields: infer F }
+  ? Flatten<
+      { -readonly [K in Exclude<keyof F, OptionalKeys<F>>]: FieldValue<FieldType<F[K]>> } & {
+        -readonly [K in OptionalKeys<F>]?: FieldValue<FieldType<F[K]>>;
+      }
+    >
+  : Record<string, never>;
+
+/** logger.event() arguments: the payload may be left out when it has no required fields */
+export type EventArgs<P> = Record<string, never> extends P ? [payload?: P] : [payload: P];
+
+/** JSON description of a catalog, for dashboards and documentation */
+export interface EventCatalogJSON {
+  events: {
+    name: string;
+    level: EventLevel;
+    msg: string;
+    description?: string;
+    fields: Record<
+      string,
+      { type: EventFieldType; enum?: string[]; required: boolean; description?: string }
+    >;
+  }[];
+}
+
+/** A set of declared events, created by defineEvents() */
+export interface EventCatalog<E extends EventPayloads = EventPayloads> {
+  /** Declarations by event name */
+  readonly events: Readonly<Record<string, EventSpec>>;
+  /** Problems with a payload (e.g. `userId: required`); empty when it is valid */
+  validate(name: string, payload: unknown): string[];
+  /** JSON description of every event (also used by JSON.stringify) */
+  toJSON(): EventCatalogJSON;
+  /** Type-only: payload types by event name (never set at runtime) */
+  readonly payloadTypes?: E;
+}
+
+/** How logger.event() handles payloads that do not match the catalog */
+export type EventValidation = 'off' | 'warn' | 'throw';
+
+/** @internal */
+export type EventLogFn = (level: EventLevel, msg: string, data: LogData) => void;
+
+// =============================================================================
+// CATALOG
+// =============================================================================
+
+const FIELD_TYPES = new Set(['string', 'number', 'boolean', 'object', 'array']);
+const LEVELS = new Set(['trace', 'debug', 'info', 'warn', 'error', 'fatal']);
+/** Fields written by the logger itself */
+const RESERVED_FIELDS = new Set(['event', 'msg', 'level', 'time']);
+
+interface NormalizedField {
+  type: EventFieldType;
+  enum?: readonly string[];
+  required: boolean;
+  description?: string;
+}
+
+function normalizeField(spec: EventFieldSpec): NormalizedField {
+  const options: EventFieldOptions =
+    typeof spec === 'string' || Array.isArray(spec)
+      ? { type: spec as EventFieldType | readonly string[] }
+      : (spec as EventFieldOptions);
+  const isEnum = Array.isArray(options.type);
+  return {
+    type: isEnum ? 'string' : (options.type as EventFieldType),
+    ...(isEnum && { enum: options.type as readonly string[] }),
+    required: options.optional !== true,
+    ...(options.description && { description: options.description }),
+  };
+}
+
+function checkValue(field: NormalizedField, value: unknown): string | undefined {
+  if (field.enum) {
+    return field.enum.includes(value as string)
+      ? undefined
+      : `expected one of ${field.enum.join(', ')}`;
+  }
+  const valid =
+    field.type === 'array'
+      ? Array.isArray(value)
+      : field.type === 'object'
+        ? value !== null && typeof value === 'object'
+        : typeof value === field.type;
+  return valid ? undefined : `expected ${field.type}`;
+}
+
+/**
+ * Declare events with their level, message and payload fields.
+ * Throws on an unknown field type or level, and on fields the logger writes itself
+ * (`event`, `msg`, `level`, `time`).
+ *
+ * @example
+ * ```typescript
+ * const events = defineEvents({
+ *   'invoice.paid': { fields: { invoiceId: 'string', amountCents: 'number' } },
+ * });
+ * fs.writeFileSync('events.json', JSON.stringify(events, null, 2));
+ * ```
+ */
+export function defineEvents<const S extends Record<string, EventSpec>>(
+  specs: S
+): EventCatalog<{ [K in keyof S & string]: EventPayload<S[K]> }> {
+  const fields = new Map<string, Map<string, NormalizedField>>();
+
+  for (const [name, spec] of Object.entries(specs)) {
+    if (spec.level !== undefined && !LEVELS.has(spec.level)) {
+      throw new Error(`[@arivlabs/logger] Event "${name}": unknown level "${spec.level}"`);
+    }
+    const normalized = new Map<string, NormalizedField>();
+    for (const [field, fieldSpec] of Object.entries(spec.fields ?? {})) {
+      if (RESERVED_FIELDS.has(field)) {
+        throw new Error(`[@arivlabs/logger] Event "${name}": field "${field}" is reserved`);
+      }
+      const normalizedField = normalizeField(fieldSpec);
+      if (!FIELD_TYPES.has(normalizedField.type)) {
+        throw new Error(
+          `[@arivlabs/logger] Event "${name}": field "${field}" has unknown type ` +
+            `"${String(normalizedField.type)}"`
+        );
+      }
+      normalized.set(field, normalizedField);
+    }
+    fields.set(name, normalized);
+  }
+
+  return {
+    events: specs,
+
+    validate(name: string, payload: unknown): string[] {
+      const declared = fields.get(name);
+      if (!declared) {
+        return [`unknown event "${name}"`];
+      }
+      const values = (payload ?? {}) as Record<string, unknown>;
+      const problems: string[] = [];
+      for (const [field, spec] of declared) {
+        const value = values[field];
+        if (value === undefined) {
+          if (spec.required) {
+            problems.push(`${field}: required`);
+          }
+          continue;
+        }
+        const problem = checkValue(spec, value);
+        if (problem) {
+          problems.push(`${field}: ${problem}`);
+        }
+      }
+      return problems;
+    },
+
+    toJSON(): EventCatalogJSON {
+      return {
+        events: Object.entries(specs).map(([name, spec]) => ({
+          name,
+          level: spec.level ?? 'info',
+          msg: spec.msg ?? name,
+          ...(spec.description && { description: spec.description }),
+          fields: Object.fromEntries(
+            [...(fields.get(name) ?? [])].map(([field, { enum: values, ...rest }]) => [
+              field,
+              { ...rest, ...(values && { enum: [...values] }) },
+            ])
+          ),
+        })),
+      };
+    },
+  };
+}
+
+// =============================================================================
+// LOGGING
+// =============================================================================
+
+/**
+ * Write an event through `log`, validating its payload first unless `validation` is 'off'.
+ * @internal
+ */
+export function logEvent(
+  log: EventLogFn,
+  catalog: EventCatalog | undefined,
+  validation: EventValidation,
+  name: string,
+  payload: object = {}
+): void {
+  if (catalog && validation !== 'off') {
+    const problems = catalog.validate(name, payload);
+    if (problems.length > 0) {
+      if (validation === 'throw') {
+        throw new Error(
+          `[@arivlabs/logger] Invalid payload for event "${name}": ${problems.join('; ')}`
+        );
+      }
+      // Not `event`: queries counting an event must not count these warnings
+      log('warn', 'Invalid event payload', { invalid_event: name, event_problems: problems });
+    }
+  }
+  const spec = catalog?.events[name];
+  log(spec?.level ?? 'info', spec?.msg ?? name, { ...payload, event: name });
+}
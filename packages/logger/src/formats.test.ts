@@ -0,0 +1,214 @@
+import { Writable } from 'node:stream';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+import { createLineFormatter, formatRecord, type FormatContext } from './formats';
+import { createLogger } from './index';
+
+const context: FormatContext = {
+  resource: { 'service.name': 'billing', 'deployment.environment.name': 'production' },
+  resourceFields: { name: 'billing', service: 'billing', environment: 'production' },
+  traceKeys: { traceId: 'trace_id', spanId: 'span_id', traceFlags: 'trace_flags' },
+};
+
+/** A record in the default layout, as pino writes it */
+const record = (fields: Record<string, unknown> = {}) => ({
+  level: 50,
+  time: '2025-01-30T14:00:00.000Z',
+  name: 'billing',
+  service: 'billing',
+  environment: 'production',
+  domain: 'invoices',
+  correlation_id: 'corr-1',
+  trace_id: '4bf92f3577b34da6a3ce929d0e0e4736',
+  span_id: '00f067aa0ba902b7',
+  trace_flags: '01',
+  err: { type: 'TypeError', message: 'boom', stack: 'TypeError: boom\n    at charge', code: 'E1' },
+  msg: 'Charge failed',
+  ...fields,
+});
+
+describe('format profiles', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    delete process.env.GOOGLE_CLOUD_PROJECT;
+    delete process.env.GCLOUD_PROJECT;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should map records to Elastic Common Schema', () => {
+    expect(formatRecord(record(), { profile: 'ecs' }, context)).toEqual({
+      '@timestamp': '2025-01-30T14:00:00.000Z',
+      'log.level': 'error',
+      message: 'Charge failed',
+      'ecs.version': '8.11.0',
+      domain: 'invoices',
+      correlation_id: 'corr-1',
+      service: { name: 'billing', environment: 'production' },
+      trace: { id: '4bf92f3577b34da6a3ce929d0e0e4736' },
+      span: { id: '00f067aa0ba902b7' },
+      error: {
+        type: 'TypeError',
+        message: 'boom',
+        stack_trace: 'TypeError: boom\n    at charge',
+        code: 'E1',
+      },
+    });
+  });
+
+  it('should map records to GCP Cloud Logging with a project-qualified trace', () => {
+    const formatted = formatRecord(
+      record({ level: 40 }),
+      { profile: 'gcp', gcpProjectId: 'my-project' },
+      context
+    );
+
+    expect(formatted).toMatchObject({
+      severity: 'WARNING',
+      message: 'Charge failed',
+      time: '2025-01-30T14:00:00.000Z',
+      stack_trace: 'TypeError: boom\n    at charge',
+      err: { type: 'TypeError', message: 'boom', code: 'E1' },
+      'logging.googleapis.com/trace': 'projects/my-project/traces/4bf92f3577b34da6a3ce929d0e0e4736',
+      'logging.googleapis.com/spanId': '00f067aa0ba902b7',
+      'logging.googleapis.com/trace_sampled': true,
+    });
+    expect(formatted).not.toHaveProperty('trace_id');
+    expect(formatted).not.toHaveProperty('name');
+
+    // Without a project the trace context stays in plain fields
+    const unqualified = formatRecord(record(), { profile: 'gcp' }, context);
+    expect(unqualified.trace_id).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(unqualified).not.toHaveProperty('logging.googleapis.com/trace');
+  });
+
+  it('should map records to Datadog with decimal trace IDs', () => {
+    expect(formatRecord(record({ level: 60 }), { profile: 'datadog' }, context)).toEqual({
+      timestamp: '2025-01-30T14:00:00.000Z',
+      status: 'fatal',
+      message: 'Charge failed',
+      env: 'production',
+      service: 'billing',
+      domain: 'invoices',
+      correlation_id: 'corr-1',
+      dd: { trace_id: '11803532876627986230', span_id: '67667974448284343' },
+      error: {
+        kind: 'TypeError',
+        message: 'boom',
+        stack: 'TypeError: boom\n    at charge',
+        code: 'E1',
+      },
+    });
+  });
+
+  it('should map records to the OpenTelemetry logs data model', () => {
+    expect(formatRecord(record(), { profile: 'otel' }, context)).toEqual({
+      Timestamp: '2025-01-30T14:00:00.000Z',
+      SeverityText: 'error',
+      SeverityNumber: 17,
+      Body: 'Charge failed',
+      TraceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      SpanId: '00f067aa0ba902b7',
+      TraceFlags: 1,
+      Resource: context.resource,
+      Attributes: {
+        domain: 'invoices',
+        correlation_id: 'corr-1',
+        'exception.type': 'TypeError',
+        'exception.message': 'boom',
+        'exception.stacktrace': 'TypeError: boom\n    at charge',
+        err: { code: 'E1' },
+      },
+    });
+  });
+
+  it('should leave EMF metric records and unparseable lines unchanged', () => {
+    const formatLine = createLineFormatter('ecs', context)!;
+    const emf = { _aws: { Timestamp: 1 }, Latency: 12, service: 'billing' };
+
+    expect(formatRecord(emf, { profile: 'ecs' }, context)).toBe(emf);
+    expect(formatLine('not json\n')).toBe('not json\n');
+  });
+
+  it('should only create a formatter when the layout differs from the default', () => {
+    expect(createLineFormatter(undefined, context)).toBeUndefined();
+    expect(createLineFormatter('cloudwatch', context)).toBeUndefined();
+    expect(createLineFormatter({ levelLabels: true }, context)).toBeDefined();
+    expect(() => createLineFormatter('splunk' as never, context)).toThrow(
+      '[@arivlabs/logger] Unknown format profile "splunk"'
+    );
+  });
+
+  describe('logger output', () => {
+    let output: CapturedOutput;
+
+    beforeEach(() => {
+      output = captureDestination();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    it('should write level labels and camelCase context keys', () => {
+      const logger = createLogger({
+        service: 'billing',
+        environment: 'production',
+        format: { levelLabels: true, contextKeys: 'camelCase' },
+      });
+
+      logger.withContext({ correlationId: 'corr-1', tenantId: 'tenant-1' }).warn('Retrying');
+
+      expect(output.lines).toHaveLength(1);
+      expect(output.lines[0]).toMatchObject({
+        level: 'warn',
+        correlationId: 'corr-1',
+        tenantId: 'tenant-1',
+        msg: 'Retrying',
+      });
+      expect(output.lines[0]).not.toHaveProperty('correlation_id');
+    });
+
+    it('should reshape log records but leave EMF metric records intact', () => {
+      const logger = createLogger({ service: 'billing', environment: 'production', format: 'gcp' });
+
+      logger.info('Invoice sent', { invoice_id: 'inv-1' });
+      logger.metric('InvoicesSent', 1);
+
+      expect(output.lines[0]).toMatchObject({
+        severity: 'INFO',
+        message: 'Invoice sent',
+        invoice_id: 'inv-1',
+      });
+      expect(output.lines[0]).not.toHaveProperty('level');
+      expect(output.lines[1]).toHaveProperty('_aws');
+    });
+  });
+
+  it('should format records written to configured destinations', () => {
+    const lines: string[] = [];
+    const stream = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        lines.push(chunk.toString());
+        callback();
+      },
+    });
+    const logger = createLogger({
+      service: 'billing',
+      environment: 'production',
+      destinations: [{ target: stream }],
+      format: 'ecs',
+    });
+
+    logger.error('Charge failed', { err: new Error('declined') });
+
+    const [line] = lines.map((l) => JSON.parse(l) as Record<string, unknown>);
+    expect(line).toMatchObject({ 'log.level': 'error', message: 'Charge failed' });
+    expect(line.error).toMatchObject({ type: 'Error', message: 'declined' });
+    expect((line.error as Record<string, unknown>).stack_trace).toContain('Error: declined');
+  });
+});
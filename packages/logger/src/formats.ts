@@ -0,0 +1,316 @@
+/**
+ * Output format profiles.
+ *
+ * The default layout is tuned for CloudWatch Logs Insights: numeric `level`, `time`, `msg`,
+ * snake_case context fields. Other backends expect their own field names, and re-mapping
+ * them in an ingest pipeline is fragile. The `format` option writes a backend's layout
+ * directly:
+ *
+ * - `cloudwatch` (default): `level: 30`, `time`, `msg`, `err`, `trace_id`/`span_id`
+ * - `ecs` (Elastic Common Schema): `@timestamp`, `log.level`, `message`, `service.name`,
+ *   `error.type`/`error.message`/`error.stack_trace`, `trace.id`/`span.id`
+ * - `gcp` (Cloud Logging): `severity`, `message`, `time`, `stack_trace` (for Error
+ *   Reporting), `logging.googleapis.com/trace` and `logging.googleapis.com/spanId`
+ * - `datadog`: `status`, `message`, `timestamp`, `env`, `error.kind`/`error.message`/
+ *   `error.stack`, `dd.trace_id`/`dd.span_id` (decimal)
+ * - `otel` (OpenTelemetry logs data model): `Timestamp`, `SeverityText`, `SeverityNumber`,
+ *   `Body`, `TraceId`, `SpanId`, `TraceFlags`, `Resource`, `Attributes` (errors as
+ *   `exception.*`)
+ *
+ * Design notes:
+ * - Profiles are applied to each JSON line as it is written to a destination, so levels,
+ *   sampling, redaction and the OTLP exporter all keep working on the default layout
+ * - Pretty output and EMF metric records (`_aws`) are never reshaped
+ * - The default profile without options costs nothing; other profiles parse and re-serialize
+ *   every line
+ */
+
+import pino from 'pino';
+import { severityNumber } from './otlp';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Built-in output layouts */
+export type FormatProfile = 'cloudwatch' | 'ecs' | 'gcp' | 'datadog' | 'otel';
+
+/**
+ * Output format settings.
+ *
+ * @example
+ * format: { profile: 'gcp', gcpProjectId: 'my-project', contextKeys: 'camelCase' }
+ */
+export interface FormatConfig {
+  /** Output layout (default: 'cloudwatch') */
+  profile?: FormatProfile;
+  /**
+   * Write `level` as a label (`"info"`) instead of a number. Only affects the `cloudwatch`
+   * profile; the other profiles always write labels. Default: false
+   */
+  levelLabels?: boolean;
+  /**
+   * Key casing for withContext()/runWithContext() fields: `correlation_id`, `user_id` and
+   * `tenant_id` (default), or `correlationId`, `userId` and `tenantId`
+   */
+  contextKeys?: 'snake_case' | 'camelCase';
+  /**
+   * Google Cloud project for `logging.googleapis.com/trace` (`projects/<id>/traces/<trace>`).
+   * Default: GOOGLE_CLOUD_PROJECT or GCLOUD_PROJECT. Without a project, trace IDs are
+   * written as plain fields.
+   */
+  gcpProjectId?: string;
+}
+
+/** @internal */
+export interface FormatContext {
+  /** OTel resource attributes (`otel` profile) */
+  resource: Record<string, unknown>;
+  /** Record fields that are part of the resource and not written as attributes */
+  resourceFields: Record<string, unknown>;
+  /** Field names of the trace context (see OtelConfig) */
+  traceKeys: { traceId: string; spanId: string; traceFlags: string };
+}
+
+type LogRecord = Record<string, unknown>;
+
+/** A record split into the fields every profile maps */
+interface RecordParts {
+  level: number;
+  label: string;
+  time: unknown;
+  msg: unknown;
+  err?: { type?: unknown; message?: unknown; stack?: unknown; [key: string]: unknown };
+  trace?: { traceId: string; spanId: unknown; traceFlags: number };
+  /** Every other field */
+  rest: LogRecord;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const ECS_VERSION = '8.11.0';
+
+const CAMEL_CONTEXT_KEYS: Record<string, string> = {
+  correlation_id: 'correlationId',
+  user_id: 'userId',
+  tenant_id: 'tenantId',
+};
+
+const GCP_SEVERITIES: Record<string, string> = {
+  trace: 'DEBUG',
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARNING',
+  error: 'ERROR',
+  fatal: 'CRITICAL',
+};
+
+function split(record: LogRecord, context: FormatContext): RecordParts {
+  const { level: rawLevel, time, msg, err, ...rest } = record;
+  const level = typeof rawLevel === 'number' ? rawLevel : 30;
+  const { traceId, spanId, traceFlags } = context.traceKeys;
+
+  let trace: RecordParts['trace'];
+  if (typeof rest[traceId] === 'string') {
+    trace = {
+      traceId: rest[traceId] as string,
+      spanId: rest[spanId],
+      traceFlags: parseInt(String(rest[traceFlags] ?? '0'), 16) || 0,
+    };
+    delete rest[traceId];
+    delete rest[spanId];
+    delete rest[traceFlags];
+  }
+
+  return {
+    level,
+    label: pino.levels.labels[level] ?? String(level),
+    time,
+    msg,
+    err: err !== null && typeof err === 'object' ? (err as RecordParts['err']) : undefined,
+    trace,
+    rest: err !== undefined && (err === null || typeof err !== 'object') ? { ...rest, err } : rest,
+  };
+}
+
+/** Fields with a value, so absent parts do not show up as `null` */
+const defined = (fields: LogRecord): LogRecord =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+/** Decimal form of the low 64 bits of a hex ID, as Datadog expects */
+function datadogId(hex: unknown): string | undefined {
+  if (typeof hex !== 'string' || !/^[0-9a-f]+$/i.test(hex)) {
+    return undefined;
+  }
+  return BigInt(`0x${hex.slice(-16)}`).toString();
+}
+
+// =============================================================================
+// PROFILES
+// =============================================================================
+
+type ProfileFn = (parts: RecordParts, context: FormatContext, config: FormatConfig) => LogRecord;
+
+const PROFILES: Record<FormatProfile, ProfileFn> = {
+  cloudwatch: ({ level, label, time, msg, err, trace, rest }, context, config) => {
+    const { traceId, spanId, traceFlags } = context.traceKeys;
+    return defined({
+      level: config.levelLabels ? label : level,
+      time,
+      ...rest,
+      ...(trace && {
+        [traceId]: trace.traceId,
+        [spanId]: trace.spanId,
+        [traceFlags]: trace.traceFlags.toString(16).padStart(2, '0'),
+      }),
+      err,
+      msg,
+    });
+  },
+
+  ecs: ({ label, time, msg, err, trace, rest }) => {
+    const { service, environment, name: _name, ...fields } = rest;
+    const { type, message, stack, ...errFields } = err ?? {};
+    return defined({
+      '@timestamp': time,
+      'log.level': label,
+      message: msg,
+      'ecs.version': ECS_VERSION,
+      ...fields,
+      service: defined({ name: service, environment }),
+      trace: trace && { id: trace.traceId },
+      span: trace && { id: trace.spanId },
+      error: err && defined({ type, message, stack_trace: stack, ...errFields }),
+    });
+  },
+
+  gcp: ({ label, time, msg, err, trace, rest }, context, config) => {
+    const { name: _name, ...fields } = rest;
+    const project =
+      config.gcpProjectId ?? process.env.GOOGLE_CLOUD_PROJECT ?? process.env.GCLOUD_PROJECT;
+    const { stack, ...errFields } = err ?? {};
+    const { traceId, spanId } = context.traceKeys;
+    return defined({
+      severity: GCP_SEVERITIES[label] ?? 'DEFAULT',
+      message: msg,
+      time,
+      ...fields,
+      // Error Reporting picks up entries with a stack trace
+      stack_trace: stack,
+      err: err && errFields,
+      ...(trace &&
+        (project
+          ? {
+              'logging.googleapis.com/trace': `projects/${project}/traces/${trace.traceId}`,
+              'logging.googleapis.com/spanId': trace.spanId,
+              'logging.googleapis.com/trace_sampled': (trace.traceFlags & 1) === 1,
+            }
+          : { [traceId]: trace.traceId, [spanId]: trace.spanId })),
+    });
+  },
+
+  datadog: ({ label, time, msg, err, trace, rest }) => {
+    const { environment, name: _name, ...fields } = rest;
+    const { type, message, stack, ...errFields } = err ?? {};
+    return defined({
+      timestamp: time,
+      status: label,
+      message: msg,
+      env: environment,
+      ...fields,
+      dd:
+        trace && defined({ trace_id: datadogId(trace.traceId), span_id: datadogId(trace.spanId) }),
+      error: err && defined({ kind: type, message, stack, ...errFields }),
+    });
+  },
+
+  otel: ({ level, label, time, msg, err, trace, rest }, context) => {
+    const attributes: LogRecord = {};
+    for (const [key, value] of Object.entries(rest)) {
+      const isResource = key in context.resourceFields && context.resourceFields[key] === value;
+      if (!isResource) {
+        attributes[key] = value;
+      }
+    }
+    if (err) {
+      const { type, message, stack, ...errFields } = err;
+      Object.assign(attributes, {
+        'exception.type': type,
+        'exception.message': message,
+        'exception.stacktrace': stack,
+      });
+      if (Object.keys(errFields).length > 0) {
+        attributes.err = errFields;
+      }
+    }
+    return defined({
+      Timestamp: time,
+      SeverityText: label,
+      SeverityNumber: severityNumber(level),
+      Body: msg,
+      TraceId: trace?.traceId,
+      SpanId: trace?.spanId,
+      TraceFlags: trace?.traceFlags,
+      Resource: context.resource,
+      Attributes: defined(attributes),
+    });
+  },
+};
+
+// =============================================================================
+// FORMATTER
+// =============================================================================
+
+/**
+ * Reshape one parsed record. EMF metric records are returned unchanged.
+ * @internal
+ */
+export function formatRecord(
+  record: LogRecord,
+  config: FormatConfig,
+  context: FormatContext
+): LogRecord {
+  if (record._aws !== undefined) {
+    return record;
+  }
+  if (config.contextKeys === 'camelCase') {
+    record = Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [CAMEL_CONTEXT_KEYS[key] ?? key, value])
+    );
+  }
+  return PROFILES[config.profile ?? 'cloudwatch'](split(record, context), context, config);
+}
+
+/**
+ * Create a formatter for JSON lines, or undefined when the output is the default layout.
+ * Throws on an unknown profile.
+ * @internal
+ */
+export function createLineFormatter(
+  format: FormatProfile | FormatConfig | undefined,
+  context: FormatContext
+): ((line: string) => string) | undefined {
+  const config: FormatConfig = typeof format === 'string' ? { profile: format } : (format ?? {});
+  const profile = config.profile ?? 'cloudwatch';
+  if (!(profile in PROFILES)) {
+    throw new Error(
+      `[@arivlabs/logger] Unknown format profile "${profile}". ` +
+        `Profiles: ${Object.keys(PROFILES).join(', ')}`
+    );
+  }
+  if (profile === 'cloudwatch' && !config.levelLabels && config.contextKeys !== 'camelCase') {
+    return undefined;
+  }
+
+  return (line: string): string => {
+    let record: LogRecord;
+    try {
+      record = JSON.parse(line) as LogRecord;
+    } catch {
+      return line;
+    }
+    return `${JSON.stringify(formatRecord(record, config, context))}\n`;
+  };
+}
@@ -5,21 +5,50 @@
  *
  * Features:
  * - Async logging by default (high performance, non-blocking via SonicBoom)
- * - Crash-safe logging via synchronous flush on fatal errors
+ * - Multiple destinations (fds, files, streams) with per-destination level and format
+ * - Rotating file destinations (size/interval) with retention and gzip
+ * - Direct CloudWatch Logs transport (PutLogEvents) for hosts without a log agent
+ * - Crash-safe logging via synchronous flush on fatal errors, with process diagnostics
+ *   (memory, uptime, active handles) on crash records and onFatal hooks
  * - Flexible types (define your own service/domain types)
- * - Automatic sensitive data redaction
+ * - Automatic sensitive data redaction (by path, optionally by key name at any depth
+ *   and by value pattern)
  * - Child loggers with context
+ * - Per-domain log levels from a LOG_LEVEL spec ("info,auth=debug,discovery.*=warn")
+ * - Runtime level control (API, signal, watched file, HTTP) with audit records and TTL
+ * - Time-boxed level overrides by tenant, user, correlation ID or domain
+ * - Implicit request context via AsyncLocalStorage (runWithContext)
+ * - HTTP request logging middleware (Express, Fastify, Koa, node:http)
+ * - AWS Lambda handler wrapper with per-invocation context and flush
+ * - Optional OpenTelemetry trace/span ID injection
+ * - OTLP/HTTP log export (JSON or protobuf) to an OpenTelemetry Collector
+ * - Disk spool for network destinations: undelivered batches are replayed in order
+ * - Consistent per-request sampling by level and domain
+ * - Rate limiting with suppression summaries, and once-only warnings
+ * - CloudWatch Embedded Metric Format (EMF) metrics via metric()/metrics()
+ * - Duration timers (startTimer/timed) with slow-operation escalation
+ * - Error serialization with cause chains, AggregateError members and fingerprints
+ * - Serializer registry with opt-in built-ins (axios, fetch, AWS SDK v3, Zod, pg)
+ * - Typed event catalog (defineEvents/event) with runtime validation and JSON export
+ * - Output format profiles (CloudWatch, ECS, GCP Cloud Logging, Datadog, OTel data model)
  * - Graceful shutdown with proper drain handling
+ * - Process-wide logger manager (createLoggerManager) with shared destinations, one set of
+ *   crash handlers and ordered signal-triggered shutdown
  * - Buffer metrics for operational observability
+ * - Test harness (createTestLogger) under @arivlabs/logger/testing
  *
  * Architecture Notes:
  * - Production mode uses pino.destination() (SonicBoom) for buffered async writes
  * - SonicBoom provides flushSync() for crash-safe logging before process exit
  * - Pretty mode uses pino-pretty transport (worker thread) - flush() is a no-op
  * - Sync mode (enableAsync: false) writes immediately - flush() is a no-op
+ * - `destinations` combines several streams with pino.multistream(); flush(), shutdown(),
+ *   getBufferMetrics() and the crash handlers cover each of them
  * - pino.final() was deprecated in Node 14+ and removed in pino v10; we use
  *   direct flushSync() calls instead for crash-safe logging
  * - Timestamps use ISO 8601 format with field name "time" (same as pino.stdTimeFunctions.isoTime)
+ * - `format` profiles reshape JSON lines at the destination; the OTLP exporter and pretty
+ *   output always see the default layout
  *
  * Operational Considerations:
  * - Async logging can lose buffered logs on abrupt process termination (SIGKILL, OOM)
@@ -48,8 +77,107 @@ import pino, {
   stdTimeFunctions,
   type Logger as PinoLogger,
   type LoggerOptions,
-  type DestinationStream,
+  type SerializerFn,
 } from 'pino';
+import { contextToBindings, getContext, type ActiveContext } from './context';
+import {
+  PRETTY_OPTIONS,
+  isSonicBoomDestination,
+  manageSonicBoom,
+  openDestinations,
+  withTimeout,
+  type DestinationConfig,
+  type DestinationMetrics,
+  type ManagedDestination,
+} from './destinations';
+import {
+  attachProcessEvents,
+  collectDiagnostics,
+  runFatalHooks,
+  type CrashEvent,
+  type DiagnosticsConfig,
+  type FatalHook,
+} from './diagnostics';
+import { serializeError, toError, type ErrorSerializerOptions } from './errors';
+import {
+  logEvent,
+  type EventArgs,
+  type EventCatalog,
+  type EventLevel,
+  type EventLogFn,
+  type EventPayloads,
+  type EventValidation,
+} from './events';
+import {
+  createLineFormatter,
+  type FormatConfig,
+  type FormatContext,
+  type FormatProfile,
+} from './formats';
+import {
+  DEFAULT_LEVEL_TTL_MS,
+  attachLevelSignal,
+  createLevelController,
+  watchLevelFile,
+  type LevelChange,
+  type LevelChangeOptions,
+  type LevelControlConfig,
+  type LevelController,
+  type LevelSnapshot,
+} from './level-control';
+import {
+  createLevelOverrideRegistry,
+  type LevelOverride,
+  type LevelOverrideOptions,
+  type LevelOverrideRegistry,
+} from './level-overrides';
+import {
+  createDomainLevelResolver,
+  parseLevelSpec,
+  type DomainLevelResolver,
+  type DomainLevels,
+} from './levels';
+import {
+  buildMetricRecords,
+  type MetricOptions,
+  type MetricRecordContext,
+  type MetricValue,
+  type MetricsConfig,
+} from './metrics';
+import { createOtelMixin, type OtelConfig } from './otel';
+import {
+  createOtlpExporter,
+  type OtlpConfig,
+  type OtlpExporter,
+  type OtlpExporterStats,
+} from './otlp';
+import {
+  createRedactor,
+  type KeyRedactConfig,
+  type PatternRedactConfig,
+  type Redactor,
+} from './redact';
+import {
+  callSiteKey,
+  createRateLimiter,
+  type RateLimitConfig,
+  type RateLimiter,
+  type SummaryWriter,
+} from './rate-limit';
+import { resolveSampleRate, shouldKeep, type SamplingConfig } from './sampling';
+import {
+  applyTypeSerializers,
+  resolveTypeSerializers,
+  type SerializersConfig,
+  type TypeSerializer,
+} from './serializers';
+import {
+  startTimer,
+  timed,
+  type TimedOptions,
+  type TimerHandle,
+  type TimerOptions,
+} from './timers';
 
 // =============================================================================
 // TYPES
@@ -72,6 +200,27 @@ export interface RedactConfig {
    * Whether to remove the key entirely instead of masking (default: false)
    */
   remove?: boolean;
+  /**
+   * Scan string values and the log message for secrets by pattern (JWTs, AWS keys,
+   * bearer tokens, card numbers, private keys, optionally emails), regardless of key name.
+   * Matches are replaced with `censor`. `true` enables DEFAULT_VALUE_DETECTORS.
+   *
+   * Runs in addition to path-based redaction. Default: false
+   */
+  patterns?: boolean | PatternRedactConfig;
+  /**
+   * Censor sensitive keys at any depth, case-insensitively and across
+   * camelCase/snake_case/kebab-case spellings (`Password`, `api_key`, `X-Api-Key`).
+   * `true` uses DEFAULT_SENSITIVE_KEYS.
+   *
+   * Interaction with `paths`: both apply. Key-name redaction runs first, on the data
+   * passed to each log call (including serialized errors), using the same `censor` and
+   * `remove` settings; path-based redaction then runs on the final record, including
+   * child bindings. Keys beyond `maxDepth` are only covered by `paths`.
+   *
+   * Default: false
+   */
+  keys?: boolean | KeyRedactConfig;
 }
 
 /**
@@ -130,12 +279,67 @@ export interface LoggerConfig {
   /** Environment (defaults to ENV or NODE_ENV or 'development') */
   environment?: string;
 
-  /** Log level (defaults to 'debug' in dev, 'info' in prod) */
+  /**
+   * Log level (defaults to the bare entry of LOG_LEVEL, else 'debug' in dev, 'info' in prod).
+   *
+   * LOG_LEVEL may be a level spec: `"info,auth=debug,discovery.*=warn"`. Its domain rules
+   * are merged with `levels`, which takes precedence.
+   */
   level?: string;
 
-  /** Enable pretty printing (defaults to true in development/local) */
+  /**
+   * Per-domain levels, applied when domain(), withContext({ domain }) or child({ domain })
+   * creates a logger. `name.*` matches `name` and every dotted domain below it; exact names
+   * beat wildcards. Domains without a matching rule use the root logger's level.
+   *
+   * @example
+   * levels: { auth: 'debug', 'discovery.*': 'warn' }
+   */
+  levels?: DomainLevels;
+
+  /**
+   * Runtime level control: change levels of the running process via a signal, a watched
+   * JSON file or the HTTP handler from createLevelHandler(). logger.setLevels() is always
+   * available; this option configures the change TTL and the signal and file sources.
+   *
+   * Every change is audited and restored to the baseline (level/levels/LOG_LEVEL) after
+   * `ttlMs` (default: 15 minutes).
+   *
+   * @example
+   * levelControl: { signal: true, file: '/etc/my-service/log-level.json' }
+   */
+  levelControl?: LevelControlConfig;
+
+  /** Enable pretty printing (defaults to true in development/local; ignored with `destinations`) */
   pretty?: boolean;
 
+  /**
+   * Write to these destinations instead of stdout. Each takes an fd, file path or writable
+   * stream, a minimum level and a format ('json' or 'pretty'). The logger's level applies
+   * first; a destination's level filters further.
+   *
+   * @example
+   * destinations: [
+   *   { target: 1 },
+   *   { target: 2, level: 'error' },
+   *   { target: '/var/log/my-service/app.log', level: 'trace' },
+   * ]
+   */
+  destinations?: DestinationConfig[];
+
+  /**
+   * Output layout of JSON lines: a profile name or profile settings. The default
+   * ('cloudwatch') is the layout tuned for CloudWatch Logs Insights: numeric `level`,
+   * `time`, `msg` and snake_case context fields. Pretty output and OTLP export are not
+   * affected.
+   *
+   * @example
+   * format: 'ecs'
+   * format: { profile: 'gcp', gcpProjectId: 'my-project' }
+   * format: { levelLabels: true, contextKeys: 'camelCase' }
+   */
+  format?: FormatProfile | FormatConfig;
+
   /**
    * Redaction configuration for masking sensitive data.
    * Sensitive fields are automatically masked. Use this to add custom paths.
@@ -194,6 +398,122 @@ export interface LoggerConfig {
    * Default: true
    */
   exitOnFatal?: boolean;
+
+  /**
+   * Hooks run after an uncaught error is logged and flushed, before process.exit(1) (e.g.
+   * reporting to an error tracker). Hooks run in order and are awaited for at most 5
+   * seconds in total; a hook that throws is logged and the next one runs.
+   *
+   * Only applies when handleExceptions is true.
+   */
+  onFatal?: FatalHook | FatalHook[];
+
+  /**
+   * Crash diagnostics and process event logging.
+   *
+   * Crash records always carry a `diagnostics` snapshot (memory, uptime, active handles and
+   * requests, Node version). `report: true` adds a process.report summary; `processEvents`
+   * logs process `warning`, `beforeExit` and `exit` events.
+   *
+   * @example
+   * diagnostics: { report: true, processEvents: ['warning', 'exit'] }
+   */
+  diagnostics?: DiagnosticsConfig;
+
+  /**
+   * Inject the active OpenTelemetry span into every log record.
+   *
+   * Requires the optional peer dependency `@opentelemetry/api` and a registered SDK.
+   * Adds `trace_id`, `span_id` and `trace_flags` (field names configurable) when a span
+   * is active. When the API is not installed this option is a no-op.
+   *
+   * Default: false
+   */
+  otel?: boolean | OtelConfig;
+
+  /**
+   * Export records as OTLP log records over HTTP (JSON or protobuf), in addition to
+   * stdout or `destinations`.
+   *
+   * `service`, `environment` and `base` become resource attributes, the other fields log
+   * attributes. Export is batched with a bounded queue; shutdown() drains it.
+   *
+   * @example
+   * otlp: { endpoint: 'http://otel-collector:4318/v1/logs' }
+   */
+  otlp?: OtlpConfig;
+
+  /**
+   * Per-level and per-domain log sampling.
+   *
+   * The keep/drop decision is deterministic per correlation ID (from withContext() or
+   * runWithContext()), so a sampled request keeps all of its lines. Kept records from a
+   * sampled level carry `sample_rate` so counts can be re-weighted (`count(*) / sample_rate`).
+   * Levels without a configured rate are always kept.
+   *
+   * @example
+   * sampling: { rates: { debug: 0.01 }, domains: { discovery: { info: 0.1 } } }
+   */
+  sampling?: SamplingConfig;
+
+  /**
+   * Rate limiting and duplicate suppression.
+   *
+   * Lets the first `burst` lines per key (message or call site) through in each window and
+   * drops the rest. When a window with dropped lines closes, one summary record is written
+   * at the same level with `suppressed_count`, `first_suppressed_at` and `last_suppressed_at`.
+   * Pending summaries are written on shutdown().
+   *
+   * @example
+   * rateLimit: { windowMs: 60_000, burst: 10, key: 'callsite' }
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * CloudWatch Embedded Metric Format settings for logger.metric() and logger.metrics().
+   * Metric records are always written, regardless of level, sampling and rate limiting.
+   *
+   * @example
+   * metrics: { namespace: 'ArivLabs/Discovery', dimensions: { region: 'us-east-1' } }
+   */
+  metrics?: MetricsConfig;
+
+  /**
+   * Error serialization for `err`: nested `cause` chains, AggregateError members and a
+   * `fingerprint` for grouping occurrences. Thrown non-Errors are logged as `NonError`.
+   *
+   * @example
+   * errors: { maxCauseDepth: 3 }
+   */
+  errors?: ErrorSerializerOptions;
+
+  /**
+   * Extra serializers: by field name (like pino's `serializers`) and by value type.
+   * Built-in type serializers for common client libraries are opt-in by name:
+   * `axios`, `fetch`, `aws` (SDK v3 ServiceException), `zod` and `pg`.
+   *
+   * @example
+   * serializers: { types: ['axios', 'aws'], fields: { user: (u: User) => ({ id: u.id }) } }
+   */
+  serializers?: SerializersConfig;
+
+  /**
+   * Event catalog from defineEvents(). Enables typed `logger.event(name, payload)` calls.
+   *
+   * @example
+   * events: defineEvents({ 'user.login': { fields: { userId: 'string' } } })
+   */
+  events?: EventCatalog;
+
+  /**
+   * How logger.event() handles payloads that do not match the catalog:
+   * - `'warn'`: write the event and a warning listing the problems
+   * - `'throw'`: throw (e.g. in tests)
+   * - `'off'`: skip validation
+   *
+   * Default: 'warn' in development/local/test, 'off' otherwise
+   */
+  eventValidation?: EventValidation;
 }
 
 /**
@@ -205,7 +525,10 @@ export interface LoggerConfig {
  * logger.error('Request failed', { error: error }); // Also works - auto-converted to err
  */
 export type LogData = Record<string, unknown> & {
-  /** Pass Error objects here for proper serialization (type, message, stack, custom props) */
+  /**
+   * Pass Error objects here for proper serialization (type, message, stack, custom props,
+   * cause chain, AggregateError members, fingerprint). Thrown non-Errors are accepted too.
+   */
   err?: Error | unknown;
   /** Alternative to err - will be auto-converted to err if it's an Error object */
   error?: Error | unknown;
@@ -259,12 +582,20 @@ export interface BufferMetrics {
    * Only available when metricsAvailable is true.
    */
   isDestroyed?: boolean;
+  /**
+   * Per-destination state. `isBackpressured` and `isDestroyed` above are true when they
+   * are true for any destination. Only available when metricsAvailable is true.
+   */
+  destinations?: DestinationMetrics[];
+  /** OTLP exporter queue and drop counters (only when `otlp` is configured) */
+  otlp?: OtlpExporterStats;
 }
 
 /**
  * Extended logger interface with domain support and flexible API.
+ * `E` holds the event payload types of the logger's event catalog (see defineEvents()).
  */
-export interface ArivLogger {
+export interface ArivLogger<E extends EventPayloads = Record<string, LogData>> {
   /** Log at trace level */
   trace: FlexibleLogFn;
   /** Log at debug level */
@@ -275,7 +606,7 @@ export interface ArivLogger {
   warn: FlexibleLogFn;
   /** Log at error level */
   error: FlexibleLogFn;
-  /** Log at fatal level */
+  /** Log at fatal level, then flush buffered output synchronously (see flush()) */
   fatal: FlexibleLogFn;
 
   /**
@@ -284,7 +615,7 @@ export interface ArivLogger {
    * const authLogger = logger.domain('auth');
    * authLogger.info('User logged in', { userId });
    */
-  domain(name: string): ArivLogger;
+  domain(name: string): ArivLogger<E>;
 
   /**
    * Create a child logger with request context.
@@ -295,21 +626,110 @@ export interface ArivLogger {
    *   domain: 'discovery'
    * });
    */
-  withContext(context: RequestContext): ArivLogger;
+  withContext(context: RequestContext): ArivLogger<E>;
+
+  /**
+   * Log a warning only the first time `key` is seen by this logger or any logger
+   * sharing its root. Returns whether the warning was written. Not subject to `rateLimit`.
+   * @example
+   * logger.once('legacy-auth', 'Legacy auth header is deprecated', { header: 'x-token' });
+   */
+  once(key: string, msg: string, data?: LogData): boolean;
+
+  /**
+   * Write one CloudWatch EMF metric. `service`, `environment` and this logger's domain
+   * are dimensions by default.
+   * @example
+   * logger.domain('auth').metric('login_latency', 42, { unit: 'Milliseconds' });
+   */
+  metric(name: string, value: MetricValue, options?: MetricOptions): void;
+
+  /**
+   * Write several CloudWatch EMF metrics in one record (split every 100 metrics).
+   * @example
+   * logger.metrics(
+   *   { scanned: 120, failed: { value: 3, unit: 'Count' }, duration: [812, 640] },
+   *   { unit: 'Milliseconds', dimensions: { provider: 'aws' } }
+   * );
+   */
+  metrics(values: Record<string, MetricValue>, options?: MetricOptions): void;
+
+  /**
+   * Start a timer. `done()` logs `<name> completed` with `duration_ms` (at warn with
+   * `slow: true` past `slowMs`), `fail(err)` logs `<name> failed` at error.
+   * @example
+   * const timer = logger.startTimer('sync-tenants', { tenant_id }, { slowMs: 5000 });
+   * const count = await syncTenants();
+   * timer.done({ count });
+   */
+  startTimer(name: string, data?: LogData, options?: TimerOptions): TimerHandle;
+
+  /**
+   * Run an operation and log its duration and outcome. Errors are logged and rethrown.
+   * @example
+   * const users = await logger.domain('auth').timed('load-users', () => db.users.findAll());
+   */
+  timed<T>(name: string, fn: () => Promise<T> | T, options?: TimedOptions): Promise<T>;
+
+  /**
+   * Write a catalog event: the declared message at the declared level, with the payload
+   * and `event: name`. The payload is type-checked against the catalog.
+   * @example
+   * logger.event('user.login', { userId: 'u-1', method: 'sso' });
+   */
+  event<K extends keyof E & string>(name: K, ...args: EventArgs<E[K]>): void;
 
   /**
    * Create a child logger with additional bindings.
    * @example
    * const jobLogger = logger.child({ jobId: '123' });
    */
-  child(bindings: LogData): ArivLogger;
+  child(bindings: LogData): ArivLogger<E>;
 
   /** Check if a log level is enabled */
   isLevelEnabled(level: string): boolean;
 
-  /** Current log level (readable and writable) */
+  /**
+   * Current log level (readable and writable).
+   * Setting it affects this logger only; use setLevels() to change the whole tree.
+   */
   level: string;
 
+  /**
+   * Change levels at runtime for the root logger and every logger derived from it.
+   * Accepts a level spec (`'debug,auth=trace'`) or `{ level, levels }`; domain rules are
+   * merged over the baseline rules. The change is audited and expires after `ttlMs`.
+   * @example
+   * logger.setLevels({ level: 'debug' }, { actor: 'alice', ttlMs: 10 * 60_000 });
+   */
+  setLevels(change: string | LevelChange, options?: LevelChangeOptions): LevelSnapshot;
+
+  /** Current effective levels and the active runtime change, if any */
+  getLevels(): LevelSnapshot;
+
+  /** Restore the baseline levels (audited) */
+  resetLevels(options?: Omit<LevelChangeOptions, 'ttlMs'>): LevelSnapshot;
+
+  /**
+   * Lower the level of loggers whose withContext() fields match, until the override expires.
+   * Applies to the whole logger tree, including loggers created before the call.
+   * @example
+   * logger.addLevelOverride({
+   *   match: { tenantId: 'tenant-42' },
+   *   level: 'debug',
+   *   ttlMs: 15 * 60_000,
+   *   actor: 'support@arivlabs.com',
+   *   reason: 'SUP-1234',
+   * });
+   */
+  addLevelOverride(options: LevelOverrideOptions): LevelOverride;
+
+  /** Remove an override before it expires. Returns false if it no longer exists. */
+  removeLevelOverride(id: string, actor?: string): boolean;
+
+  /** Active level overrides */
+  listOverrides(): LevelOverride[];
+
   /**
    * Flush all buffered logs to destination synchronously.
    *
@@ -322,6 +742,9 @@ export interface ArivLogger {
    * - Async mode enabled (`enableAsync: true` or production defaults)
    * - Buffer has pending data (`minLength > 0`)
    *
+   * With `destinations`, each buffered destination is flushed (including `format: 'pretty'`
+   * workers); streams passed in are flushed only if they have flushSync().
+   *
    * For guaranteed delivery during shutdown, use shutdown() instead.
    */
   flush(): void;
@@ -333,7 +756,8 @@ export interface ArivLogger {
    * This method:
    * 1. Cleans up exception handlers if registered
    * 2. Synchronously flushes the buffer (production mode only)
-   * 3. Closes the destination stream with a 5s timeout
+   * 3. Closes the destination stream with a 5s timeout (with `destinations`: every
+   *    destination it opened; streams passed in are flushed but left open)
    *
    * In pretty mode (development), this is largely a no-op since the
    * pino-pretty transport runs in a worker thread.
@@ -370,56 +794,52 @@ export interface ArivLogger {
 // INTERNAL TYPES
 // =============================================================================
 
-/**
- * SonicBoom destination interface.
- * SonicBoom is the underlying writer used by pino.destination().
- *
- * Operational characteristics:
- * - flushSync() flushes the current buffer synchronously (blocking)
- * - flush(cb) flushes asynchronously and calls callback when done
- * - Under backpressure, writes may be dropped (configurable via maxWrite)
- * - 'drain' event signals when writes can resume after backpressure
- * - destroyed property indicates if the stream has been closed
- */
-interface SonicBoomDestination extends DestinationStream {
-  /** Synchronously flush the buffer to the underlying file descriptor */
-  flushSync(): void;
-  /** Asynchronously flush and call callback when complete */
-  flush(cb?: () => void): void;
-  /** End the stream, optionally calling callback when complete */
-  end(cb?: () => void): void;
-  /** Whether the stream has been destroyed */
-  destroyed: boolean;
-  /** Minimum bytes before auto-flush (0 = immediate) */
-  minLength: number;
-}
-
 /** Internal state for managing destinations */
 interface LoggerState {
-  destination: SonicBoomDestination | null;
+  /** Destinations flushed and closed by the logger (empty in pretty mode) */
+  destinations: ManagedDestination[];
   isAsync: boolean;
   isPrettyMode: boolean;
   pinoLogger: PinoLogger;
   /** Cleanup function for exception handlers (removes process listeners) */
   cleanupHandlers?: () => void;
+  /** Sampling configuration (undefined when sampling is disabled) */
+  sampling?: SamplingConfig;
+  /** Rate limiter (undefined when rate limiting is disabled) */
+  rateLimiter?: RateLimiter;
+  /** Keys already logged via once() */
+  onceKeys: Set<string>;
+  /** Per-domain level rules (undefined when none are configured) */
+  domainLevel?: DomainLevelResolver;
+  /** Incremented on every runtime level change; loggers resync when it differs */
+  levelVersion: number;
+  /** Runtime level control */
+  levelControl: LevelController;
+  /** Level overrides by context fields */
+  overrides: LevelOverrideRegistry;
+  /** EMF settings (bound dimensions exclude `domain`, which depends on the logger) */
+  metrics: MetricRecordContext;
+  /** Whether `domain` is declared as a dimension */
+  metricDomainDimension: boolean;
+  /** OTLP exporter (undefined when `otlp` is not configured) */
+  otlp?: OtlpExporter;
+  /** Event catalog (undefined when `events` is not configured) */
+  events?: EventCatalog;
+  eventValidation: EventValidation;
 }
 
-/**
- * Type guard to verify a destination has SonicBoom's required methods.
- * This provides runtime safety for the type cast from pino.destination().
- */
-function isSonicBoomDestination(dest: unknown): dest is SonicBoomDestination {
-  return (
-    dest !== null &&
-    typeof dest === 'object' &&
-    'flushSync' in dest &&
-    typeof (dest as SonicBoomDestination).flushSync === 'function' &&
-    'flush' in dest &&
-    typeof (dest as SonicBoomDestination).flush === 'function' &&
-    'end' in dest &&
-    typeof (dest as SonicBoomDestination).end === 'function' &&
-    'destroyed' in dest
-  );
+/** Per-logger scope tracked alongside the pino child bindings */
+interface LoggerScope {
+  /** Domain bound via domain(), withContext() or child() */
+  domain?: string;
+  /** Correlation ID bound via withContext() (drives consistent sampling) */
+  correlationId?: string;
+  /** User ID bound via withContext() (matched by level overrides) */
+  userId?: string;
+  /** Tenant ID bound via withContext() (matched by level overrides) */
+  tenantId?: string;
+  /** Whether request context was bound via withContext() */
+  hasContext: boolean;
 }
 
 // =============================================================================
@@ -438,103 +858,425 @@ function normalizeLogData(data: LogData): LogData {
   return data;
 }
 
+/**
+ * Build pino serializers for common objects. Errors use serializeError() (cause chains,
+ * AggregateError members, fingerprint).
+ * With pattern/key redaction enabled, serialized errors (message, stack, custom properties)
+ * and, for patterns, the message are redacted too, since pino's formatters.log runs
+ * before serializers.
+ */
+function buildSerializers(
+  redactor: Redactor | undefined,
+  scanMessage: boolean,
+  errorOptions: ErrorSerializerOptions = {},
+  types: TypeSerializer[] = [],
+  fields: Record<string, SerializerFn> = {}
+): LoggerOptions['serializers'] {
+  const err = (value: unknown) => serializeError(value, errorOptions, types);
+  if (!redactor) {
+    return {
+      req: pino.stdSerializers.req,
+      res: pino.stdSerializers.res,
+      err,
+      ...fields,
+    };
+  }
+
+  return {
+    req: pino.stdSerializers.req,
+    res: pino.stdSerializers.res,
+    err: (value: unknown) => redactor.redactValue(err(value)),
+    ...(scanMessage && {
+      msg: (msg: unknown) => (typeof msg === 'string' ? redactor.redactString(msg) : msg),
+    }),
+    ...Object.fromEntries(
+      Object.entries(fields).map(([key, fn]) => [
+        key,
+        (value: unknown) => redactor.redactValue(fn(value)),
+      ])
+    ),
+  };
+}
+
+/**
+ * Build pino's log formatter: type serializers for top-level fields, then pattern/key
+ * redaction of the merged log object (pino runs it before serializers).
+ */
+function buildLogFormatter(
+  redactor: Redactor | undefined,
+  types: TypeSerializer[]
+): ((obj: Record<string, unknown>) => Record<string, unknown>) | undefined {
+  if (types.length === 0) {
+    return redactor && ((obj) => redactor.redactValue(obj));
+  }
+  return redactor
+    ? (obj) => redactor.redactValue(applyTypeSerializers(obj, types))
+    : (obj) => applyTypeSerializers(obj, types);
+}
+
+/**
+ * Merge the active runWithContext() fields into log data.
+ * Fields already bound on the logger itself (via withContext() or domain()) are skipped
+ * so the same key is never written twice, and explicit log data always wins.
+ */
+function withActiveContext(
+  data: LogData | undefined,
+  scope: LoggerScope,
+  active: ActiveContext | undefined
+): LogData | undefined {
+  if (!active || scope.hasContext) {
+    return data;
+  }
+
+  const fields: LogData = {};
+  const bindings = contextToBindings(active);
+  for (const key of Object.keys(bindings)) {
+    if (bindings[key] !== undefined && !(key === 'domain' && scope.domain !== undefined)) {
+      fields[key] = bindings[key];
+    }
+  }
+
+  return data ? { ...fields, ...data } : fields;
+}
+
+/**
+ * Compute the rate-limit key for a log call (undefined = not limited).
+ */
+function rateLimitKey(
+  limiter: RateLimiter,
+  level: string,
+  domain: string | undefined,
+  msg: string | undefined,
+  data: LogData | undefined,
+  site: string | FlexibleLogFn
+): string | undefined {
+  if (limiter.key === 'message') {
+    return `${level}:${domain ?? ''}:${msg ?? ''}`;
+  }
+  if (limiter.key === 'callsite') {
+    return `${level}:${typeof site === 'string' ? site : callSiteKey(site)}`;
+  }
+  return limiter.key(level, msg, data);
+}
+
+/**
+ * A wrapped log method, plus the entry point used by helpers (timers, events, once()) that
+ * log on behalf of their caller: `site` stands in for the 'callsite' rate-limit key, and
+ * `false` skips the rate limiter.
+ */
+interface LogMethod {
+  log: FlexibleLogFn;
+  logFor(site: string | false | undefined, msg: string, data?: LogData): void;
+}
+
 /**
  * Create a wrapped log method that supports flexible calling conventions.
  */
-function createLogMethod(pinoLogger: PinoLogger, level: string): FlexibleLogFn {
-  // Get the actual pino method
-  const pinoMethod = pinoLogger[level as keyof PinoLogger] as PinoLogger['info'];
+function createLogMethod(
+  pinoLogger: PinoLogger,
+  level: string,
+  scope: LoggerScope,
+  state: LoggerState,
+  syncLevel: () => void
+): LogMethod {
+  // Look the pino method up on every call: pino swaps it for a no-op (and back) whenever
+  // the level changes
+  const pinoMethod = () => pinoLogger[level as keyof PinoLogger] as PinoLogger['info'];
+
+  // Sampling rate is fixed for loggers with a bound domain; otherwise it may depend
+  // on the domain of the active runWithContext() scope and is resolved per call
+  const scopeSampleRate =
+    state.sampling && scope.domain !== undefined
+      ? resolveSampleRate(state.sampling, level, scope.domain)
+      : undefined;
+
+  // Summary record for lines dropped by the rate limiter, written when the window closes
+  const writeSummary: SummaryWriter = (summary) => {
+    pinoMethod().call(
+      pinoLogger,
+      {
+        rate_limit_key: summary.key,
+        suppressed_count: summary.count,
+        suppressed_msg: summary.msg,
+        first_suppressed_at: new Date(summary.firstAt).toISOString(),
+        last_suppressed_at: new Date(summary.lastAt).toISOString(),
+        window_ms: summary.windowMs,
+      },
+      'Log lines suppressed by rate limit'
+    );
+  };
+
+  function write(
+    msgOrObj: string | LogData,
+    dataOrMsg: LogData | string | undefined,
+    site: string | false | FlexibleLogFn
+  ): void {
+    syncLevel();
+
+    let data: LogData | undefined;
+    let msg: string | undefined;
 
-  return function logMethod(msgOrObj: string | LogData, dataOrMsg?: LogData | string): void {
     if (typeof msgOrObj === 'string') {
       // Called as: logger.info('message') or logger.info('message', { data })
+      msg = msgOrObj;
       if (dataOrMsg !== undefined && typeof dataOrMsg === 'object') {
-        const normalized = normalizeLogData(dataOrMsg);
-        pinoMethod.call(pinoLogger, normalized, msgOrObj);
-      } else {
-        pinoMethod.call(pinoLogger, msgOrObj);
+        data = normalizeLogData(dataOrMsg);
       }
     } else {
       // Called as: logger.info({ msg: 'message', data }) or logger.info({ data }, 'message')
-      const normalized = normalizeLogData(msgOrObj);
+      data = normalizeLogData(msgOrObj);
       if (typeof dataOrMsg === 'string') {
-        pinoMethod.call(pinoLogger, normalized, dataOrMsg);
-      } else {
-        pinoMethod.call(pinoLogger, normalized);
+        msg = dataOrMsg;
+      }
+    }
+
+    const active = getContext();
+
+    if (state.sampling) {
+      const rate = scopeSampleRate ?? resolveSampleRate(state.sampling, level, active?.domain);
+      if (rate < 1) {
+        if (!shouldKeep(rate, scope.correlationId ?? active?.correlationId)) {
+          return;
+        }
+        data = { ...data, sample_rate: rate };
       }
     }
+
+    const limiter = state.rateLimiter;
+    if (site !== false && limiter?.levels.has(level) && pinoLogger.isLevelEnabled(level)) {
+      const text = msg ?? (typeof data?.msg === 'string' ? data.msg : undefined);
+      const key = rateLimitKey(limiter, level, scope.domain ?? active?.domain, text, data, site);
+      if (key !== undefined && !limiter.allow(key, text, writeSummary)) {
+        return;
+      }
+    }
+
+    data = withActiveContext(data, scope, active);
+
+    const method = pinoMethod();
+    if (!data) {
+      method.call(pinoLogger, msg);
+    } else if (msg !== undefined) {
+      method.call(pinoLogger, data, msg);
+    } else {
+      method.call(pinoLogger, data);
+    }
+  }
+
+  const logMethod: FlexibleLogFn = function logMethod(
+    msgOrObj: string | LogData,
+    dataOrMsg?: LogData | string
+  ): void {
+    write(msgOrObj, dataOrMsg, logMethod);
+  };
+
+  return {
+    log: logMethod,
+    logFor: (site, msg, data) => write(msg, data, site ?? logMethod),
   };
 }
 
 /**
  * Wrap a pino logger with our flexible API.
  */
-function wrapLogger(pinoLogger: PinoLogger, state: LoggerState): ArivLogger {
-  const wrapped: ArivLogger = {
-    trace: createLogMethod(pinoLogger, 'trace'),
-    debug: createLogMethod(pinoLogger, 'debug'),
-    info: createLogMethod(pinoLogger, 'info'),
-    warn: createLogMethod(pinoLogger, 'warn'),
-    error: createLogMethod(pinoLogger, 'error'),
-    fatal: createLogMethod(pinoLogger, 'fatal'),
-
-    domain(name: string): ArivLogger {
-      return wrapLogger(pinoLogger.child({ domain: name }), state);
-    },
-
-    withContext(context: RequestContext): ArivLogger {
-      return wrapLogger(
-        pinoLogger.child({
-          domain: context.domain,
-          correlation_id: context.correlationId,
-          user_id: context.userId,
-          tenant_id: context.tenantId,
-        }),
-        state
-      );
+function wrapLogger(
+  pinoLogger: PinoLogger,
+  state: LoggerState,
+  scope: LoggerScope,
+  baseLevel: string = pinoLogger.level
+): ArivLogger<EventPayloads> {
+  // `baseLevel` is this logger's level before level overrides are applied.
+  // Runtime level changes and override changes are picked up lazily, on the next call, so
+  // no registry of children is needed. The root pino logger is updated by setLevels().
+  let levelVersion = state.levelVersion;
+  const syncLevel = (): void => {
+    if (levelVersion === state.levelVersion) {
+      return;
+    }
+    levelVersion = state.levelVersion;
+    if (pinoLogger === state.pinoLogger) {
+      baseLevel = pinoLogger.level;
+      return;
+    }
+    baseLevel =
+      (scope.domain !== undefined && state.domainLevel?.(scope.domain)) || state.pinoLogger.level;
+    pinoLogger.level =
+      state.overrides.size > 0 ? state.overrides.resolve(baseLevel, scope) : baseLevel;
+  };
+
+  // Create a child logger. A child that binds a domain takes that domain's level (when
+  // domain rules exist); otherwise it inherits this logger's base level. Matching level
+  // overrides are applied on top.
+  const derive = (bindings: LogData, childScope: LoggerScope, bindsDomain: boolean) => {
+    syncLevel();
+    const childBase =
+      bindsDomain && state.domainLevel && childScope.domain !== undefined
+        ? (state.domainLevel(childScope.domain) ?? state.pinoLogger.level)
+        : baseLevel;
+    const level =
+      state.overrides.size > 0 ? state.overrides.resolve(childBase, childScope) : childBase;
+    const child =
+      level === pinoLogger.level
+        ? pinoLogger.child(bindings)
+        : pinoLogger.child(bindings, { level });
+    return wrapLogger(child, state, childScope, childBase);
+  };
+
+  // EMF records bypass levels, sampling and rate limiting: they go through a child pinned
+  // at 'trace', created on first use
+  let metricLogger: PinoLogger | undefined;
+  const metricContext = (): MetricRecordContext =>
+    scope.domain !== undefined && state.metricDomainDimension
+      ? { ...state.metrics, boundDimensions: [...state.metrics.boundDimensions, 'domain'] }
+      : state.metrics;
+
+  const methods: Record<EventLevel, LogMethod> = {
+    trace: createLogMethod(pinoLogger, 'trace', scope, state, syncLevel),
+    debug: createLogMethod(pinoLogger, 'debug', scope, state, syncLevel),
+    info: createLogMethod(pinoLogger, 'info', scope, state, syncLevel),
+    warn: createLogMethod(pinoLogger, 'warn', scope, state, syncLevel),
+    error: createLogMethod(pinoLogger, 'error', scope, state, syncLevel),
+    fatal: createLogMethod(pinoLogger, 'fatal', scope, state, syncLevel),
+  };
+
+  // Timers and events write through this logger's own methods. Under 'callsite' rate
+  // limiting they are keyed by the caller of the public method that created them
+  // (startTimer(), timed(), event()), not by this closure, which they all share
+  const logFrom = (entry: (...args: never[]) => unknown): EventLogFn => {
+    const site = state.rateLimiter?.key === 'callsite' ? callSiteKey(entry) : undefined;
+    return (level, msg, data) => {
+      methods[level].logFor(site, msg, data);
+      if (level === 'fatal') {
+        wrapped.flush();
+      }
+    };
+  };
+
+  const wrapped: ArivLogger<EventPayloads> = {
+    trace: methods.trace.log,
+    debug: methods.debug.log,
+    info: methods.info.log,
+    warn: methods.warn.log,
+    error: methods.error.log,
+    // fatal() flushes right away: the process often dies before the buffer would be written
+    fatal: ((msgOrObj: string | LogData, dataOrMsg?: LogData | string) => {
+      methods.fatal.log(msgOrObj as string, dataOrMsg as LogData);
+      wrapped.flush();
+    }) as FlexibleLogFn,
+
+    domain(name: string): ArivLogger<EventPayloads> {
+      return derive({ domain: name }, { ...scope, domain: name }, true);
     },
 
-    child(bindings: LogData): ArivLogger {
-      return wrapLogger(pinoLogger.child(bindings), state);
+    withContext(context: RequestContext): ArivLogger<EventPayloads> {
+      const childScope: LoggerScope = {
+        domain: context.domain ?? scope.domain,
+        correlationId: context.correlationId,
+        userId: context.userId,
+        tenantId: context.tenantId,
+        hasContext: true,
+      };
+      return derive(contextToBindings(context), childScope, context.domain !== undefined);
+    },
+
+    once(key: string, msg: string, data?: LogData): boolean {
+      if (state.onceKeys.has(key)) {
+        return false;
+      }
+      state.onceKeys.add(key);
+      // Not rate limited: each key logs once, and a dropped line would never be retried
+      methods.warn.logFor(false, msg, data);
+      return true;
+    },
+
+    metric(name: string, value: MetricValue, options: MetricOptions = {}): void {
+      wrapped.metrics({ [name]: value }, options);
+    },
+
+    metrics(values: Record<string, MetricValue>, options: MetricOptions = {}): void {
+      const records = buildMetricRecords(values, options, metricContext());
+      metricLogger ??= pinoLogger.child({}, { level: 'trace' });
+      for (const record of records) {
+        metricLogger.info(record);
+      }
+    },
+
+    startTimer(name: string, data?: LogData, options?: TimerOptions): TimerHandle {
+      return startTimer(logFrom(wrapped.startTimer), name, data, options);
+    },
+
+    timed<T>(name: string, fn: () => Promise<T> | T, options?: TimedOptions): Promise<T> {
+      return timed(logFrom(wrapped.timed), name, fn, options);
+    },
+
+    event(name: string, payload?: object): void {
+      logEvent(logFrom(wrapped.event), state.events, state.eventValidation, name, payload);
+    },
+
+    child(bindings: LogData): ArivLogger<EventPayloads> {
+      const bound = typeof bindings.domain === 'string' ? bindings.domain : undefined;
+      return derive(bindings, { ...scope, domain: bound ?? scope.domain }, bound !== undefined);
     },
 
     isLevelEnabled(level: string): boolean {
+      syncLevel();
       return pinoLogger.isLevelEnabled(level);
     },
 
     get level(): string {
+      syncLevel();
       return pinoLogger.level;
     },
 
     set level(newLevel: string) {
+      syncLevel();
       pinoLogger.level = newLevel;
+      baseLevel = newLevel;
     },
 
-    flush(): void {
-      // No-op conditions (early return):
-      // 1. Pretty mode: uses worker thread transport without flushSync()
-      // 2. No destination: nothing to flush
-      // 3. Sync mode: writes are immediate, no buffering
-      // 4. No buffering enabled: minLength === 0 means no buffer
-      if (state.isPrettyMode || !state.destination || !state.isAsync) {
-        return;
-      }
+    setLevels(change: string | LevelChange, options?: LevelChangeOptions): LevelSnapshot {
+      return state.levelControl.set(change, options);
+    },
 
-      // Check if buffering is actually enabled (minLength > 0)
-      // When minLength is 0, writes go directly to fd without buffering
-      if (state.destination.minLength === 0) {
-        return;
-      }
+    getLevels(): LevelSnapshot {
+      return state.levelControl.get();
+    },
+
+    resetLevels(options?: Omit<LevelChangeOptions, 'ttlMs'>): LevelSnapshot {
+      return state.levelControl.reset(options);
+    },
+
+    addLevelOverride(options: LevelOverrideOptions): LevelOverride {
+      return state.overrides.add(options);
+    },
+
+    removeLevelOverride(id: string, actor?: string): boolean {
+      return state.overrides.remove(id, actor);
+    },
+
+    listOverrides(): LevelOverride[] {
+      return state.overrides.list();
+    },
 
-      try {
-        state.destination.flushSync();
-      } catch (err) {
-        // flushSync can throw if the stream is already closed or under extreme backpressure
-        // Log to stderr as a warning - this is a best-effort operation
-        console.error(
-          '[@arivlabs/logger] flushSync failed (buffer may not have been flushed):',
-          err instanceof Error ? err.message : String(err)
-        );
+    flush(): void {
+      // No-op for destinations without a buffer:
+      // 1. Pretty mode: uses worker thread transport without flushSync()
+      // 2. Sync mode: writes are immediate, no buffering (minLength === 0)
+      // 3. Streams passed in via `destinations` without flushSync()
+      for (const dest of state.destinations) {
+        if (!dest.buffered) {
+          continue;
+        }
+        try {
+          dest.flushSync();
+        } catch (err) {
+          // flushSync can throw if the stream is already closed or under extreme backpressure
+          // Log to stderr as a warning - this is a best-effort operation
+          console.error(
+            `[@arivlabs/logger] flushSync failed for ${dest.name} (buffer may not have been flushed):`,
+            err instanceof Error ? err.message : String(err)
+          );
+        }
       }
     },
 
@@ -544,67 +1286,42 @@ function wrapLogger(pinoLogger: PinoLogger, state: LoggerState): ArivLogger {
         state.cleanupHandlers();
       }
 
-      // Only process destination shutdown for non-pretty mode
-      if (state.destination && !state.isPrettyMode) {
-        const dest = state.destination;
+      // Stop level control sources (signal, file watcher) and expiry timers
+      state.levelControl.close();
+      state.overrides.close();
 
-        // Step 1: Synchronously flush current buffer
-        try {
-          dest.flushSync();
-        } catch {
-          // Ignore flush errors during shutdown
-        }
+      // Write summaries for rate-limit windows that are still open
+      state.rateLimiter?.flush();
 
-        // Step 2: End the stream and wait for completion
-        await new Promise<void>((resolve) => {
-          const timeoutMs = 5000; // 5 second timeout for safety
-
-          const timeout = setTimeout(() => {
-            // Force resolve if end() takes too long
-            resolve();
-          }, timeoutMs);
-
-          // Use async flush if available, then end
-          // In pino v10+, flush() may not be available on all destinations
-          if (typeof dest.flush === 'function') {
-            dest.flush(() => {
-              dest.end(() => {
-                clearTimeout(timeout);
-                resolve();
-              });
-            });
-          } else {
-            // Fallback: just call end() directly
-            dest.end(() => {
-              clearTimeout(timeout);
-              resolve();
-            });
-          }
-        });
-      }
+      // Flush and close every destination and stop the OTLP exporter's export and replay
+      // timers (each one waits at most 5 seconds)
+      const { otlp } = state;
+      await Promise.all([
+        ...state.destinations.map((dest) => dest.close()),
+        ...(otlp ? [withTimeout((done) => void otlp.close().then(done, done))] : []),
+      ]);
     },
 
     getBufferMetrics(): BufferMetrics {
       const baseMetrics: BufferMetrics = {
         isAsync: state.isAsync,
         isPrettyMode: state.isPrettyMode,
-        metricsAvailable: !state.isPrettyMode && state.destination !== null,
+        metricsAvailable: state.destinations.length > 0,
+        ...(state.otlp && { otlp: state.otlp.stats() }),
       };
 
-      // Detailed metrics only available for SonicBoom destinations
-      if (state.destination && !state.isPrettyMode) {
-        const dest = state.destination;
-        return {
-          ...baseMetrics,
-          // writableNeedDrain indicates the stream is experiencing backpressure
-          // This is a standard Node.js stream property that SonicBoom inherits
-          isBackpressured:
-            (dest as unknown as { writableNeedDrain?: boolean }).writableNeedDrain ?? false,
-          isDestroyed: dest.destroyed,
-        };
+      // Detailed metrics are not available in pretty mode
+      if (state.destinations.length === 0) {
+        return baseMetrics;
       }
 
-      return baseMetrics;
+      const destinations = state.destinations.map((dest) => dest.metrics());
+      return {
+        ...baseMetrics,
+        isBackpressured: destinations.some((dest) => dest.isBackpressured),
+        isDestroyed: destinations.some((dest) => dest.isDestroyed),
+        destinations,
+      };
     },
 
     get pino(): PinoLogger {
@@ -656,7 +1373,9 @@ function wrapLogger(pinoLogger: PinoLogger, state: LoggerState): ArivLogger {
  * - Filter errors: `filter level >= 50`
  * - Filter by tenant: `filter tenant_id = "xxx"`
  */
-export function createLogger(config: LoggerConfig): ArivLogger {
+export function createLogger<E extends EventPayloads = Record<string, LogData>>(
+  config: LoggerConfig & { events?: EventCatalog<E> }
+): ArivLogger<E> {
   const environment =
     config.environment || process.env.ENV || process.env.NODE_ENV || 'development';
   const isDevelopment = environment === 'development';
@@ -669,11 +1388,33 @@ export function createLogger(config: LoggerConfig): ArivLogger {
 
   // Build redact paths: defaults + custom
   const redactPaths: string[] = [...DEFAULT_REDACT_PATHS, ...(config.redact?.paths ?? [])];
+  const censor = config.redact?.censor ?? '[REDACTED]';
+
+  // LOG_LEVEL may carry per-domain rules ("info,auth=debug"); config.levels wins over them
+  const envLevels = process.env.LOG_LEVEL ? parseLevelSpec(process.env.LOG_LEVEL) : undefined;
+  const baselineLevels = { ...envLevels?.levels, ...config.levels };
+  const baselineLevel = config.level || envLevels?.level || (isDevelopment ? 'debug' : 'info');
+
+  // Value-pattern and key-name redaction (opt-in), in addition to path-based redaction
+  const { patterns, keys } = config.redact ?? {};
+  const redactor =
+    patterns || keys
+      ? createRedactor({
+          patterns: patterns === true ? {} : patterns || undefined,
+          keys: keys === true ? {} : keys || undefined,
+          censor,
+          remove: config.redact?.remove ?? false,
+        })
+      : undefined;
+
+  // Type serializers (built-ins resolved by name) and the log formatter applying them
+  const typeSerializers = resolveTypeSerializers(config.serializers?.types);
+  const logFormatter = buildLogFormatter(redactor, typeSerializers);
 
   // Base pino options
   const basePinoOptions: LoggerOptions = {
     name: config.service,
-    level: config.level || process.env.LOG_LEVEL || (isDevelopment ? 'debug' : 'info'),
+    level: baselineLevel,
 
     // Base fields included in every log
     base: {
@@ -689,29 +1430,105 @@ export function createLogger(config: LoggerConfig): ArivLogger {
     // Redact sensitive fields
     redact: {
       paths: redactPaths,
-      censor: config.redact?.censor ?? '[REDACTED]',
+      censor,
       remove: config.redact?.remove ?? false,
     },
 
     // Serializers for common objects
-    serializers: {
-      req: pino.stdSerializers.req,
-      res: pino.stdSerializers.res,
-      err: pino.stdSerializers.err,
+    serializers: buildSerializers(
+      redactor,
+      Boolean(patterns),
+      config.errors,
+      typeSerializers,
+      config.serializers?.fields
+    ),
+
+    // Type serializers and pattern/key redaction of the merged log object
+    formatters: logFormatter ? { log: logFormatter } : {},
+
+    // OpenTelemetry trace context (undefined when disabled or @opentelemetry/api is missing)
+    mixin: config.otel ? createOtelMixin(config.otel === true ? {} : config.otel) : undefined,
+  };
+
+  // Resource and trace field names shared by the OTLP exporter and format profiles
+  const otelKeys = typeof config.otel === 'object' ? config.otel : {};
+  const formatContext: FormatContext = {
+    resource: {
+      'service.name': config.service,
+      'deployment.environment.name': environment,
+      ...config.base,
+    },
+    resourceFields: {
+      name: config.service,
+      service: config.service,
+      environment,
+      ...config.base,
+    },
+    traceKeys: {
+      traceId: otelKeys.traceIdKey ?? 'trace_id',
+      spanId: otelKeys.spanIdKey ?? 'span_id',
+      traceFlags: otelKeys.traceFlagsKey ?? 'trace_flags',
     },
   };
+  const formatLine = createLineFormatter(config.format, formatContext);
+
+  // OTLP export is one more destination: without `destinations`, stdout is kept alongside it
+  const otlp = config.otlp
+    ? createOtlpExporter({
+        ...config.otlp,
+        ...formatContext,
+        traceKeys: config.otel ? formatContext.traceKeys : undefined,
+      })
+    : undefined;
+  const destinationConfigs: DestinationConfig[] | undefined = otlp
+    ? [
+        ...(config.destinations ?? [{ target: 1, format: shouldPrettyPrint ? 'pretty' : 'json' }]),
+        { target: otlp, level: config.otlp?.level },
+      ]
+    : config.destinations;
 
   // Initialize state
   const state: LoggerState = {
-    destination: null,
+    destinations: [],
     isAsync: useAsync,
-    isPrettyMode: shouldPrettyPrint,
+    isPrettyMode: shouldPrettyPrint && !destinationConfigs,
     pinoLogger: null as unknown as PinoLogger, // Will be set below
+    sampling: config.sampling,
+    rateLimiter: config.rateLimit ? createRateLimiter(config.rateLimit) : undefined,
+    onceKeys: new Set(),
+    domainLevel: createDomainLevelResolver(baselineLevels),
+    levelVersion: 0,
+    levelControl: null as unknown as LevelController, // Will be set below
+    overrides: null as unknown as LevelOverrideRegistry, // Will be set below
+    metrics: {
+      namespace: config.metrics?.namespace ?? config.service,
+      dimensions: config.metrics?.dimensions ?? {},
+      boundDimensions:
+        config.metrics?.defaultDimensions === false ? [] : ['service', 'environment'],
+      highResolution: config.metrics?.highResolution ?? false,
+    },
+    metricDomainDimension: config.metrics?.defaultDimensions !== false,
+    otlp,
+    events: config.events,
+    eventValidation:
+      config.eventValidation ?? (isDevelopment || isLocal || isTest ? 'warn' : 'off'),
   };
 
   let pinoLogger: PinoLogger;
 
-  if (shouldPrettyPrint) {
+  if (destinationConfigs) {
+    // Explicit destinations: fds and files use SonicBoom with the async settings above,
+    // `format: 'pretty'` runs pino-pretty in a worker thread
+    const { stream, destinations } = openDestinations(destinationConfigs, {
+      async: useAsync,
+      bufferSize: config.asyncBufferSize ?? 4096,
+      onError: (err, path) => state.pinoLogger.warn({ err, path }, 'Log file rotation failed'),
+      formatLine,
+      unformatted: otlp ? [otlp] : [],
+    });
+    state.destinations = destinations;
+    pinoLogger = pino(basePinoOptions, stream);
+  } else if (shouldPrettyPrint) {
     // Pretty printing for development - uses pino-pretty transport
     // IMPORTANT: Transports run in worker threads, which means:
     // - flushSync() is not available (flush() is a no-op)
@@ -721,12 +1538,7 @@ export function createLogger(config: LoggerConfig): ArivLogger {
       ...basePinoOptions,
       transport: {
         target: 'pino-pretty',
-        options: {
-          colorize: true,
-          translateTime: 'HH:MM:ss Z',
-          ignore: 'pid,hostname',
-          messageFormat: '[{service}:{domain}] {correlation_id} {msg}',
-        },
+        options: PRETTY_OPTIONS,
       },
     };
     pinoLogger = pino(pinoOptions);
@@ -747,7 +1559,7 @@ export function createLogger(config: LoggerConfig): ArivLogger {
 
     // Validate the destination has the expected SonicBoom interface
     if (isSonicBoomDestination(rawDestination)) {
-      state.destination = rawDestination;
+      state.destinations = [manageSonicBoom(rawDestination, 'stdout')];
     } else {
       // Fallback: destination doesn't have expected methods, disable crash-safe features
       // This should never happen with standard pino, but provides runtime safety
@@ -755,38 +1567,167 @@ export function createLogger(config: LoggerConfig): ArivLogger {
         '[@arivlabs/logger] Unexpected pino destination type. ' +
           'Crash-safe logging (flushSync) will be unavailable.'
       );
-      state.destination = null;
     }
 
-    pinoLogger = pino(basePinoOptions, rawDestination);
+    // Format profiles wrap the destination; flush and shutdown use the SonicBoom itself
+    pinoLogger = pino(
+      basePinoOptions,
+      formatLine
+        ? { write: (line: string) => rawDestination.write(formatLine(line)) }
+        : rawDestination
+    );
   }
 
   state.pinoLogger = pinoLogger;
 
+  // Runtime level control and overrides. Audit records go through a child pinned at 'trace'
+  // so they are written even when the change itself hides info-level lines.
+  let auditLogger: PinoLogger | undefined;
+  const writeAudit = (fields: LogData, msg: string) => {
+    auditLogger ??= pinoLogger.child({}, { level: 'trace' });
+    auditLogger.info(fields, msg);
+  };
+
+  state.levelControl = createLevelController({
+    baseline: { level: baselineLevel, levels: baselineLevels },
+    ttlMs: config.levelControl?.ttlMs,
+    apply(level, levels) {
+      pinoLogger.level = level;
+      state.domainLevel = createDomainLevelResolver(levels);
+      state.levelVersion++;
+    },
+    audit(record) {
+      writeAudit(
+        {
+          event: 'log_level_change',
+          action: record.action,
+          actor: record.actor,
+          source: record.source,
+          previous: record.previous,
+          current: record.current,
+          expires_at: record.expiresAt,
+        },
+        record.action === 'expire' ? 'Log level change expired' : 'Log level changed'
+      );
+    },
+  });
+
+  const overrideMessages = {
+    add: 'Log level override added',
+    remove: 'Log level override removed',
+    expire: 'Log level override expired',
+  };
+  state.overrides = createLevelOverrideRegistry({
+    ttlMs: config.levelControl?.ttlMs || DEFAULT_LEVEL_TTL_MS,
+    maxOverrides: config.levelControl?.maxOverrides,
+    onChange() {
+      state.levelVersion++;
+    },
+    audit({ action, override, actor }) {
+      writeAudit(
+        {
+          event: 'log_level_override',
+          action,
+          actor,
+          override_id: override.id,
+          match: override.match,
+          override_level: override.level,
+          expires_at: override.expiresAt,
+          reason: override.reason,
+        },
+        overrideMessages[action]
+      );
+    },
+  });
+
+  const { signal, file } = config.levelControl ?? {};
+  if (signal) {
+    const { signal: name = 'SIGUSR2', level = 'debug' } = signal === true ? {} : signal;
+    state.levelControl.onClose(attachLevelSignal(state.levelControl, name, level));
+  }
+  if (file) {
+    const { path, intervalMs = 2000 } = typeof file === 'string' ? { path: file } : file;
+    state.levelControl.onClose(
+      watchLevelFile(state.levelControl, path, intervalMs, (err) =>
+        pinoLogger.warn({ err, path }, 'Failed to load log level file')
+      )
+    );
+  }
+
   // Register exception handlers if requested (opt-in)
   if (config.handleExceptions && !isTest) {
     const shouldExit = config.exitOnFatal !== false; // Default to true for backward compat
+    const fatalHooks = config.onFatal ? [config.onFatal].flat() : [];
+
+    // Set while onFatal hooks run or the exit is pending, so a second error cannot start
+    // another crash sequence
+    let terminating = false;
+
+    // The crash record carries a process snapshot (memory, uptime, handles) for diagnosis.
+    // Returns false for errors raised while terminating: those are only logged
+    const logCrash = (err: Error, eventName: CrashEvent): boolean => {
+      if (terminating) {
+        pinoLogger.error({ err, event: eventName }, 'Uncaught error while terminating');
+        return false;
+      }
+      pinoLogger.fatal(
+        { err, event: eventName, diagnostics: collectDiagnostics(config.diagnostics) },
+        'Process terminating due to error'
+      );
+      return true;
+    };
 
-    if (state.destination && !shouldPrettyPrint) {
-      // Production mode: Use synchronous flush for crash-safe logging
+    // onFatal hooks run before exiting; without hooks the exit stays synchronous
+    const finishCrash = (
+      err: Error,
+      eventName: CrashEvent,
+      flush: () => void,
+      exit: () => void
+    ) => {
+      if (fatalHooks.length === 0) {
+        if (shouldExit) {
+          terminating = true;
+          exit();
+        }
+        return;
+      }
+      terminating = true;
+      void runFatalHooks(fatalHooks, err, eventName, (hookErr) => {
+        pinoLogger.error({ err: hookErr, event: eventName }, 'onFatal hook failed');
+        flush();
+      }).then(() => {
+        if (shouldExit) {
+          exit();
+        } else {
+          terminating = false;
+        }
+      });
+    };
+
+    if (state.destinations.length > 0) {
+      // Production mode or explicit destinations: Use synchronous flush for crash-safe logging
       // This is the pino v10+ recommended pattern (pino.final was removed)
       //
       // IMPORTANT: flushSync() is best-effort. Under extreme conditions
       // (SIGKILL, OOM, system crash, extreme backpressure), logs may still be lost.
-      const crashSafeHandler = (err: Error, eventName: string) => {
-        // Log the fatal error
-        pinoLogger.fatal({ err, event: eventName }, 'Process terminating due to error');
-
-        // Synchronously flush to ensure the log is written before exit
-        // This blocks until the buffer is flushed to the underlying fd
-        try {
-          state.destination!.flushSync();
-        } catch {
-          // flushSync can throw if stream is destroyed - ignore during crash
+      const flushAll = () => {
+        // Synchronously flush every destination to ensure the log is written before exit
+        // This blocks until each buffer is flushed to its underlying fd
+        for (const dest of state.destinations) {
+          try {
+            dest.flushSync();
+          } catch {
+            // flushSync can throw if stream is destroyed - ignore during crash
+          }
         }
+      };
 
-        if (shouldExit) {
-          process.exit(1);
+      const crashSafeHandler = (err: Error, eventName: CrashEvent) => {
+        // Log the fatal error
+        const first = logCrash(err, eventName);
+        flushAll();
+        if (first) {
+          finishCrash(err, eventName, flushAll, () => process.exit(1));
         }
       };
 
@@ -795,7 +1736,7 @@ export function createLogger(config: LoggerConfig): ArivLogger {
       };
 
       const rejectionHandler = (reason: unknown) => {
-        const err = reason instanceof Error ? reason : new Error(String(reason));
+        const err = toError(reason);
         crashSafeHandler(err, 'unhandledRejection');
       };
 
@@ -811,15 +1752,16 @@ export function createLogger(config: LoggerConfig): ArivLogger {
       // Pretty mode (development): Best-effort handler
       // WARNING: Logs may not be delivered if process exits immediately
       // Worker thread transports don't expose flushSync()
-      const bestEffortHandler = (err: Error, eventName: string) => {
+      const bestEffortHandler = (err: Error, eventName: CrashEvent) => {
         // Best effort logging - may not complete before exit in pretty mode
-        pinoLogger.fatal({ err, event: eventName }, 'Process terminating due to error');
-
-        if (shouldExit) {
-          // Small delay to allow log to be processed by transport worker
-          // This is NOT guaranteed - just gives the worker a chance
-          setTimeout(() => process.exit(1), 100);
+        if (!logCrash(err, eventName)) {
+          return;
         }
+
+        // Small delay to allow log to be processed by transport worker
+        // This is NOT guaranteed - just gives the worker a chance
+        const exit = () => setTimeout(() => process.exit(1), 100);
+        finishCrash(err, eventName, () => {}, exit);
       };
 
       const uncaughtHandler = (err: Error) => {
@@ -827,7 +1769,7 @@ export function createLogger(config: LoggerConfig): ArivLogger {
       };
 
       const rejectionHandler = (reason: unknown) => {
-        const err = reason instanceof Error ? reason : new Error(String(reason));
+        const err = toError(reason);
         bestEffortHandler(err, 'unhandledRejection');
       };
 
@@ -842,7 +1784,23 @@ export function createLogger(config: LoggerConfig): ArivLogger {
     }
   }
 
-  return wrapLogger(pinoLogger, state);
+  const logger = wrapLogger(pinoLogger, state, { hasContext: false });
+
+  // Process warning/beforeExit/exit records (opt-in)
+  if (config.diagnostics?.processEvents) {
+    const detach = attachProcessEvents(
+      (level, msg, data) => logger[level](msg, data),
+      config.diagnostics.processEvents,
+      () => logger.flush()
+    );
+    const cleanupHandlers = state.cleanupHandlers;
+    state.cleanupHandlers = () => {
+      cleanupHandlers?.();
+      detach();
+    };
+  }
+
+  return logger;
 }
 
 // =============================================================================
@@ -876,5 +1834,113 @@ export function createRequestLogger(
   });
 }
 
+export { runWithContext, getContext, bindContext, type ActiveContext } from './context';
+export {
+  createExpressMiddleware,
+  createFastifyPlugin,
+  createKoaMiddleware,
+  createHttpHandler,
+  levelForStatus,
+  type HttpLoggingOptions,
+  type HttpBodyLoggingOptions,
+  type ExpressMiddleware,
+  type KoaMiddleware,
+  type FastifyPlugin,
+  type HttpHandler,
+} from './middleware';
+export {
+  wrapLambdaHandler,
+  type LambdaContextLike,
+  type LambdaHandler,
+  type LambdaLoggingOptions,
+} from './lambda';
+export type { OtelConfig } from './otel';
+export type { OtlpConfig, OtlpExporterStats, OtlpProtocol } from './otlp';
+export type { MetricOptions, MetricUnit, MetricValue, MetricsConfig } from './metrics';
+export type { DestinationConfig, DestinationFormat, DestinationMetrics } from './destinations';
+export type { RotateConfig } from './rotation';
+export type { TimedOptions, TimerHandle, TimerOptions } from './timers';
+export type { FormatConfig, FormatProfile } from './formats';
+export {
+  collectDiagnostics,
+  type CrashEvent,
+  type DiagnosticsConfig,
+  type FatalHook,
+  type ProcessDiagnostics,
+  type ProcessEventName,
+  type ReportSummary,
+} from './diagnostics';
+export {
+  createLoggerManager,
+  type LoggerManager,
+  type LoggerManagerConfig,
+  type ManagedLoggerConfig,
+  type ShutdownHookOptions,
+} from './manager';
+export {
+  errorFingerprint,
+  serializeError,
+  toError,
+  type ErrorSerializerOptions,
+  type SerializedError,
+} from './errors';
+export {
+  defineEvents,
+  type EventArgs,
+  type EventCatalog,
+  type EventCatalogJSON,
+  type EventFieldOptions,
+  type EventFieldSpec,
+  type EventFieldType,
+  type EventLevel,
+  type EventPayload,
+  type EventPayloads,
+  type EventSpec,
+  type EventValidation,
+} from './events';
+export {
+  BUILTIN_SERIALIZERS,
+  type BuiltinSerializerName,
+  type SerializersConfig,
+  type TypeSerializer,
+} from './serializers';
+export {
+  createCloudWatchTransport,
+  type AwsCredentials,
+  type CloudWatchTransport,
+  type CloudWatchTransportOptions,
+  type CloudWatchTransportStats,
+} from './cloudwatch';
+export {
+  createSpool,
+  type Spool,
+  type SpoolConfig,
+  type SpoolDeliver,
+  type SpoolStats,
+} from './spool';
+export { parseLevelSpec, type DomainLevels, type LevelSpec } from './levels';
+export {
+  createLevelHandler,
+  type LevelChange,
+  type LevelChangeOptions,
+  type LevelControlConfig,
+  type LevelHandler,
+  type LevelHandlerOptions,
+  type LevelSnapshot,
+} from './level-control';
+export type { LevelOverride, LevelOverrideMatch, LevelOverrideOptions } from './level-overrides';
+export type { SamplingConfig, LevelSampleRates } from './sampling';
+export type { RateLimitConfig, RateLimitKeyFn } from './rate-limit';
+export {
+  BUILTIN_DETECTORS,
+  DEFAULT_VALUE_DETECTORS,
+  DEFAULT_SENSITIVE_KEYS,
+  type BuiltinDetectorName,
+  type KeyRedactConfig,
+  type PatternRedactConfig,
+  type ValueDetector,
+  type ValueMaskMode,
+} from './redact';
+
 // Re-export pino types for convenience
 export type { Logger as PinoLogger } from 'pino';
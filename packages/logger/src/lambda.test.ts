@@ -0,0 +1,139 @@
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+import { createLogger, getContext, wrapLambdaHandler, type ArivLogger } from './index';
+
+const lambdaContext = (awsRequestId = 'req-1') => ({
+  awsRequestId,
+  functionName: 'orders-api',
+  functionVersion: '$LATEST',
+});
+
+describe('wrapLambdaHandler()', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let logger: ArivLogger;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+    logger = createLogger({ service: 'orders', pretty: false });
+  });
+
+  afterEach(() => {
+    output.restore();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should log start and completion with invocation fields and flush', async () => {
+    const flush = jest.spyOn(logger, 'flush');
+    const handler = wrapLambdaHandler(logger, async (_event: unknown, context) => {
+      context.log?.info('Handling');
+      return { statusCode: 200 };
+    });
+
+    await expect(handler({}, lambdaContext())).resolves.toEqual({ statusCode: 200 });
+
+    expect(output.lines.map((line) => line.msg)).toEqual([
+      'Invocation started',
+      'Handling',
+      'Invocation completed',
+    ]);
+    for (const line of output.lines) {
+      expect(line).toMatchObject({
+        aws_request_id: 'req-1',
+        function_name: 'orders-api',
+        function_version: '$LATEST',
+        cold_start: true,
+        correlation_id: 'req-1',
+      });
+    }
+    expect(typeof output.lines[2].duration_ms).toBe('number');
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only flag the first invocation as a cold start', async () => {
+    const handler = wrapLambdaHandler(logger, () => 'ok', { logStart: false });
+
+    await handler({}, lambdaContext('req-1'));
+    await handler({}, lambdaContext('req-2'));
+
+    expect(output.lines.map((line) => [line.aws_request_id, line.cold_start])).toEqual([
+      ['req-1', true],
+      ['req-2', false],
+    ]);
+  });
+
+  it('should log and rethrow handler errors, flushing first', async () => {
+    const flush = jest.spyOn(logger, 'flush');
+    const handler = wrapLambdaHandler(logger, async () => {
+      throw new Error('Downstream unavailable');
+    });
+
+    await expect(handler({}, lambdaContext())).rejects.toThrow('Downstream unavailable');
+
+    const failed = output.lines[1];
+    expect(failed).toMatchObject({ level: 50, msg: 'Invocation failed' });
+    expect(failed.err).toMatchObject({ message: 'Downstream unavailable' });
+    expect(typeof failed.duration_ms).toBe('number');
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read correlation IDs from API Gateway, SQS and EventBridge events', async () => {
+    const seen: (string | undefined)[] = [];
+    const handler = wrapLambdaHandler(
+      logger,
+      () => {
+        seen.push(getContext()?.correlationId);
+      },
+      { logStart: false }
+    );
+
+    await handler({ headers: { 'X-Correlation-Id': 'from-http' } }, lambdaContext());
+    await handler(
+      {
+        Records: [
+          {
+            messageAttributes: {
+              'x-correlation-id': { stringValue: 'from-sqs', dataType: 'String' },
+            },
+          },
+        ],
+      },
+      lambdaContext()
+    );
+    await handler(
+      { 'detail-type': 'OrderPlaced', detail: { correlationId: 'from-eventbridge' } },
+      lambdaContext()
+    );
+    await handler({ headers: {} }, lambdaContext('req-fallback'));
+
+    expect(seen).toEqual(['from-http', 'from-sqs', 'from-eventbridge', 'req-fallback']);
+    expect(output.lines.map((line) => line.correlation_id)).toEqual(seen);
+  });
+
+  it('should use a custom correlation ID reader, domain and property name', async () => {
+    const handler = wrapLambdaHandler(
+      logger,
+      (_event: { traceparent: string }, context) => {
+        (context as unknown as { logger: ArivLogger }).logger.info('Handling');
+      },
+      {
+        correlationId: (event) => (event as { traceparent: string }).traceparent,
+        domain: 'jobs',
+        attachAs: 'logger',
+        logStart: false,
+      }
+    );
+
+    await handler({ traceparent: 'tp-1' }, lambdaContext());
+
+    expect(output.lines[0]).toMatchObject({
+      msg: 'Handling',
+      domain: 'jobs',
+      correlation_id: 'tp-1',
+    });
+  });
+});
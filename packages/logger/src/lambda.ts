@@ -0,0 +1,179 @@
+/**
+ * AWS Lambda handler wrapper.
+ *
+ * wrapLambdaHandler() replaces the per-handler boilerplate of building a withContext()
+ * logger and flushing before the execution environment freezes:
+ * - Bind `aws_request_id`, `function_name`, `function_version` and `cold_start`
+ * - Read the correlation ID from API Gateway headers, SQS message attributes or an
+ *   EventBridge `detail` (falling back to the request ID)
+ * - Run the handler inside `runWithContext()` so the root logger picks up the correlation ID
+ * - Log `Invocation started`, then `Invocation completed` or `Invocation failed` with
+ *   `duration_ms`
+ * - flush() before the returned promise settles, so async mode does not lose buffered lines
+ *   when Lambda freezes the process
+ *
+ * ```json
+ * {"level":30,"aws_request_id":"8f5c...","function_name":"orders-api","function_version":"$LATEST",
+ *   "cold_start":true,"correlation_id":"abc-123","duration_ms":41.2,"msg":"Invocation completed"}
+ * ```
+ *
+ * The Lambda types are described structurally so the package does not depend on
+ * @types/aws-lambda; its `Context` and event types work as-is.
+ */
+
+import { runWithContext } from './context';
+import type { ArivLogger } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Minimal Lambda context (the fields read by the wrapper) */
+export interface LambdaContextLike {
+  awsRequestId: string;
+  functionName: string;
+  functionVersion: string;
+}
+
+/** Async Lambda handler */
+export type LambdaHandler<
+  TEvent = unknown,
+  TResult = unknown,
+  TContext extends LambdaContextLike = LambdaContextLike,
+> = (event: TEvent, context: TContext & { log?: ArivLogger }) => Promise<TResult> | TResult;
+
+/** Options for wrapLambdaHandler() */
+export interface LambdaLoggingOptions {
+  /**
+   * API Gateway headers and SQS message attributes checked, in order, for an incoming
+   * correlation ID (case-insensitive). Default: ['x-correlation-id', 'x-request-id']
+   */
+  correlationIdHeaders?: string[];
+
+  /**
+   * Read the correlation ID from the event, replacing the built-in lookup. Return undefined
+   * to fall back to the request ID.
+   */
+  correlationId?: (event: unknown) => string | undefined;
+
+  /** Domain bound to invocation loggers (default: unset) */
+  domain?: string;
+
+  /** Property name used to attach the invocation logger to the context (default: 'log') */
+  attachAs?: string;
+
+  /** Log `Invocation started` (default: true) */
+  logStart?: boolean;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+const DEFAULT_CORRELATION_HEADERS = ['x-correlation-id', 'x-request-id'];
+/** EventBridge `detail` fields checked for a correlation ID */
+const DETAIL_CORRELATION_KEYS = ['correlationId', 'correlation_id'];
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => value !== null && typeof value === 'object';
+
+/** The first of `names` present in `fields`, matched case-insensitively */
+function lookup(fields: Fields, names: string[]): unknown {
+  const byName = new Map(Object.keys(fields).map((key) => [key.toLowerCase(), key]));
+  for (const name of names) {
+    const key = byName.get(name.toLowerCase());
+    if (key !== undefined && fields[key]) {
+      return fields[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Correlation ID carried by an API Gateway (REST or HTTP API), ALB, function URL, SQS or
+ * EventBridge event.
+ */
+function findCorrelationId(event: unknown, headers: string[]): string | undefined {
+  if (!isObject(event)) {
+    return undefined;
+  }
+
+  let value: unknown;
+  if (isObject(event.headers)) {
+    value = lookup(event.headers, headers);
+  } else if (Array.isArray(event.Records) && isObject(event.Records[0])) {
+    // SQS batches: the first message's attributes
+    const attributes = event.Records[0].messageAttributes;
+    const attribute = isObject(attributes) ? lookup(attributes, headers) : undefined;
+    value = isObject(attribute) ? attribute.stringValue : undefined;
+  } else if (typeof event['detail-type'] === 'string' && isObject(event.detail)) {
+    value = lookup(event.detail, DETAIL_CORRELATION_KEYS);
+  }
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Wrap an async Lambda handler with per-invocation logging and a flush before it returns.
+ * The invocation logger is attached as `context.log` (configurable via `attachAs`).
+ * Errors are logged and rethrown.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({ service: 'orders' });
+ *
+ * export const handler = wrapLambdaHandler(logger, async (event: SQSEvent, context) => {
+ *   context.log?.info('Processing batch', { size: event.Records.length });
+ *   return processBatch(event.Records);
+ * });
+ * ```
+ */
+export function wrapLambdaHandler<
+  TEvent = unknown,
+  TResult = unknown,
+  TContext extends LambdaContextLike = LambdaContextLike,
+>(
+  logger: ArivLogger,
+  handler: LambdaHandler<TEvent, TResult, TContext>,
+  options: LambdaLoggingOptions = {}
+): (event: TEvent, context: TContext) => Promise<TResult> {
+  const attachAs = options.attachAs ?? 'log';
+  const headers = options.correlationIdHeaders ?? DEFAULT_CORRELATION_HEADERS;
+  let coldStart = true;
+
+  return async function arivLambdaHandler(event, context) {
+    const start = process.hrtime.bigint();
+    const correlationId =
+      (options.correlationId ? options.correlationId(event) : findCorrelationId(event, headers)) ??
+      context.awsRequestId;
+    const activeContext = { correlationId, domain: options.domain };
+    const log = logger.withContext(activeContext).child({
+      aws_request_id: context.awsRequestId,
+      function_name: context.functionName,
+      function_version: context.functionVersion,
+      cold_start: coldStart,
+    });
+    coldStart = false;
+
+    (context as unknown as Record<string, unknown>)[attachAs] = log;
+    const durationMs = () => Number(process.hrtime.bigint() - start) / 1e6;
+
+    try {
+      if (options.logStart !== false) {
+        log.info('Invocation started');
+      }
+      const result = await runWithContext(activeContext, () => handler(event, context));
+      log.info('Invocation completed', { duration_ms: durationMs() });
+      return result;
+    } catch (err) {
+      log.error('Invocation failed', { duration_ms: durationMs(), err });
+      throw err;
+    } finally {
+      logger.flush();
+    }
+  };
+}
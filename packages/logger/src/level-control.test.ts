@@ -0,0 +1,372 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLogger, createLevelHandler, type ArivLogger } from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+  fn: (url: string) => Promise<void>
+): Promise<void> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+/** Poll until `condition` holds (file watchers and reads are asynchronous) */
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('runtime level control', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let logger: ArivLogger;
+
+  const messages = () =>
+    output.lines.filter((line) => line.event !== 'log_level_change').map((line) => line.msg);
+  const audits = () => output.lines.filter((line) => line.event === 'log_level_change');
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+  });
+
+  afterEach(async () => {
+    await logger?.shutdown();
+    output.restore();
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('setLevels()', () => {
+    it('should update the root logger and children created before the change', () => {
+      logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+      const auth = logger.domain('auth');
+      const request = logger.withContext({ correlationId: 'c-1' });
+
+      auth.debug('Hidden');
+      logger.setLevels({ level: 'debug' }, { actor: 'alice', ttlMs: 0 });
+      logger.debug('Root debug');
+      auth.debug('Auth debug');
+      request.debug('Request debug');
+      logger.child({ jobId: '1' }).debug('New child debug');
+
+      expect(messages()).toEqual(['Root debug', 'Auth debug', 'Request debug', 'New child debug']);
+      expect(logger.level).toBe('debug');
+      expect(auth.level).toBe('debug');
+    });
+
+    it('should apply domain rules from a level spec over the baseline rules', () => {
+      logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levels: { billing: 'error' },
+      });
+      const auth = logger.domain('auth');
+
+      const snapshot = logger.setLevels('warn,auth=trace', { actor: 'bob' });
+
+      expect(snapshot).toMatchObject({
+        level: 'warn',
+        levels: { billing: 'error', auth: 'trace' },
+        overridden: true,
+        actor: 'bob',
+        source: 'api',
+      });
+      expect(auth.level).toBe('trace');
+      expect(logger.domain('billing').level).toBe('error');
+      expect(logger.domain('other').level).toBe('warn');
+    });
+
+    it('should write an audit record for every change even when info is hidden', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+
+      logger.setLevels({ level: 'error' }, { actor: 'alice', source: 'runbook', ttlMs: 60000 });
+      logger.resetLevels({ actor: 'bob' });
+
+      expect(audits()).toEqual([
+        expect.objectContaining({
+          level: 30,
+          msg: 'Log level changed',
+          action: 'set',
+          actor: 'alice',
+          source: 'runbook',
+          previous: { level: 'info', levels: {} },
+          current: { level: 'error', levels: {} },
+          expires_at: '2026-01-01T00:01:00.000Z',
+        }),
+        expect.objectContaining({
+          msg: 'Log level changed',
+          action: 'reset',
+          actor: 'bob',
+          previous: { level: 'error', levels: {} },
+          current: { level: 'info', levels: {} },
+        }),
+      ]);
+    });
+
+    it('should restore the baseline when the TTL expires', () => {
+      jest.useFakeTimers();
+      logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levelControl: { ttlMs: 1000 },
+      });
+
+      logger.setLevels({ level: 'debug' });
+      expect(logger.getLevels()).toMatchObject({ level: 'debug', overridden: true });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(logger.getLevels()).toEqual({ level: 'info', levels: {}, overridden: false });
+      expect(logger.isLevelEnabled('debug')).toBe(false);
+      expect(audits()[1]).toMatchObject({
+        msg: 'Log level change expired',
+        action: 'expire',
+        actor: 'system',
+        source: 'ttl',
+      });
+    });
+
+    it('should reject unknown levels and invalid TTLs without changing anything', () => {
+      logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+
+      expect(() => logger.setLevels({ level: 'verbose' })).toThrow('Unknown log level "verbose"');
+      expect(() => logger.setLevels({ levels: { auth: 'loud' } })).toThrow(
+        'Unknown log level "loud"'
+      );
+      for (const ttlMs of [-1, NaN, Infinity, '60000' as unknown as number]) {
+        expect(() => logger.setLevels({ level: 'debug' }, { ttlMs })).toThrow('ttlMs must be');
+      }
+      expect(logger.getLevels().overridden).toBe(false);
+      expect(audits()).toHaveLength(0);
+    });
+  });
+
+  describe('level setter', () => {
+    it('should enable levels that were disabled when the logger was created', () => {
+      logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+
+      logger.level = 'debug';
+      logger.debug('Now visible');
+
+      expect(messages()).toEqual(['Now visible']);
+    });
+  });
+
+  describe('signal toggle', () => {
+    it('should toggle debug on and off and remove the listener on shutdown', async () => {
+      const listeners = process.listenerCount('SIGUSR2');
+      logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levelControl: { signal: true },
+      });
+
+      process.emit('SIGUSR2');
+      expect(logger.getLevels()).toMatchObject({
+        level: 'debug',
+        actor: 'signal:SIGUSR2',
+        source: 'signal',
+      });
+      process.emit('SIGUSR2');
+      expect(logger.getLevels()).toMatchObject({ level: 'info', overridden: false });
+
+      await logger.shutdown();
+      expect(process.listenerCount('SIGUSR2')).toBe(listeners);
+    });
+  });
+
+  describe('watched file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'logger-levels-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should apply the file on startup and on change, and reset when it is emptied', async () => {
+      const path = join(dir, 'log-level.json');
+      writeFileSync(path, JSON.stringify({ level: 'debug', levels: { auth: 'trace' } }));
+
+      logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levelControl: { file: { path, intervalMs: 20 } },
+      });
+
+      await waitFor(() => logger.getLevels().overridden);
+      expect(logger.getLevels()).toMatchObject({
+        level: 'debug',
+        levels: { auth: 'trace' },
+        actor: `file:${path}`,
+        source: 'file',
+      });
+
+      // Ensure a different mtime
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      writeFileSync(path, '');
+      await waitFor(() => !logger.getLevels().overridden);
+      expect(logger.getLevels().level).toBe('info');
+    });
+
+    it('should log invalid files and keep the current levels', async () => {
+      const path = join(dir, 'log-level.json');
+      writeFileSync(path, '{ not json');
+
+      logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levelControl: { file: { path, intervalMs: 20 } },
+      });
+
+      await waitFor(() => output.lines.length > 0);
+      expect(output.lines[0]).toMatchObject({ level: 40, msg: 'Failed to load log level file' });
+      expect(logger.getLevels().overridden).toBe(false);
+    });
+  });
+
+  describe('createLevelHandler()', () => {
+    beforeEach(() => {
+      logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+    });
+
+    it('should get, set and reset levels', async () => {
+      await withServer(createLevelHandler(logger, { authorize: () => true }), async (url) => {
+        const initial = await fetch(`${url}/log-level`);
+        expect(await initial.json()).toEqual({ level: 'info', levels: {}, overridden: false });
+
+        const put = await fetch(`${url}/log-level`, {
+          method: 'PUT',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ level: 'debug', levels: { auth: 'trace' }, ttlMs: 60000 }),
+        });
+        expect(put.status).toBe(200);
+        expect(await put.json()).toMatchObject({
+          level: 'debug',
+          levels: { auth: 'trace' },
+          overridden: true,
+          source: 'http',
+          actor: '127.0.0.1',
+        });
+
+        const text = await fetch(`${url}/log-level?x=1`, { method: 'PUT', body: 'warn' });
+        expect(await text.json()).toMatchObject({ level: 'warn', levels: {} });
+
+        const reset = await fetch(`${url}/log-level`, { method: 'DELETE' });
+        expect(await reset.json()).toEqual({ level: 'info', levels: {}, overridden: false });
+      });
+
+      expect(audits().map((line) => [line.action, line.source])).toEqual([
+        ['set', 'http'],
+        ['set', 'http'],
+        ['reset', 'http'],
+      ]);
+    });
+
+    it('should reject invalid changes, unauthorized requests and other methods', async () => {
+      const handler = createLevelHandler(logger, {
+        authorize: (req) => (req.headers['x-admin'] === 'secret' ? 'ops-admin' : false),
+      });
+
+      await withServer(handler, async (url) => {
+        const headers = { 'x-admin': 'secret', 'content-type': 'application/json' };
+
+        const forbidden = await fetch(`${url}/log-level`);
+        expect(forbidden.status).toBe(403);
+
+        const invalid = await fetch(`${url}/log-level`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ level: 'loud' }),
+        });
+        expect(invalid.status).toBe(400);
+        expect(((await invalid.json()) as { error: string }).error).toContain(
+          'Unknown log level "loud"'
+        );
+
+        for (const ttlMs of [-1, 'soon', {}]) {
+          const badTtl = await fetch(`${url}/log-level`, {
+            method: 'PUT',
+            headers,
+            body: JSON.stringify({ level: 'debug', ttlMs }),
+          });
+          expect(badTtl.status).toBe(400);
+          expect(((await badTtl.json()) as { error: string }).error).toContain('ttlMs must be');
+        }
+
+        const post = await fetch(`${url}/log-level`, { method: 'POST', headers });
+        expect(post.status).toBe(405);
+        expect(post.headers.get('allow')).toBe('GET, PUT, DELETE');
+
+        const notFound = await fetch(`${url}/other`, { headers });
+        expect(notFound.status).toBe(404);
+
+        await fetch(`${url}/log-level`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ level: 'debug' }),
+        });
+      });
+
+      expect(audits()).toHaveLength(1);
+      expect(audits()[0]).toMatchObject({ actor: 'ops-admin', source: 'http' });
+    });
+
+    it('should use an already parsed body and pass other paths to next()', async () => {
+      const handler = createLevelHandler(logger, {
+        path: '/admin/log-level',
+        authorize: () => true,
+      });
+      const next = jest.fn();
+      const res = {
+        statusCode: 0,
+        setHeader: jest.fn(),
+        end: jest.fn(),
+      } as unknown as ServerResponse;
+
+      handler({ url: '/users', method: 'GET' } as IncomingMessage, res, next);
+      expect(next).toHaveBeenCalledWith();
+
+      const req = {
+        url: '/admin/log-level',
+        method: 'PUT',
+        headers: {},
+        socket: {},
+        body: { level: 'debug' },
+      } as unknown as IncomingMessage & { body: unknown };
+      handler(req, res, next);
+
+      await waitFor(() => (res.end as jest.Mock).mock.calls.length > 0);
+      expect(res.statusCode).toBe(200);
+      expect(logger.getLevels()).toMatchObject({ level: 'debug', actor: 'unknown' });
+    });
+  });
+});
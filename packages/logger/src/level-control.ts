@@ -0,0 +1,504 @@
+/**
+ * Runtime log level control.
+ *
+ * Lets operators raise or lower log levels of a running process without a redeploy:
+ * - Programmatically via `logger.setLevels()` / `logger.resetLevels()`
+ * - With a signal (SIGUSR2 by default) that toggles debug on and off
+ * - Through a watched JSON file (e.g. a mounted ConfigMap)
+ * - Through a mountable HTTP handler (`GET`/`PUT`/`DELETE /log-level`)
+ *
+ * Design notes:
+ * - A change is always relative to the baseline levels from createLogger() (config and
+ *   LOG_LEVEL). A new change replaces the previous one instead of stacking on it.
+ * - Every change expires after a TTL and the baseline is restored, so a forgotten debug
+ *   switch cannot flood production logs indefinitely
+ * - Every change, reset and expiry writes an audit record with the actor and source
+ * - Children pick up a change lazily on their next log call, so no registry of child
+ *   loggers is kept and request-scoped children can be garbage collected
+ */
+
+import { unwatchFile, watchFile, type Stats } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ArivLogger } from './index';
+import {
+  assertLevel,
+  createDomainLevelResolver,
+  parseLevelSpec,
+  type DomainLevels,
+} from './levels';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Levels to apply at runtime. Omitted fields keep their baseline value. */
+export interface LevelChange {
+  /** Root level */
+  level?: string;
+  /** Domain rules, merged over the baseline rules */
+  levels?: DomainLevels;
+}
+
+/** Who made a change, and for how long it applies */
+export interface LevelChangeOptions {
+  /** Who made the change (user, service account, IP address) */
+  actor?: string;
+  /** How the change was made (default: 'api') */
+  source?: string;
+  /** Milliseconds until the baseline is restored; 0 never expires (default: levelControl.ttlMs) */
+  ttlMs?: number;
+}
+
+/** Current effective levels */
+export interface LevelSnapshot {
+  /** Root level */
+  level: string;
+  /** Domain rules */
+  levels: DomainLevels;
+  /** Whether a runtime change is active (false = baseline) */
+  overridden: boolean;
+  /** When the active change expires (ISO 8601) */
+  expiresAt?: string;
+  /** Actor of the active change */
+  actor?: string;
+  /** Source of the active change */
+  source?: string;
+}
+
+/** Audit record written for every change, reset and expiry */
+export interface LevelAuditRecord {
+  action: 'set' | 'reset' | 'expire';
+  actor: string;
+  source: string;
+  previous: { level: string; levels: DomainLevels };
+  current: { level: string; levels: DomainLevels };
+  expiresAt?: string;
+}
+
+/**
+ * Runtime level control configuration.
+ *
+ * @example
+ * ```typescript
+ * levelControl: {
+ *   ttlMs: 30 * 60_000,
+ *   signal: true,
+ *   file: '/etc/my-service/log-level.json',
+ * }
+ * ```
+ */
+export interface LevelControlConfig {
+  /** Default lifetime of a runtime change in milliseconds; 0 never expires (default: 15 minutes) */
+  ttlMs?: number;
+  /**
+   * Toggle a level with a signal: the first signal applies `level`, the next one restores
+   * the baseline. `true` uses SIGUSR2 and 'debug'. Default: disabled
+   */
+  signal?: boolean | { signal?: NodeJS.Signals; level?: string };
+  /**
+   * Watch a JSON file shaped like `{ "level": "debug", "levels": { "auth": "trace" }, "ttlMs": 600000 }`.
+   * The file is polled (so it works for atomically replaced and mounted files); an empty or
+   * missing file restores the baseline. Default: disabled
+   */
+  file?: string | { path: string; intervalMs?: number };
+  /** Maximum number of active level overrides from addLevelOverride() (default: 100) */
+  maxOverrides?: number;
+}
+
+/** @internal */
+export interface LevelController {
+  get(): LevelSnapshot;
+  set(change: string | LevelChange, options?: LevelChangeOptions): LevelSnapshot;
+  reset(options?: Omit<LevelChangeOptions, 'ttlMs'>): LevelSnapshot;
+  /** Register a cleanup function run by close() (signal listeners, file watchers) */
+  onClose(cleanup: () => void): void;
+  /** Cancel the expiry timer and run cleanup functions */
+  close(): void;
+}
+
+/** @internal */
+export interface LevelControllerOptions {
+  baseline: { level: string; levels: DomainLevels };
+  ttlMs?: number;
+  /** Apply effective levels to the logger tree */
+  apply(level: string, levels: DomainLevels): void;
+  /** Write an audit record */
+  audit(record: LevelAuditRecord): void;
+}
+
+/**
+ * Options for createLevelHandler().
+ */
+export interface LevelHandlerOptions {
+  /** Path served by the handler (default: '/log-level') */
+  path?: string;
+  /**
+   * Authorize a request. Return false to reject it with 403, true to accept it (the remote
+   * address is recorded as the actor), or a string to accept it and record the string as
+   * the actor. Required: pass `() => true` explicitly for a handler on an internal port
+   */
+  authorize: (req: IncomingMessage) => boolean | string | Promise<boolean | string>;
+  /** Maximum request body size in bytes (default: 16384) */
+  maxBodyBytes?: number;
+}
+
+/** node:http / Express-compatible level control handler */
+export type LevelHandler = (
+  req: IncomingMessage & { body?: unknown },
+  res: ServerResponse,
+  next?: (err?: unknown) => void
+) => void;
+
+// =============================================================================
+// CONTROLLER
+// =============================================================================
+
+/** Reject TTLs that would silently never expire (negative, NaN, strings from JSON) */
+function assertTtl(ttlMs: unknown): asserts ttlMs is number {
+  if (typeof ttlMs !== 'number' || !Number.isFinite(ttlMs) || ttlMs < 0) {
+    throw new Error(
+      `[@arivlabs/logger] ttlMs must be a finite, non-negative number of milliseconds: ${JSON.stringify(ttlMs)}`
+    );
+  }
+}
+
+/**
+ * Default lifetime of runtime changes and level overrides.
+ * @internal
+ */
+export const DEFAULT_LEVEL_TTL_MS = 15 * 60_000;
+
+/**
+ * Create the level controller shared by a root logger and all of its children.
+ * @internal
+ */
+export function createLevelController(options: LevelControllerOptions): LevelController {
+  const { baseline, apply, audit } = options;
+  const defaultTtlMs = options.ttlMs ?? DEFAULT_LEVEL_TTL_MS;
+  assertTtl(defaultTtlMs);
+  const cleanups: (() => void)[] = [];
+
+  let current = { level: baseline.level, levels: { ...baseline.levels } };
+  let active: { actor: string; source: string; expiresAt?: number } | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  function snapshot(): LevelSnapshot {
+    return {
+      level: current.level,
+      levels: { ...current.levels },
+      overridden: active !== undefined,
+      ...(active?.expiresAt !== undefined && {
+        expiresAt: new Date(active.expiresAt).toISOString(),
+      }),
+      ...(active && { actor: active.actor, source: active.source }),
+    };
+  }
+
+  function transition(
+    action: LevelAuditRecord['action'],
+    next: { level: string; levels: DomainLevels },
+    actor: string,
+    source: string
+  ): void {
+    const previous = current;
+    current = next;
+    apply(next.level, next.levels);
+    audit({
+      action,
+      actor,
+      source,
+      previous,
+      current: next,
+      ...(active?.expiresAt !== undefined && {
+        expiresAt: new Date(active.expiresAt).toISOString(),
+      }),
+    });
+  }
+
+  function clearTimer(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  }
+
+  return {
+    get: snapshot,
+
+    set(change: string | LevelChange, changeOptions: LevelChangeOptions = {}): LevelSnapshot {
+      const parsed = typeof change === 'string' ? parseLevelSpec(change) : change;
+      if (parsed.level !== undefined) {
+        assertLevel(parsed.level, parsed.level);
+      }
+      const levels = { ...baseline.levels, ...parsed.levels };
+      // Validates the domain rules
+      createDomainLevelResolver(levels);
+
+      const actor = changeOptions.actor ?? 'unknown';
+      const source = changeOptions.source ?? 'api';
+      const ttlMs = changeOptions.ttlMs ?? defaultTtlMs;
+      assertTtl(ttlMs);
+
+      clearTimer();
+      active = { actor, source, ...(ttlMs > 0 && { expiresAt: Date.now() + ttlMs }) };
+      if (ttlMs > 0) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          active = undefined;
+          transition('expire', { ...baseline, levels: { ...baseline.levels } }, 'system', 'ttl');
+        }, ttlMs);
+        timer.unref();
+      }
+
+      transition('set', { level: parsed.level ?? baseline.level, levels }, actor, source);
+      return snapshot();
+    },
+
+    reset(resetOptions: Omit<LevelChangeOptions, 'ttlMs'> = {}): LevelSnapshot {
+      clearTimer();
+      active = undefined;
+      transition(
+        'reset',
+        { level: baseline.level, levels: { ...baseline.levels } },
+        resetOptions.actor ?? 'unknown',
+        resetOptions.source ?? 'api'
+      );
+      return snapshot();
+    },
+
+    onClose(cleanup: () => void): void {
+      cleanups.push(cleanup);
+    },
+
+    close(): void {
+      clearTimer();
+      for (const cleanup of cleanups.splice(0)) {
+        cleanup();
+      }
+    },
+  };
+}
+
+// =============================================================================
+// SIGNAL AND FILE SOURCES
+// =============================================================================
+
+/**
+ * Toggle `level` on and off with a process signal.
+ * @internal
+ */
+export function attachLevelSignal(
+  controller: LevelController,
+  signal: NodeJS.Signals,
+  level: string
+): () => void {
+  assertLevel(level, level);
+  const actor = `signal:${signal}`;
+
+  const handler = () => {
+    if (controller.get().overridden) {
+      controller.reset({ actor, source: 'signal' });
+    } else {
+      controller.set({ level }, { actor, source: 'signal' });
+    }
+  };
+
+  process.on(signal, handler);
+  return () => {
+    process.removeListener(signal, handler);
+  };
+}
+
+/**
+ * Apply levels from a JSON file now and whenever it changes.
+ * @internal
+ */
+export function watchLevelFile(
+  controller: LevelController,
+  path: string,
+  intervalMs: number,
+  onError: (err: unknown) => void
+): () => void {
+  const actor = `file:${path}`;
+
+  const resetIfFromFile = () => {
+    if (controller.get().source === 'file') {
+      controller.reset({ actor, source: 'file' });
+    }
+  };
+
+  const load = async (): Promise<void> => {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        resetIfFromFile();
+      } else {
+        onError(err);
+      }
+      return;
+    }
+
+    if (!text.trim()) {
+      resetIfFromFile();
+      return;
+    }
+
+    try {
+      const { level, levels, ttlMs } = JSON.parse(text) as LevelChange & { ttlMs?: number };
+      controller.set({ level, levels }, { actor, source: 'file', ttlMs });
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const listener = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs !== prev.mtimeMs) {
+      void load();
+    }
+  };
+
+  void load();
+  watchFile(path, { interval: intervalMs, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
+}
+
+// =============================================================================
+// HTTP HANDLER
+// =============================================================================
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new Error(`Request body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse a PUT body: a JSON object `{ level?, levels?, ttlMs? }` or a plain level spec string.
+ */
+async function readLevelChange(
+  req: IncomingMessage & { body?: unknown },
+  maxBytes: number
+): Promise<{ change: string | LevelChange; ttlMs?: number }> {
+  let body = req.body;
+  if (body === undefined) {
+    const text = await readBody(req, maxBytes);
+    const isJson = (req.headers['content-type'] ?? '').includes('json');
+    body = isJson && text.trim() ? JSON.parse(text) : text;
+  }
+
+  if (typeof body === 'string') {
+    return { change: body };
+  }
+  if (body === null || typeof body !== 'object') {
+    throw new Error('Expected a JSON object or a level spec string');
+  }
+  const { level, levels, ttlMs } = body as LevelChange & { ttlMs?: number };
+  return { change: { level, levels }, ttlMs };
+}
+
+/**
+ * Create an HTTP handler for runtime level control:
+ * - `GET /log-level`: current levels
+ * - `PUT /log-level`: apply `{ "level": "debug", "levels": { "auth": "trace" }, "ttlMs": 600000 }`
+ *   or a plain-text level spec (`debug,auth=trace`)
+ * - `DELETE /log-level`: restore the baseline levels
+ *
+ * Requests for other paths are passed to `next` (Express) or answered with 404.
+ * The handler changes process-wide behaviour, so `authorize` is required; an invalid
+ * `ttlMs` is rejected with 400 rather than applied without expiry.
+ *
+ * @example
+ * ```typescript
+ * // Express
+ * app.use(createLevelHandler(logger, { authorize: (req) => req.headers['x-admin'] === token }));
+ *
+ * // node:http on an internal port
+ * const levels = createLevelHandler(logger, { authorize: () => true });
+ * http.createServer((req, res) => levels(req, res)).listen(9090);
+ * ```
+ */
+export function createLevelHandler(logger: ArivLogger, options: LevelHandlerOptions): LevelHandler {
+  if (typeof options?.authorize !== 'function') {
+    throw new Error('[@arivlabs/logger] createLevelHandler() requires an authorize function');
+  }
+  const path = options.path ?? '/log-level';
+  const maxBodyBytes = options.maxBodyBytes ?? 16384;
+
+  const handle = async (
+    req: IncomingMessage & { body?: unknown },
+    res: ServerResponse
+  ): Promise<void> => {
+    const authorized = await options.authorize(req);
+    if (authorized === false) {
+      sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+    const actor =
+      typeof authorized === 'string' ? authorized : (req.socket.remoteAddress ?? 'unknown');
+
+    switch (req.method) {
+      case 'GET':
+        sendJson(res, 200, logger.getLevels());
+        return;
+      case 'PUT': {
+        let snapshot: LevelSnapshot;
+        try {
+          const { change, ttlMs } = await readLevelChange(req, maxBodyBytes);
+          snapshot = logger.setLevels(change, { actor, source: 'http', ttlMs });
+        } catch (err) {
+          sendJson(res, 400, { error: err instanceof Error ? err.message : String(err) });
+          return;
+        }
+        sendJson(res, 200, snapshot);
+        return;
+      }
+      case 'DELETE':
+        sendJson(res, 200, logger.resetLevels({ actor, source: 'http' }));
+        return;
+      default:
+        res.setHeader('allow', 'GET, PUT, DELETE');
+        sendJson(res, 405, { error: 'Method Not Allowed' });
+    }
+  };
+
+  return (req, res, next) => {
+    const requestPath = (req.url ?? '/').split('?')[0];
+    if (requestPath !== path) {
+      if (next) {
+        next();
+      } else {
+        sendJson(res, 404, { error: 'Not Found' });
+      }
+      return;
+    }
+
+    handle(req, res).catch((err: unknown) => {
+      if (next) {
+        next(err);
+      } else if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal Server Error' });
+      }
+    });
+  };
+}
@@ -0,0 +1,205 @@
+import { createLogger, type ArivLogger } from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('level overrides', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let logger: ArivLogger;
+
+  const messages = () =>
+    output.lines.filter((line) => line.event !== 'log_level_override').map((line) => line.msg);
+  const audits = () => output.lines.filter((line) => line.event === 'log_level_override');
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+    logger = createLogger({ service: 'my-service', pretty: false, level: 'info' });
+  });
+
+  afterEach(async () => {
+    await logger.shutdown();
+    output.restore();
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should elevate matching loggers, including ones created before the override', () => {
+    const before = logger.withContext({ correlationId: 'c-1', tenantId: 'tenant-x' });
+    const other = logger.withContext({ correlationId: 'c-2', tenantId: 'tenant-y' });
+
+    logger.addLevelOverride({ match: { tenantId: 'tenant-x' }, level: 'debug' });
+    const after = logger.withContext({ correlationId: 'c-3', tenantId: 'tenant-x' });
+
+    before.debug('Before');
+    after.child({ jobId: '1' }).debug('After child');
+    other.debug('Other tenant');
+    logger.debug('Root');
+
+    expect(messages()).toEqual(['Before', 'After child']);
+    expect(other.level).toBe('info');
+    expect(logger.level).toBe('info');
+  });
+
+  it('should not carry an override over to a context with different fields', () => {
+    logger.addLevelOverride({ match: { tenantId: 'tenant-x' }, level: 'debug' });
+    const tenantX = logger.withContext({ correlationId: 'c-1', tenantId: 'tenant-x' });
+
+    expect(tenantX.level).toBe('debug');
+    expect(tenantX.withContext({ correlationId: 'c-2', tenantId: 'tenant-y' }).level).toBe('info');
+  });
+
+  it('should revert when the override expires', () => {
+    jest.useFakeTimers();
+    const request = logger.withContext({ correlationId: 'c-1', userId: 'user-1' });
+
+    logger.addLevelOverride({ match: { userId: 'user-1' }, level: 'trace', ttlMs: 1000 });
+    expect(request.isLevelEnabled('trace')).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(request.isLevelEnabled('trace')).toBe(false);
+    expect(request.level).toBe('info');
+    expect(logger.listOverrides()).toEqual([]);
+  });
+
+  it('should match domains with wildcards and require every match field', () => {
+    logger.addLevelOverride({
+      match: { domain: 'discovery.*', correlationId: 'c-1' },
+      level: 'debug',
+    });
+
+    expect(logger.domain('discovery.scan').level).toBe('info');
+    expect(logger.withContext({ correlationId: 'c-1', domain: 'discovery.scan' }).level).toBe(
+      'debug'
+    );
+    expect(logger.withContext({ correlationId: 'c-1' }).domain('discovery').level).toBe('debug');
+    expect(logger.withContext({ correlationId: 'c-1', domain: 'auth' }).level).toBe('info');
+  });
+
+  it('should never make a logger less verbose', () => {
+    logger = createLogger({
+      service: 'my-service',
+      pretty: false,
+      level: 'info',
+      levels: { auth: 'debug' },
+    });
+
+    logger.addLevelOverride({ match: { domain: 'auth' }, level: 'error' });
+    logger.addLevelOverride({ match: { domain: 'auth' }, level: 'trace' });
+    logger.addLevelOverride({ match: { domain: 'billing' }, level: 'error' });
+
+    expect(logger.domain('auth').level).toBe('trace');
+    expect(logger.domain('billing').level).toBe('info');
+  });
+
+  it('should follow runtime level changes underneath the override', () => {
+    const request = logger.withContext({ correlationId: 'c-1', tenantId: 'tenant-x' });
+    logger.addLevelOverride({ match: { tenantId: 'tenant-x' }, level: 'debug' });
+
+    logger.setLevels({ level: 'trace' });
+    expect(request.level).toBe('trace');
+
+    logger.setLevels({ level: 'warn' });
+    expect(request.level).toBe('debug');
+  });
+
+  it('should list and remove overrides', () => {
+    const override = logger.addLevelOverride({
+      match: { tenantId: 'tenant-x' },
+      level: 'debug',
+      actor: 'alice',
+      reason: 'SUP-1234',
+    });
+    const request = logger.withContext({ correlationId: 'c-1', tenantId: 'tenant-x' });
+
+    expect(logger.listOverrides()).toEqual([
+      {
+        id: override.id,
+        match: { tenantId: 'tenant-x' },
+        level: 'debug',
+        createdAt: override.createdAt,
+        expiresAt: override.expiresAt,
+        actor: 'alice',
+        reason: 'SUP-1234',
+      },
+    ]);
+    expect(Date.parse(override.expiresAt) - Date.parse(override.createdAt)).toBe(15 * 60_000);
+
+    expect(logger.removeLevelOverride(override.id, 'bob')).toBe(true);
+    expect(logger.removeLevelOverride(override.id)).toBe(false);
+    expect(logger.listOverrides()).toEqual([]);
+    expect(request.level).toBe('info');
+  });
+
+  it('should reject invalid overrides', () => {
+    expect(() => logger.addLevelOverride({ match: {}, level: 'debug' })).toThrow(
+      'must match at least one of'
+    );
+    expect(() => logger.addLevelOverride({ match: { userId: 'u' }, level: 'loud' })).toThrow(
+      'Unknown log level "loud"'
+    );
+    expect(() =>
+      logger.addLevelOverride({ match: { userId: 'u' }, level: 'debug', ttlMs: Infinity })
+    ).toThrow('positive, finite ttlMs');
+    expect(logger.listOverrides()).toEqual([]);
+  });
+
+  it('should cap the number of active overrides', () => {
+    logger = createLogger({
+      service: 'my-service',
+      pretty: false,
+      level: 'info',
+      levelControl: { maxOverrides: 1 },
+    });
+
+    logger.addLevelOverride({ match: { userId: 'a' }, level: 'debug' });
+    expect(() => logger.addLevelOverride({ match: { userId: 'b' }, level: 'debug' })).toThrow(
+      'Too many active level overrides (max 1)'
+    );
+  });
+
+  it('should write audit records for add, remove and expire', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+    logger = createLogger({ service: 'my-service', pretty: false, level: 'error' });
+
+    const first = logger.addLevelOverride({
+      match: { tenantId: 'tenant-x' },
+      level: 'debug',
+      ttlMs: 60000,
+      actor: 'alice',
+      reason: 'SUP-1234',
+    });
+    logger.removeLevelOverride(first.id, 'bob');
+    logger.addLevelOverride({ match: { userId: 'user-1' }, level: 'trace', ttlMs: 1000 });
+    jest.advanceTimersByTime(1000);
+
+    expect(audits()).toEqual([
+      expect.objectContaining({
+        level: 30,
+        msg: 'Log level override added',
+        action: 'add',
+        actor: 'alice',
+        override_id: first.id,
+        match: { tenantId: 'tenant-x' },
+        override_level: 'debug',
+        expires_at: '2026-01-01T00:01:00.000Z',
+        reason: 'SUP-1234',
+      }),
+      expect.objectContaining({
+        msg: 'Log level override removed',
+        action: 'remove',
+        actor: 'bob',
+      }),
+      expect.objectContaining({ msg: 'Log level override added', actor: 'unknown' }),
+      expect.objectContaining({
+        msg: 'Log level override expired',
+        action: 'expire',
+        actor: 'system',
+      }),
+    ]);
+  });
+});
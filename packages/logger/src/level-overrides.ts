@@ -0,0 +1,226 @@
+/**
+ * Time-boxed level overrides for specific tenants, users, requests or domains.
+ *
+ * "Turn on debug for tenant X for 15 minutes": an override matches loggers created via
+ * withContext() (and their children) by `tenantId`, `userId`, `correlationId` and/or
+ * `domain`, and lowers their threshold until it expires.
+ *
+ * Design notes:
+ * - Overrides only make loggers more verbose: the effective level is the most verbose of
+ *   the regular level and every matching override
+ * - Every override expires; there is no way to register a permanent one
+ * - Matching happens when a logger is created and, after overrides change, once on the
+ *   logger's next call. Per-request loggers are never registered anywhere, so high request
+ *   rates add no bookkeeping and nothing leaks when requests finish.
+ * - The number of active overrides is capped to keep matching cheap
+ */
+
+import { randomUUID } from 'node:crypto';
+import { assertLevel, domainMatches, mostVerbose } from './levels';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Context fields an override matches on. Every field that is set must match.
+ * `domain` accepts the same `name.*` wildcards as `levels`.
+ */
+export interface LevelOverrideMatch {
+  tenantId?: string;
+  userId?: string;
+  correlationId?: string;
+  domain?: string;
+}
+
+/** Options for logger.addLevelOverride() */
+export interface LevelOverrideOptions {
+  /** Context fields to match (at least one is required) */
+  match: LevelOverrideMatch;
+  /** Level for matching loggers, e.g. 'debug' */
+  level: string;
+  /** Lifetime in milliseconds (default: levelControl.ttlMs, 15 minutes) */
+  ttlMs?: number;
+  /** Who registered the override (recorded in the audit record) */
+  actor?: string;
+  /** Why it was registered, e.g. a support ticket (recorded in the audit record) */
+  reason?: string;
+}
+
+/** A registered override, as returned by listOverrides() */
+export interface LevelOverride {
+  id: string;
+  match: LevelOverrideMatch;
+  level: string;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 */
+  expiresAt: string;
+  actor?: string;
+  reason?: string;
+}
+
+/** Context fields of a logger, matched against overrides */
+export type LevelOverrideTarget = LevelOverrideMatch;
+
+/** Audit record written when an override is added, removed or expires */
+export interface LevelOverrideAuditRecord {
+  action: 'add' | 'remove' | 'expire';
+  override: LevelOverride;
+  actor: string;
+}
+
+/** @internal */
+export interface LevelOverrideRegistry {
+  /** Number of active overrides */
+  readonly size: number;
+  add(options: LevelOverrideOptions): LevelOverride;
+  remove(id: string, actor?: string): boolean;
+  list(): LevelOverride[];
+  /** Apply matching overrides to `level` */
+  resolve(level: string, target: LevelOverrideTarget): string;
+  /** Cancel expiry timers */
+  close(): void;
+}
+
+/** @internal */
+export interface LevelOverrideRegistryOptions {
+  /** Default lifetime in milliseconds */
+  ttlMs: number;
+  /** Maximum number of active overrides (default: 100) */
+  maxOverrides?: number;
+  /** Called after the set of active overrides changed */
+  onChange(): void;
+  /** Write an audit record */
+  audit(record: LevelOverrideAuditRecord): void;
+}
+
+interface Entry {
+  override: LevelOverride;
+  timer: NodeJS.Timeout;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const MATCH_FIELDS = ['tenantId', 'userId', 'correlationId', 'domain'] as const;
+
+function matches(match: LevelOverrideMatch, target: LevelOverrideTarget): boolean {
+  for (const field of MATCH_FIELDS) {
+    const expected = match[field];
+    if (expected === undefined) {
+      continue;
+    }
+    const actual = target[field];
+    if (actual === undefined) {
+      return false;
+    }
+    if (field === 'domain' ? !domainMatches(expected, actual) : expected !== actual) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function copyOverride(override: LevelOverride): LevelOverride {
+  return { ...override, match: { ...override.match } };
+}
+
+/**
+ * Create the override registry shared by a root logger and all of its children.
+ * @internal
+ */
+export function createLevelOverrideRegistry(
+  options: LevelOverrideRegistryOptions
+): LevelOverrideRegistry {
+  const { onChange, audit } = options;
+  const maxOverrides = options.maxOverrides ?? 100;
+  const entries = new Map<string, Entry>();
+
+  function drop(id: string, action: 'remove' | 'expire', actor: string): boolean {
+    const entry = entries.get(id);
+    if (!entry) {
+      return false;
+    }
+    clearTimeout(entry.timer);
+    entries.delete(id);
+    onChange();
+    audit({ action, override: copyOverride(entry.override), actor });
+    return true;
+  }
+
+  return {
+    get size(): number {
+      return entries.size;
+    },
+
+    add(addOptions: LevelOverrideOptions): LevelOverride {
+      const { level, actor, reason } = addOptions;
+      const ttlMs = addOptions.ttlMs ?? options.ttlMs;
+      const match: LevelOverrideMatch = {};
+      for (const field of MATCH_FIELDS) {
+        if (addOptions.match[field] !== undefined) {
+          match[field] = addOptions.match[field];
+        }
+      }
+
+      if (Object.keys(match).length === 0) {
+        throw new Error(
+          '[@arivlabs/logger] A level override must match at least one of ' +
+            'tenantId, userId, correlationId or domain'
+        );
+      }
+      assertLevel(level, level);
+      if (!(ttlMs > 0) || !Number.isFinite(ttlMs)) {
+        throw new Error('[@arivlabs/logger] A level override needs a positive, finite ttlMs');
+      }
+      if (entries.size >= maxOverrides) {
+        throw new Error(`[@arivlabs/logger] Too many active level overrides (max ${maxOverrides})`);
+      }
+
+      const now = Date.now();
+      const override: LevelOverride = {
+        id: randomUUID(),
+        match,
+        level,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs).toISOString(),
+        ...(actor !== undefined && { actor }),
+        ...(reason !== undefined && { reason }),
+      };
+      const timer = setTimeout(() => drop(override.id, 'expire', 'system'), ttlMs);
+      timer.unref();
+
+      entries.set(override.id, { override, timer });
+      onChange();
+      audit({ action: 'add', override: copyOverride(override), actor: actor ?? 'unknown' });
+      return copyOverride(override);
+    },
+
+    remove(id: string, actor = 'unknown'): boolean {
+      return drop(id, 'remove', actor);
+    },
+
+    list(): LevelOverride[] {
+      return [...entries.values()].map((entry) => copyOverride(entry.override));
+    },
+
+    resolve(level: string, target: LevelOverrideTarget): string {
+      let resolved = level;
+      for (const { override } of entries.values()) {
+        if (matches(override.match, target)) {
+          resolved = mostVerbose(resolved, override.level);
+        }
+      }
+      return resolved;
+    },
+
+    close(): void {
+      for (const entry of entries.values()) {
+        clearTimeout(entry.timer);
+      }
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { createLogger, parseLevelSpec } from './index';
+import { createDomainLevelResolver } from './levels';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('per-domain levels', () => {
+  describe('parseLevelSpec()', () => {
+    it('should parse the default level and domain rules', () => {
+      expect(parseLevelSpec('info,auth=debug,discovery.*=warn')).toEqual({
+        level: 'info',
+        levels: { auth: 'debug', 'discovery.*': 'warn' },
+      });
+    });
+
+    it('should accept a plain level, whitespace and any case', () => {
+      expect(parseLevelSpec('WARN')).toEqual({ level: 'warn', levels: {} });
+      expect(parseLevelSpec(' auth = Debug , ')).toEqual({ levels: { auth: 'debug' } });
+    });
+
+    it('should reject unknown levels and missing domains', () => {
+      expect(() => parseLevelSpec('info,auth=verbose')).toThrow(
+        'Unknown log level "verbose" in level spec: auth=verbose'
+      );
+      expect(() => parseLevelSpec('=debug')).toThrow('Missing domain in level spec: =debug');
+    });
+  });
+
+  describe('createDomainLevelResolver()', () => {
+    const resolve = createDomainLevelResolver({
+      auth: 'debug',
+      'discovery.*': 'warn',
+      'discovery.scan.*': 'trace',
+      'discovery.scan.noisy': 'error',
+    })!;
+
+    it('should match exact domains only for plain rules', () => {
+      expect(resolve('auth')).toBe('debug');
+      expect(resolve('auth.oauth')).toBeUndefined();
+      expect(resolve('authz')).toBeUndefined();
+    });
+
+    it('should match wildcards along the dotted hierarchy, most specific first', () => {
+      expect(resolve('discovery')).toBe('warn');
+      expect(resolve('discovery.inventory')).toBe('warn');
+      expect(resolve('discovery.scan')).toBe('trace');
+      expect(resolve('discovery.scan.aws')).toBe('trace');
+      expect(resolve('discovery.scan.noisy')).toBe('error');
+      expect(resolve('discoveryx')).toBeUndefined();
+    });
+
+    it('should return undefined when there are no rules', () => {
+      expect(createDomainLevelResolver({})).toBeUndefined();
+    });
+  });
+
+  describe('createLogger integration', () => {
+    const originalEnv = process.env;
+    let output: CapturedOutput;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      delete process.env.LOG_LEVEL;
+      output = captureDestination();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should apply LOG_LEVEL rules to domain(), withContext() and child()', () => {
+      process.env.LOG_LEVEL = 'info,auth=debug,discovery.*=warn';
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      expect(logger.level).toBe('info');
+      expect(logger.domain('auth').level).toBe('debug');
+      expect(logger.domain('discovery.scan').level).toBe('warn');
+      expect(logger.withContext({ correlationId: 'c', domain: 'auth' }).level).toBe('debug');
+      expect(logger.child({ domain: 'discovery' }).level).toBe('warn');
+
+      logger.domain('auth').debug('Auth debug');
+      logger.domain('discovery.scan').info('Scan info');
+      logger.debug('Root debug');
+
+      expect(output.lines.map((line) => line.msg)).toEqual(['Auth debug']);
+    });
+
+    it('should fall back to the root level when switching to an unmatched domain', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        levels: { auth: 'debug' },
+      });
+      const auth = logger.domain('auth');
+
+      expect(auth.domain('billing').level).toBe('info');
+      expect(auth.child({ jobId: '1' }).level).toBe('debug');
+      expect(auth.withContext({ correlationId: 'c' }).level).toBe('debug');
+    });
+
+    it('should let config.levels override LOG_LEVEL rules and config.level the default', () => {
+      process.env.LOG_LEVEL = 'debug,auth=trace,billing=error';
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'warn',
+        levels: { auth: 'info' },
+      });
+
+      expect(logger.level).toBe('warn');
+      expect(logger.domain('auth').level).toBe('info');
+      expect(logger.domain('billing').level).toBe('error');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Per-domain log levels.
+ *
+ * A level spec such as `LOG_LEVEL="info,auth=debug,discovery.*=warn"` sets the default
+ * level (the bare entry) and thresholds for individual domains. Rules are resolved when
+ * domain(), withContext({ domain }) or child({ domain }) creates a logger, so log calls
+ * pay nothing extra.
+ *
+ * Matching follows the dotted domain hierarchy:
+ * - `auth` matches the `auth` domain only
+ * - `discovery.*` matches `discovery` and every domain below it (`discovery.scan`,
+ *   `discovery.scan.aws`)
+ * - An exact rule beats a wildcard, and a longer wildcard beats a shorter one
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Levels by domain name or dotted wildcard.
+ *
+ * @example
+ * ```typescript
+ * levels: { auth: 'debug', 'discovery.*': 'warn' }
+ * ```
+ */
+export type DomainLevels = Record<string, string>;
+
+/** A parsed level spec string */
+export interface LevelSpec {
+  /** Default level (the bare entry), if present */
+  level?: string;
+  /** Domain rules */
+  levels: DomainLevels;
+}
+
+/**
+ * Resolve the level for a domain (undefined when no rule matches).
+ * @internal
+ */
+export type DomainLevelResolver = (domain: string) => string | undefined;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** pino's numeric level values */
+const LEVEL_VALUES: Readonly<Record<string, number>> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+  silent: Infinity,
+};
+
+const LEVEL_NAMES = new Set(Object.keys(LEVEL_VALUES));
+
+/**
+ * Whether `level` is a known level name (including `silent`).
+ * @internal
+ */
+export function isLevelName(level: string): boolean {
+  return LEVEL_NAMES.has(level);
+}
+
+/**
+ * Throw when `level` is not a known level name. `entry` is quoted in the error message.
+ * @internal
+ */
+export function assertLevel(level: string, entry: string): void {
+  if (!isLevelName(level)) {
+    throw new Error(`[@arivlabs/logger] Unknown log level "${level}" in level spec: ${entry}`);
+  }
+}
+
+/**
+ * Return the more verbose of two levels (`debug` over `info`).
+ * @internal
+ */
+export function mostVerbose(a: string, b: string): string {
+  return (LEVEL_VALUES[b] ?? Infinity) < (LEVEL_VALUES[a] ?? Infinity) ? b : a;
+}
+
+/**
+ * Whether a domain pattern (`auth` or `discovery.*`) matches a domain.
+ * @internal
+ */
+export function domainMatches(pattern: string, domain: string): boolean {
+  if (!pattern.endsWith('.*')) {
+    return pattern === domain;
+  }
+  const prefix = pattern.slice(0, -2);
+  return domain === prefix || domain.startsWith(`${prefix}.`);
+}
+
+/**
+ * Parse a level spec string like `"info,auth=debug,discovery.*=warn"`.
+ * Entries are comma-separated; whitespace is ignored and level names are case-insensitive.
+ * Throws on unknown level names or malformed entries.
+ */
+export function parseLevelSpec(spec: string): LevelSpec {
+  const result: LevelSpec = { levels: {} };
+
+  for (const raw of spec.split(',')) {
+    const entry = raw.trim();
+    if (!entry) {
+      continue;
+    }
+
+    const eq = entry.indexOf('=');
+    if (eq === -1) {
+      const level = entry.toLowerCase();
+      assertLevel(level, entry);
+      result.level = level;
+      continue;
+    }
+
+    const domain = entry.slice(0, eq).trim();
+    const level = entry
+      .slice(eq + 1)
+      .trim()
+      .toLowerCase();
+    if (!domain) {
+      throw new Error(`[@arivlabs/logger] Missing domain in level spec: ${entry}`);
+    }
+    assertLevel(level, entry);
+    result.levels[domain] = level;
+  }
+
+  return result;
+}
+
+/**
+ * Build a resolver for domain rules. Returns undefined when there are no rules.
+ * @internal
+ */
+export function createDomainLevelResolver(levels: DomainLevels): DomainLevelResolver | undefined {
+  const exact = new Map<string, string>();
+  const wildcards: { prefix: string; level: string }[] = [];
+
+  for (const [pattern, level] of Object.entries(levels)) {
+    assertLevel(level, `${pattern}=${level}`);
+    if (pattern.endsWith('.*')) {
+      wildcards.push({ prefix: pattern.slice(0, -2), level });
+    } else {
+      exact.set(pattern, level);
+    }
+  }
+
+  if (exact.size === 0 && wildcards.length === 0) {
+    return undefined;
+  }
+
+  // Most specific (longest) wildcard first
+  wildcards.sort((a, b) => b.prefix.length - a.prefix.length);
+
+  return (domain: string) => {
+    const level = exact.get(domain);
+    if (level !== undefined) {
+      return level;
+    }
+    for (const { prefix, level: wildcardLevel } of wildcards) {
+      if (domain === prefix || domain.startsWith(`${prefix}.`)) {
+        return wildcardLevel;
+      }
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,211 @@
+import pino from 'pino';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+import { createLoggerManager, type LoggerManager } from './index';
+
+describe('createLoggerManager()', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let manager: LoggerManager | undefined;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+  });
+
+  afterEach(async () => {
+    await manager?.shutdownAll();
+    manager = undefined;
+    output.restore();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  /** Resolves with the exit code once process.exit() is called */
+  const mockExit = () =>
+    new Promise<number | undefined>((resolve) => {
+      jest.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+        resolve(code);
+      }) as never);
+    });
+
+  const lastListener = (event: string) =>
+    process.listeners(event as NodeJS.Signals).at(-1) as (...args: unknown[]) => void;
+
+  it('should share one destination between loggers', () => {
+    manager = createLoggerManager();
+    const api = manager.createLogger({ service: 'api' });
+    const jobs = manager.createLogger({ service: 'jobs' });
+
+    api.info('Request handled');
+    jobs.info('Job finished');
+
+    expect(pino.destination).toHaveBeenCalledTimes(1);
+    expect(output.lines.map((line) => [line.service, line.msg])).toEqual([
+      ['api', 'Request handled'],
+      ['jobs', 'Job finished'],
+    ]);
+    expect(manager.loggers).toEqual([api, jobs]);
+  });
+
+  it('should keep per-destination levels for managed loggers with a format profile', () => {
+    const all: Record<string, unknown>[] = [];
+    const errors: Record<string, unknown>[] = [];
+    const collect = (lines: Record<string, unknown>[]) => ({
+      write: (line: string) => {
+        lines.push(JSON.parse(line));
+      },
+    });
+    manager = createLoggerManager({
+      destinations: [{ target: collect(all) }, { target: collect(errors), level: 'error' }],
+    });
+    const logger = manager.createLogger({ service: 'api', format: 'ecs' });
+
+    logger.info('Request handled');
+    logger.error('Request failed');
+
+    expect(all.map((line) => line.message)).toEqual(['Request handled', 'Request failed']);
+    expect(errors.map((line) => line.message)).toEqual(['Request failed']);
+    expect(errors[0]).toMatchObject({ 'log.level': 'error' });
+  });
+
+  it('should use the manager environment as the default for managed loggers', () => {
+    manager = createLoggerManager({ environment: 'production', enableAsync: false });
+    manager.createLogger({ service: 'api' }).debug('Hidden at the production default level');
+    manager.createLogger({ service: 'jobs', environment: 'staging' }).info('Job finished');
+    manager.createLogger({ service: 'api' }).info('Request handled');
+
+    expect(output.lines.map((line) => [line.environment, line.msg])).toEqual([
+      ['staging', 'Job finished'],
+      ['production', 'Request handled'],
+    ]);
+  });
+
+  it('should shut down every logger and close the shared destination once', async () => {
+    manager = createLoggerManager();
+    const api = manager.createLogger({ service: 'api' });
+    const apiShutdown = jest.spyOn(api, 'shutdown');
+    const destination = (pino.destination as jest.Mock).mock.results[0].value as {
+      end: jest.Mock;
+    };
+
+    await api.shutdown();
+    expect(destination.end).not.toHaveBeenCalled();
+
+    await expect(manager.shutdownAll()).resolves.toBe(true);
+    expect(apiShutdown).toHaveBeenCalledTimes(2);
+    expect(destination.end).toHaveBeenCalledTimes(1);
+    expect(manager.loggers).toEqual([]);
+    expect(() => manager!.createLogger({ service: 'late' })).toThrow(
+      '[@arivlabs/logger] createLogger() called after shutdownAll()'
+    );
+  });
+
+  it('should install one pair of crash handlers for all loggers', async () => {
+    process.env.NODE_ENV = 'production';
+    const before = process.listenerCount('uncaughtException');
+
+    manager = createLoggerManager({ handleExceptions: true, exitOnFatal: false });
+    manager.createLogger({ service: 'api' });
+    manager.createLogger({ service: 'jobs' });
+    const destination = (pino.destination as jest.Mock).mock.results[0].value as {
+      flushSync: jest.Mock;
+    };
+
+    expect(process.listenerCount('uncaughtException')).toBe(before + 1);
+    lastListener('uncaughtException')(new Error('boom'));
+
+    expect(output.lines).toHaveLength(1);
+    expect(output.lines[0]).toMatchObject({
+      level: 60,
+      service: 'api',
+      msg: 'Process terminating due to error',
+      event: 'uncaughtException',
+      diagnostics: { node_version: process.version },
+    });
+    expect(destination.flushSync).toHaveBeenCalled();
+
+    await manager.shutdownAll();
+    expect(process.listenerCount('uncaughtException')).toBe(before);
+  });
+
+  it('should add the report summary to crash records and guard against re-entry', async () => {
+    process.env.NODE_ENV = 'production';
+    const exited = mockExit();
+    const onFatal = jest.fn(() => new Promise<void>((resolve) => setTimeout(resolve, 10)));
+    manager = createLoggerManager({
+      handleExceptions: true,
+      onFatal,
+      diagnostics: { report: true },
+    });
+    manager.createLogger({ service: 'api' });
+
+    lastListener('uncaughtException')(new Error('boom'));
+    lastListener('uncaughtException')(new Error('again'));
+
+    await expect(exited).resolves.toBe(1);
+    expect(onFatal).toHaveBeenCalledTimes(1);
+    expect(output.lines[0]).toMatchObject({
+      level: 60,
+      diagnostics: { report: { arch: process.arch } },
+    });
+    expect(output.lines[1]).toMatchObject({ level: 50, msg: 'Uncaught error while terminating' });
+  });
+
+  it('should run shutdown hooks in order on a signal, then shut down and exit', async () => {
+    const exited = mockExit();
+    const calls: string[] = [];
+    manager = createLoggerManager({ signals: ['SIGTERM'] });
+    const logger = manager.createLogger({ service: 'api' });
+    jest.spyOn(logger, 'shutdown').mockImplementation(async () => {
+      calls.push('loggers');
+    });
+    manager.onShutdown(
+      'database',
+      () => {
+        calls.push('database');
+      },
+      { order: 10 }
+    );
+    manager.onShutdown('server', async () => {
+      calls.push('server');
+    });
+    const unregister = manager.onShutdown('cache', () => {
+      calls.push('cache');
+    });
+    unregister();
+
+    lastListener('SIGTERM')('SIGTERM');
+
+    await expect(exited).resolves.toBe(0);
+    expect(calls).toEqual(['server', 'database', 'loggers']);
+    expect(output.lines[0]).toMatchObject({ msg: 'Shutting down', signal: 'SIGTERM' });
+  });
+
+  it('should log failing hooks and exit with code 1 when shutdown misses the deadline', async () => {
+    const exited = mockExit();
+    manager = createLoggerManager({ signals: ['SIGTERM'], shutdownTimeoutMs: 20 });
+    manager.createLogger({ service: 'api' });
+    manager.onShutdown('stuck', () => new Promise<void>(() => {}));
+    manager.onShutdown(
+      'failing',
+      () => {
+        throw new Error('pool already closed');
+      },
+      { order: -1 }
+    );
+
+    lastListener('SIGTERM')('SIGTERM');
+
+    await expect(exited).resolves.toBe(1);
+    expect(output.lines.map((line) => line.msg)).toEqual([
+      'Shutting down',
+      'Shutdown hook failed',
+      'Shutdown hooks did not finish before the deadline',
+    ]);
+    expect(output.lines[1]).toMatchObject({ hook: 'failing', level: 50 });
+  });
+});
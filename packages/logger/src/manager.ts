@@ -0,0 +1,389 @@
+/**
+ * Process-wide logger manager.
+ *
+ * Every createLogger() call opens its own destination, installs its own crash handlers
+ * (with `handleExceptions`) and needs its own shutdown() call. A manager owns these once
+ * per process:
+ * - Destinations are opened once and shared by every logger it creates, so their lines go
+ *   through one buffer
+ * - One pair of `uncaughtException`/`unhandledRejection` handlers logs the error, flushes
+ *   the shared destinations synchronously and exits
+ * - Optional SIGTERM/SIGINT handlers run the registered shutdown hooks in order, then
+ *   shutdownAll(), within an overall deadline, then exit
+ *
+ * ```typescript
+ * export const loggers = createLoggerManager({ handleExceptions: true, signals: true });
+ * export const apiLogger = loggers.createLogger({ service: 'api' });
+ * export const jobsLogger = loggers.createLogger({ service: 'jobs', level: 'debug' });
+ *
+ * loggers.onShutdown('http-server', () => server.close(), { order: 0 });
+ * loggers.onShutdown('database', () => pool.end(), { order: 10 });
+ * ```
+ *
+ * Design notes:
+ * - Managed loggers write to the shared destinations as a stream passed in, so their own
+ *   flush() flushes the shared buffers and their shutdown() leaves them open; only
+ *   shutdownAll() closes them
+ * - Settings that belong to the shared output (destinations, pretty, async mode, crash
+ *   handling) are manager options, not per-logger options
+ * - Shutdown never waits longer than the deadline: a hook or destination that hangs is
+ *   abandoned and the process exits with code 1
+ */
+
+import { openDestinations, type DestinationConfig, type ManagedDestination } from './destinations';
+import {
+  collectDiagnostics,
+  runFatalHooks,
+  type CrashEvent,
+  type DiagnosticsConfig,
+  type FatalHook,
+} from './diagnostics';
+import { toError } from './errors';
+import type { EventCatalog, EventPayloads } from './events';
+import { createLogger, type ArivLogger, type LogData, type LoggerConfig } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Options for createLoggerManager() */
+export interface LoggerManagerConfig {
+  /**
+   * Environment used for the output defaults below and the default `environment` of
+   * managed loggers. Default: ENV, NODE_ENV, else 'development' (as for createLogger())
+   */
+  environment?: string;
+
+  /** Shared destinations (default: stdout, pretty in development/local) */
+  destinations?: DestinationConfig[];
+
+  /** Pretty stdout when `destinations` is not set (default: true in development/local) */
+  pretty?: boolean;
+
+  /** Buffered async writes (default: true in production, false in development/local/test) */
+  enableAsync?: boolean;
+
+  /** Buffer size before auto-flush in async mode (default: 4096 bytes) */
+  asyncBufferSize?: number;
+
+  /**
+   * Install one pair of uncaughtException/unhandledRejection handlers for every managed
+   * logger. Errors are logged at fatal through the first logger created. Not installed
+   * under NODE_ENV=test. Default: false
+   */
+  handleExceptions?: boolean;
+
+  /** Exit with code 1 after logging an uncaught error (default: true) */
+  exitOnFatal?: boolean;
+
+  /** Hooks run after the crash record is flushed, before exiting (at most 5 seconds) */
+  onFatal?: FatalHook | FatalHook[];
+
+  /**
+   * Crash record settings (`report`). Default: the `diagnostics` of the first managed
+   * logger, which also logs crash records. Process events are set per logger
+   */
+  diagnostics?: Pick<DiagnosticsConfig, 'report'>;
+
+  /**
+   * Run shutdown hooks and shutdownAll() on these signals, then exit.
+   * `true` means SIGTERM and SIGINT. Default: false
+   */
+  signals?: boolean | NodeJS.Signals[];
+
+  /** Deadline for signal-triggered shutdown and shutdownAll() (default: 10000 ms) */
+  shutdownTimeoutMs?: number;
+}
+
+/** createLogger() settings for a managed logger; output settings come from the manager */
+export type ManagedLoggerConfig = Omit<
+  LoggerConfig,
+  | 'destinations'
+  | 'pretty'
+  | 'enableAsync'
+  | 'asyncBufferSize'
+  | 'handleExceptions'
+  | 'exitOnFatal'
+  | 'onFatal'
+>;
+
+/** Options for onShutdown() */
+export interface ShutdownHookOptions {
+  /** Hooks run in ascending order; equal orders run in registration order (default: 0) */
+  order?: number;
+}
+
+/** A process-wide owner of shared destinations, crash handlers and shutdown */
+export interface LoggerManager {
+  /** Create a logger that writes to the shared destinations */
+  createLogger<E extends EventPayloads = Record<string, LogData>>(
+    config: ManagedLoggerConfig & { events?: EventCatalog<E> }
+  ): ArivLogger<E>;
+
+  /** Loggers created by this manager that have not been shut down by shutdownAll() */
+  readonly loggers: readonly ArivLogger[];
+
+  /**
+   * Register a hook run on SIGTERM/SIGINT before the loggers shut down (e.g. closing the
+   * HTTP server, then the database pool). Returns a function that unregisters it.
+   */
+  onShutdown(
+    name: string,
+    hook: () => Promise<void> | void,
+    options?: ShutdownHookOptions
+  ): () => void;
+
+  /** Synchronously flush the shared destinations */
+  flush(): void;
+
+  /**
+   * Shut down every managed logger, then flush and close the shared destinations, and
+   * remove the process handlers. Resolves after at most `timeoutMs` (default:
+   * `shutdownTimeoutMs`) with whether everything finished in time.
+   */
+  shutdownAll(options?: { timeoutMs?: number }): Promise<boolean>;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface ShutdownHook {
+  name: string;
+  hook: () => Promise<void> | void;
+  order: number;
+}
+
+/** Resolves with whether `work` completed (without rejecting) before the deadline */
+function withDeadline(work: Promise<unknown>, deadline: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()));
+    timer.unref();
+  });
+  return Promise.race([
+    work.then(
+      () => true,
+      () => false
+    ),
+    expired,
+  ]).finally(() => clearTimeout(timer));
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Create a manager that shares destinations, crash handlers and shutdown between loggers.
+ * Throws on invalid destinations.
+ *
+ * @example
+ * ```typescript
+ * const loggers = createLoggerManager({ signals: true, shutdownTimeoutMs: 5000 });
+ * const logger = loggers.createLogger({ service: 'api' });
+ * loggers.onShutdown('server', () => new Promise((resolve) => server.close(() => resolve())));
+ * ```
+ */
+export function createLoggerManager(config: LoggerManagerConfig = {}): LoggerManager {
+  // Same defaults as createLogger()
+  const environment =
+    config.environment || process.env.ENV || process.env.NODE_ENV || 'development';
+  const isDevelopment = environment === 'development';
+  const isLocal = process.env.ENV === 'local';
+  const isTest = environment === 'test' || process.env.NODE_ENV === 'test';
+  const shouldPrettyPrint = config.pretty ?? (isDevelopment || isLocal);
+  const useAsync = config.enableAsync ?? (!isDevelopment && !isLocal && !isTest);
+  const shutdownTimeoutMs = config.shutdownTimeoutMs ?? 10_000;
+
+  const loggers: ArivLogger[] = [];
+  let firstDiagnostics: DiagnosticsConfig | undefined;
+  const hooks: ShutdownHook[] = [];
+  const cleanups: (() => void)[] = [];
+  let shuttingDown: Promise<boolean> | undefined;
+
+  const { stream, destinations } = openDestinations(
+    config.destinations ?? [{ target: 1, format: shouldPrettyPrint ? 'pretty' : 'json' }],
+    {
+      async: useAsync,
+      bufferSize: config.asyncBufferSize ?? 4096,
+      onError: (err, path) => loggers[0]?.warn('Log file rotation failed', { err, path }),
+    }
+  );
+
+  const flushDestinations = (dests: ManagedDestination[]) => {
+    for (const dest of dests) {
+      try {
+        dest.flushSync();
+      } catch {
+        // flushSync can throw if the stream is destroyed; nothing else can be done here
+      }
+    }
+  };
+
+  const manager: LoggerManager = {
+    createLogger<E extends EventPayloads = Record<string, LogData>>(
+      loggerConfig: ManagedLoggerConfig & { events?: EventCatalog<E> }
+    ): ArivLogger<E> {
+      if (shuttingDown) {
+        throw new Error('[@arivlabs/logger] createLogger() called after shutdownAll()');
+      }
+      const logger = createLogger<E>({
+        environment,
+        ...loggerConfig,
+        destinations: [{ target: stream }],
+        enableAsync: useAsync,
+      });
+      if (loggers.length === 0) {
+        firstDiagnostics = loggerConfig.diagnostics;
+      }
+      loggers.push(logger as unknown as ArivLogger);
+      return logger;
+    },
+
+    get loggers(): readonly ArivLogger[] {
+      return [...loggers];
+    },
+
+    onShutdown(name, hook, options = {}) {
+      const entry: ShutdownHook = { name, hook, order: options.order ?? 0 };
+      hooks.push(entry);
+      return () => {
+        const index = hooks.indexOf(entry);
+        if (index !== -1) {
+          hooks.splice(index, 1);
+        }
+      };
+    },
+
+    flush(): void {
+      flushDestinations(destinations);
+    },
+
+    shutdownAll(options = {}): Promise<boolean> {
+      shuttingDown ??= (async () => {
+        for (const cleanup of cleanups.splice(0)) {
+          cleanup();
+        }
+        const work = (async () => {
+          await Promise.all(loggers.map((logger) => logger.shutdown()));
+          await Promise.all(destinations.map((dest) => dest.close()));
+        })();
+        const finished = await withDeadline(
+          work,
+          Date.now() + (options.timeoutMs ?? shutdownTimeoutMs)
+        );
+        loggers.length = 0;
+        return finished;
+      })();
+      return shuttingDown;
+    },
+  };
+
+  // One pair of crash handlers for every managed logger
+  if (config.handleExceptions && !isTest) {
+    const shouldExit = config.exitOnFatal !== false;
+    const fatalHooks = config.onFatal ? [config.onFatal].flat() : [];
+    // Set while onFatal hooks run or the exit is pending: later errors are only logged
+    let terminating = false;
+
+    const crashHandler = (err: Error, eventName: CrashEvent) => {
+      const logger = loggers[0];
+      if (terminating) {
+        logger?.error('Uncaught error while terminating', { err, event: eventName });
+        flushDestinations(destinations);
+        return;
+      }
+      if (logger) {
+        logger.fatal('Process terminating due to error', {
+          err,
+          event: eventName,
+          diagnostics: collectDiagnostics({
+            report: config.diagnostics?.report ?? firstDiagnostics?.report,
+          }),
+        });
+      } else {
+        console.error(`[@arivlabs/logger] ${eventName}:`, err);
+      }
+      flushDestinations(destinations);
+      if (fatalHooks.length === 0) {
+        if (shouldExit) {
+          terminating = true;
+          process.exit(1);
+        }
+        return;
+      }
+      terminating = true;
+      void runFatalHooks(fatalHooks, err, eventName, (hookErr) => {
+        loggers[0]?.error('onFatal hook failed', { err: hookErr, event: eventName });
+        flushDestinations(destinations);
+      }).then(() => {
+        if (shouldExit) {
+          process.exit(1);
+        } else {
+          terminating = false;
+        }
+      });
+    };
+    const uncaughtHandler = (err: Error) => crashHandler(err, 'uncaughtException');
+    const rejectionHandler = (reason: unknown) =>
+      crashHandler(toError(reason), 'unhandledRejection');
+
+    process.on('uncaughtException', uncaughtHandler);
+    process.on('unhandledRejection', rejectionHandler);
+    cleanups.push(() => {
+      process.removeListener('uncaughtException', uncaughtHandler);
+      process.removeListener('unhandledRejection', rejectionHandler);
+    });
+  }
+
+  // Ordered shutdown on signals, bounded by one deadline
+  if (config.signals) {
+    const signals: NodeJS.Signals[] =
+      config.signals === true ? ['SIGTERM', 'SIGINT'] : config.signals;
+    let received = false;
+
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (received) {
+        return;
+      }
+      received = true;
+      const deadline = Date.now() + shutdownTimeoutMs;
+      loggers[0]?.info('Shutting down', { signal });
+
+      void (async () => {
+        let ok = await withDeadline(
+          (async () => {
+            const ordered = [...hooks].sort((a, b) => a.order - b.order);
+            for (const { name, hook } of ordered) {
+              try {
+                await hook();
+              } catch (err) {
+                loggers[0]?.error('Shutdown hook failed', { hook: name, err });
+              }
+            }
+          })(),
+          deadline
+        );
+        if (!ok) {
+          loggers[0]?.warn('Shutdown hooks did not finish before the deadline', {
+            timeout_ms: shutdownTimeoutMs,
+          });
+        }
+        ok = (await manager.shutdownAll({ timeoutMs: Math.max(0, deadline - Date.now()) })) && ok;
+        process.exit(ok ? 0 : 1);
+      })();
+    };
+
+    for (const signal of signals) {
+      process.on(signal, onSignal);
+    }
+    cleanups.push(() => {
+      for (const signal of signals) {
+        process.removeListener(signal, onSignal);
+      }
+    });
+  }
+
+  return manager;
+}
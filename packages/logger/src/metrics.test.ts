@@ -0,0 +1,141 @@
+import { createLogger, type LoggerConfig } from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('EMF metrics', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+
+  const create = (config: Partial<LoggerConfig> = {}) =>
+    createLogger({ service: 'my-service', environment: 'test', pretty: false, ...config });
+
+  const emf = (index = 0) =>
+    (output.lines[index]._aws as { CloudWatchMetrics: Record<string, unknown>[] })
+      .CloudWatchMetrics[0];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    output = captureDestination();
+  });
+
+  afterEach(() => {
+    output.restore();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should write an EMF record with the default dimensions', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+    create().metric('jobs_started', 1, { unit: 'Count' });
+    jest.useRealTimers();
+
+    expect(output.lines).toHaveLength(1);
+    expect(output.lines[0]).toMatchObject({
+      service: 'my-service',
+      environment: 'test',
+      jobs_started: 1,
+      _aws: {
+        Timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+        CloudWatchMetrics: [
+          {
+            Namespace: 'my-service',
+            Dimensions: [['service', 'environment']],
+            Metrics: [{ Name: 'jobs_started', Unit: 'Count' }],
+          },
+        ],
+      },
+    });
+    expect(output.lines[0].msg).toBeUndefined();
+  });
+
+  it('should add the domain and configured dimensions, and keep properties out of them', () => {
+    const logger = create({
+      metrics: { namespace: 'ArivLabs/Discovery', dimensions: { region: 'us-east-1' } },
+    });
+
+    logger.domain('auth').metric('login_latency', 42, {
+      unit: 'Milliseconds',
+      dimensions: { provider: 'okta' },
+      properties: { request_id: 'r-1' },
+    });
+
+    expect(output.lines[0]).toMatchObject({
+      domain: 'auth',
+      region: 'us-east-1',
+      provider: 'okta',
+      request_id: 'r-1',
+      login_latency: 42,
+    });
+    expect(emf()).toEqual({
+      Namespace: 'ArivLabs/Discovery',
+      Dimensions: [['service', 'environment', 'domain', 'region', 'provider']],
+      Metrics: [{ Name: 'login_latency', Unit: 'Milliseconds' }],
+    });
+  });
+
+  it('should batch metrics into one record per 100 metrics', () => {
+    const values = Object.fromEntries(Array.from({ length: 150 }, (_, i) => [`m${i}`, i]));
+
+    create().metrics(values, { unit: 'Count' });
+
+    expect(output.lines).toHaveLength(2);
+    expect(emf(0).Metrics).toHaveLength(100);
+    expect(emf(1).Metrics).toHaveLength(50);
+    expect(output.lines[1]).toMatchObject({ m100: 100, m149: 149 });
+    expect(output.lines[1].m0).toBeUndefined();
+  });
+
+  it('should support units, value arrays and high-resolution storage per metric', () => {
+    create({ metrics: { highResolution: true } }).metrics(
+      {
+        scanned: 120,
+        duration: { value: [812, 640], unit: 'Milliseconds', storageResolution: 60 },
+      },
+      { unit: 'Count' }
+    );
+
+    expect(output.lines[0]).toMatchObject({ scanned: 120, duration: [812, 640] });
+    expect(emf().Metrics).toEqual([
+      { Name: 'scanned', Unit: 'Count', StorageResolution: 1 },
+      { Name: 'duration', Unit: 'Milliseconds' },
+    ]);
+  });
+
+  it('should write metrics regardless of level, sampling and rate limiting', () => {
+    const logger = create({
+      level: 'error',
+      sampling: { rates: { info: 0 } },
+      rateLimit: { burst: 1 },
+    });
+
+    logger.metric('a', 1);
+    logger.metric('a', 2);
+
+    expect(output.lines.map((line) => line.a)).toEqual([1, 2]);
+  });
+
+  it('should only declare configured dimensions when defaultDimensions is false', () => {
+    create({ metrics: { defaultDimensions: false, dimensions: { region: 'eu-west-1' } } })
+      .domain('auth')
+      .metric('a', 1);
+
+    expect(emf().Dimensions).toEqual([['region']]);
+  });
+
+  it('should reject invalid metrics without writing anything', () => {
+    const logger = create();
+    const dimensions = Object.fromEntries(Array.from({ length: 29 }, (_, i) => [`d${i}`, 'x']));
+
+    expect(() => logger.metric('a', 1, { dimensions })).toThrow('at most 30 dimensions (got 31)');
+    expect(() => logger.metric('service', 1)).toThrow(
+      'Metric name "service" collides with a dimension or log field'
+    );
+    expect(() => logger.metric('a', NaN)).toThrow('Metric "a" must be a finite number');
+    expect(() => logger.metric('a', 1, { dimensions: { level: 'x' } })).toThrow(
+      '"level" cannot be used as a metric dimension'
+    );
+    expect(output.lines).toHaveLength(0);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * CloudWatch Embedded Metric Format (EMF).
+ *
+ * logger.metric() and logger.metrics() write log records that CloudWatch Logs turns into
+ * metrics: an `_aws` block declares the namespace, dimensions and metric units, and the
+ * dimension and metric values are top-level fields of the same record.
+ *
+ * ```json
+ * {
+ *   "_aws": {
+ *     "Timestamp": 1767225600000,
+ *     "CloudWatchMetrics": [{
+ *       "Namespace": "my-service",
+ *       "Dimensions": [["service", "environment", "domain"]],
+ *       "Metrics": [{ "Name": "latency", "Unit": "Milliseconds" }]
+ *     }]
+ *   },
+ *   "service": "my-service", "environment": "production", "domain": "auth",
+ *   "latency": 12
+ * }
+ * ```
+ *
+ * Design notes:
+ * - `service` and `environment` (base fields) and `domain` (from domain()) are already
+ *   on every record, so default dimensions only need to be declared
+ * - CloudWatch accepts at most 100 metrics per record: larger batches are split into
+ *   several records. More than 30 dimensions is a programming error and throws.
+ * - Records are written through the logger's destination, so flush() and shutdown()
+ *   cover them
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** CloudWatch metric units */
+export type MetricUnit =
+  | 'Seconds'
+  | 'Microseconds'
+  | 'Milliseconds'
+  | 'Bytes'
+  | 'Kilobytes'
+  | 'Megabytes'
+  | 'Gigabytes'
+  | 'Terabytes'
+  | 'Bits'
+  | 'Kilobits'
+  | 'Megabits'
+  | 'Gigabits'
+  | 'Terabits'
+  | 'Percent'
+  | 'Count'
+  | 'Bytes/Second'
+  | 'Kilobytes/Second'
+  | 'Megabytes/Second'
+  | 'Gigabytes/Second'
+  | 'Terabytes/Second'
+  | 'Bits/Second'
+  | 'Kilobits/Second'
+  | 'Megabits/Second'
+  | 'Gigabits/Second'
+  | 'Terabits/Second'
+  | 'Count/Second'
+  | 'None';
+
+/** A metric value: a number, several values, or values with a unit and resolution */
+export type MetricValue =
+  | number
+  | number[]
+  | {
+      value: number | number[];
+      unit?: MetricUnit;
+      /** 1 = high resolution (per second), 60 = standard (default) */
+      storageResolution?: 1 | 60;
+    };
+
+/** Options for logger.metric() and logger.metrics() */
+export interface MetricOptions {
+  /** Unit for metrics that do not set their own (default: 'None') */
+  unit?: MetricUnit;
+  /** Dimensions added to the defaults, e.g. `{ operation: 'login' }` */
+  dimensions?: Record<string, string>;
+  /** Store with 1-second resolution (default: metrics.highResolution) */
+  highResolution?: boolean;
+  /** Extra fields written on the record without becoming dimensions (e.g. a request ID) */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * EMF configuration.
+ *
+ * @example
+ * metrics: { namespace: 'ArivLabs/Discovery', dimensions: { region: 'us-east-1' } }
+ */
+export interface MetricsConfig {
+  /** CloudWatch namespace (default: the service name) */
+  namespace?: string;
+  /** Dimensions added to every metric record */
+  dimensions?: Record<string, string>;
+  /** Declare `service`, `environment` and the logger's `domain` as dimensions (default: true) */
+  defaultDimensions?: boolean;
+  /** Store every metric with 1-second resolution (default: false) */
+  highResolution?: boolean;
+}
+
+/** @internal */
+export interface MetricRecordContext {
+  namespace: string;
+  /** Fixed dimensions from the config (values) */
+  dimensions: Record<string, string>;
+  /** Dimension names that are already fields on the record (service, environment, domain) */
+  boundDimensions: string[];
+  highResolution: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** CloudWatch limit: metrics per record */
+export const MAX_METRICS_PER_RECORD = 100;
+
+/** CloudWatch limit: dimensions per dimension set */
+export const MAX_DIMENSIONS = 30;
+
+/** Fields a metric or dimension name must not overwrite */
+const RESERVED_FIELDS = new Set(['_aws', 'level', 'time', 'msg', 'pid', 'hostname']);
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+interface MetricDefinition {
+  Name: string;
+  Unit: MetricUnit;
+  StorageResolution?: 1;
+}
+
+/**
+ * Build the EMF records for a batch of metrics (one record per 100 metrics).
+ * Throws on invalid names, values or too many dimensions.
+ * @internal
+ */
+export function buildMetricRecords(
+  values: Record<string, MetricValue>,
+  options: MetricOptions,
+  context: MetricRecordContext
+): Record<string, unknown>[] {
+  const dimensionValues = { ...context.dimensions, ...options.dimensions };
+  const dimensionNames = [
+    ...new Set([...context.boundDimensions, ...Object.keys(dimensionValues)]),
+  ];
+  if (dimensionNames.length > MAX_DIMENSIONS) {
+    throw new Error(
+      `[@arivlabs/logger] A metric record can have at most ${MAX_DIMENSIONS} dimensions ` +
+        `(got ${dimensionNames.length})`
+    );
+  }
+  for (const name of dimensionNames) {
+    if (RESERVED_FIELDS.has(name)) {
+      throw new Error(`[@arivlabs/logger] "${name}" cannot be used as a metric dimension`);
+    }
+  }
+
+  const highResolution = options.highResolution ?? context.highResolution;
+  const entries = Object.entries(values);
+  const records: Record<string, unknown>[] = [];
+
+  for (let start = 0; start < entries.length; start += MAX_METRICS_PER_RECORD) {
+    const definitions: MetricDefinition[] = [];
+    const fields: Record<string, unknown> = {};
+
+    for (const [name, metric] of entries.slice(start, start + MAX_METRICS_PER_RECORD)) {
+      if (RESERVED_FIELDS.has(name) || dimensionNames.includes(name)) {
+        throw new Error(
+          `[@arivlabs/logger] Metric name "${name}" collides with a dimension or log field`
+        );
+      }
+
+      const { value, unit, storageResolution } =
+        typeof metric === 'object' && !Array.isArray(metric) ? metric : { value: metric };
+      const numbers = Array.isArray(value) ? value : [value];
+      if (numbers.length === 0 || !numbers.every((n) => Number.isFinite(n))) {
+        throw new Error(`[@arivlabs/logger] Metric "${name}" must be a finite number`);
+      }
+
+      const definition: MetricDefinition = { Name: name, Unit: unit ?? options.unit ?? 'None' };
+      if ((storageResolution ?? (highResolution ? 1 : 60)) === 1) {
+        definition.StorageResolution = 1;
+      }
+      definitions.push(definition);
+      fields[name] = value;
+    }
+
+    records.push({
+      ...options.properties,
+      ...dimensionValues,
+      ...fields,
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [
+          {
+            Namespace: context.namespace,
+            Dimensions: [dimensionNames],
+            Metrics: definitions,
+          },
+        ],
+      },
+    });
+  }
+
+  return records;
+}
@@ -0,0 +1,336 @@
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  createLogger,
+  createExpressMiddleware,
+  createFastifyPlugin,
+  createKoaMiddleware,
+  createHttpHandler,
+  levelForStatus,
+  type ArivLogger,
+} from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+  fn: (url: string) => Promise<void>
+): Promise<void> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+/** Wait for 'finish' listeners to run after the client has received the response */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('HTTP middleware', () => {
+  const originalEnv = process.env;
+  let output: CapturedOutput;
+  let logger: ArivLogger;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    output = captureDestination();
+    logger = createLogger({ service: 'my-service', pretty: false, level: 'debug' });
+  });
+
+  afterEach(() => {
+    output.restore();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('levelForStatus()', () => {
+    it('should map status codes to levels', () => {
+      expect(levelForStatus(200)).toBe('info');
+      expect(levelForStatus(302)).toBe('info');
+      expect(levelForStatus(404)).toBe('warn');
+      expect(levelForStatus(503)).toBe('error');
+    });
+  });
+
+  describe('createHttpHandler()', () => {
+    it('should log one completion line with status, duration and correlation ID', async () => {
+      const handler = createHttpHandler(logger, (req, res) => {
+        req.log?.info('Handling');
+        logger.info('Implicit context');
+        res.statusCode = 201;
+        res.end('ok');
+      });
+
+      await withServer(handler, async (url) => {
+        const response = await fetch(`${url}/users?id=1`, {
+          headers: { 'x-correlation-id': 'abc-123', authorization: 'Bearer secret' },
+        });
+        expect(response.headers.get('x-correlation-id')).toBe('abc-123');
+        await response.text();
+        await settle();
+      });
+
+      expect(output.lines).toHaveLength(3);
+      expect(output.lines[0]).toMatchObject({ msg: 'Handling', correlation_id: 'abc-123' });
+      expect(output.lines[1]).toMatchObject({ msg: 'Implicit context', correlation_id: 'abc-123' });
+
+      const completion = output.lines[2] as Record<string, any>;
+      expect(completion).toMatchObject({
+        level: 30,
+        msg: 'Request completed',
+        correlation_id: 'abc-123',
+        status_code: 201,
+      });
+      expect(typeof completion.duration_ms).toBe('number');
+      expect(completion.req.method).toBe('GET');
+      expect(completion.req.url).toBe('/users?id=1');
+      expect(completion.req.headers.authorization).toBe('[REDACTED]');
+    });
+
+    it('should generate a correlation ID when none is supplied', async () => {
+      const handler = createHttpHandler(
+        logger,
+        (_req, res) => {
+          res.end();
+        },
+        { generateId: () => 'generated-1' }
+      );
+
+      await withServer(handler, async (url) => {
+        const response = await fetch(url);
+        expect(response.headers.get('x-correlation-id')).toBe('generated-1');
+        await settle();
+      });
+
+      expect(output.lines[0].correlation_id).toBe('generated-1');
+    });
+
+    it('should derive the level from the status code', async () => {
+      const handler = createHttpHandler(logger, (req, res) => {
+        res.statusCode = req.url === '/missing' ? 404 : 500;
+        res.end();
+      });
+
+      await withServer(handler, async (url) => {
+        await fetch(`${url}/missing`);
+        await fetch(`${url}/broken`);
+        await settle();
+      });
+
+      expect(output.lines.map((line) => line.level)).toEqual([40, 50]);
+    });
+
+    it('should log a rejected handler and respond with 500', async () => {
+      const handler = createHttpHandler(logger, async () => {
+        throw new Error('Database unavailable');
+      });
+      let status = 0;
+
+      await withServer(handler, async (url) => {
+        status = (await fetch(`${url}/orders`)).status;
+        await settle();
+      });
+
+      expect(status).toBe(500);
+      expect(output.lines.map((line) => [line.level, line.msg])).toEqual([
+        [50, 'Request handler failed'],
+        [50, 'Request completed'],
+      ]);
+      expect(output.lines[0].err).toMatchObject({ message: 'Database unavailable' });
+      expect(output.lines[1]).toMatchObject({ status_code: 500 });
+      expect(output.lines[0].correlation_id).toBe(output.lines[1].correlation_id);
+    });
+
+    it('should skip ignored paths', async () => {
+      const handler = createHttpHandler(
+        logger,
+        (_req, res) => {
+          res.end();
+        },
+        { ignorePaths: ['/health', /^\/internal\//] }
+      );
+
+      await withServer(handler, async (url) => {
+        const response = await fetch(`${url}/health?probe=1`);
+        expect(response.headers.get('x-correlation-id')).toBeNull();
+        await fetch(`${url}/internal/metrics`);
+        await fetch(`${url}/api`);
+        await settle();
+      });
+
+      expect(output.lines).toHaveLength(1);
+      expect((output.lines[0] as Record<string, any>).req.url).toBe('/api');
+    });
+
+    it('should cap the logged response body', async () => {
+      const handler = createHttpHandler(
+        logger,
+        (_req, res) => {
+          res.write('a'.repeat(10));
+          res.end('b'.repeat(10));
+        },
+        { body: { response: true, maxBytes: 15 } }
+      );
+
+      await withServer(handler, async (url) => {
+        expect(await (await fetch(url)).text()).toHaveLength(20);
+        await settle();
+      });
+
+      expect(output.lines[0].response_body).toBe('aaaaaaaaaabbbbb...[truncated 20 bytes]');
+    });
+  });
+
+  describe('createExpressMiddleware()', () => {
+    it('should attach the scoped logger and redact parsed bodies', async () => {
+      const middleware = createExpressMiddleware(logger, {
+        domain: 'api',
+        body: { request: true },
+      });
+
+      await withServer(
+        (req, res) => {
+          middleware(req, res, () => {
+            (req as IncomingMessage & { body?: unknown }).body = {
+              username: 'jane',
+              password: 'hunter2',
+            };
+            (req as IncomingMessage & { log: ArivLogger }).log.info('In route');
+            res.end();
+          });
+        },
+        async (url) => {
+          await fetch(url, { method: 'POST', headers: { 'x-request-id': 'req-9' } });
+          await settle();
+        }
+      );
+
+      expect(output.lines[0]).toMatchObject({ msg: 'In route', domain: 'api' });
+      expect(output.lines[1]).toMatchObject({
+        correlation_id: 'req-9',
+        request_body: { username: 'jane', password: '[REDACTED]' },
+      });
+    });
+
+    it('should replace oversized object bodies with a size marker', async () => {
+      const middleware = createExpressMiddleware(logger, { body: { request: true, maxBytes: 8 } });
+
+      await withServer(
+        (req, res) => {
+          middleware(req, res, () => {
+            (req as IncomingMessage & { body?: unknown }).body = { large: 'x'.repeat(100) };
+            res.end();
+          });
+        },
+        async (url) => {
+          await fetch(url, { method: 'POST' });
+          await settle();
+        }
+      );
+
+      expect(output.lines[0].request_body).toMatch(/^\[Body omitted: \d+ bytes exceeds 8\]$/);
+    });
+
+    it('should log the request start when logStart is enabled', async () => {
+      const middleware = createExpressMiddleware(logger, { logStart: true });
+
+      await withServer(
+        (req, res) => middleware(req, res, () => res.end()),
+        async (url) => {
+          await fetch(url);
+          await settle();
+        }
+      );
+
+      expect(output.lines.map((line) => line.msg)).toEqual([
+        'Request received',
+        'Request completed',
+      ]);
+    });
+  });
+
+  describe('createKoaMiddleware()', () => {
+    const createContext = (headers: Record<string, string> = {}) => {
+      const responseHeaders: Record<string, string> = {};
+      return {
+        req: { headers, method: 'GET', url: '/items' } as unknown as IncomingMessage,
+        res: {} as ServerResponse,
+        path: '/items',
+        status: 404,
+        request: {},
+        set: (field: string, value: string) => {
+          responseHeaders[field] = value;
+        },
+        responseHeaders,
+      } as any;
+    };
+
+    it('should log completion with the final status and body', async () => {
+      const middleware = createKoaMiddleware(logger, { body: { response: true } });
+      const ctx = createContext({ 'x-correlation-id': 'koa-1' });
+
+      await middleware(ctx, async () => {
+        ctx.log.info('In handler');
+        ctx.status = 200;
+        ctx.body = { items: [] };
+      });
+
+      expect(ctx.responseHeaders['x-correlation-id']).toBe('koa-1');
+      expect(output.lines[1]).toMatchObject({
+        level: 30,
+        status_code: 200,
+        correlation_id: 'koa-1',
+        response_body: { items: [] },
+      });
+    });
+
+    it('should log thrown errors with their status and rethrow', async () => {
+      const middleware = createKoaMiddleware(logger);
+      const ctx = createContext();
+      const error = Object.assign(new Error('Forbidden'), { status: 403 });
+
+      await expect(
+        middleware(ctx, async () => {
+          throw error;
+        })
+      ).rejects.toBe(error);
+
+      expect(output.lines[0]).toMatchObject({ level: 40, status_code: 403 });
+    });
+  });
+
+  describe('createFastifyPlugin()', () => {
+    it('should register non-encapsulated hooks and log completion', () => {
+      const plugin = createFastifyPlugin(logger, { body: { response: true } });
+      const hooks: Record<string, (...args: any[]) => void> = {};
+      const done = jest.fn();
+
+      plugin({ addHook: (name, hook) => (hooks[name] = hook as any) }, {}, done);
+
+      expect(plugin[Symbol.for('skip-override')]).toBe(true);
+      expect(done).toHaveBeenCalled();
+
+      const request: any = {
+        raw: { headers: { 'x-correlation-id': 'fst-1' }, method: 'GET', url: '/x' },
+        url: '/x',
+      };
+      const reply: any = { raw: {}, statusCode: 503, header: jest.fn() };
+
+      hooks.onRequest(request, reply, () => request.log.info('In route'));
+      hooks.onSend(request, reply, '{"ok":false}', jest.fn());
+      hooks.onResponse(request, reply, jest.fn());
+
+      expect(reply.header).toHaveBeenCalledWith('x-correlation-id', 'fst-1');
+      expect(output.lines[0]).toMatchObject({ msg: 'In route', correlation_id: 'fst-1' });
+      expect(output.lines[1]).toMatchObject({
+        level: 50,
+        status_code: 503,
+        response_body: '{"ok":false}',
+      });
+    });
+  });
+});
@@ -0,0 +1,578 @@
+/**
+ * HTTP request/response logging middleware.
+ *
+ * First-party factories for Express, Fastify, Koa and plain node:http that replace the
+ * hand-written middleware every service used to carry:
+ * - Read the correlation ID from the request headers (or generate one)
+ * - Bind a scoped logger via `logger.withContext()` and attach it to the request
+ * - Run the rest of the request inside `runWithContext()` so the root logger picks it up
+ * - Log exactly one completion line per request, with status, duration and level by status
+ *
+ * All output goes through the wrapped ArivLogger, so DEFAULT_REDACT_PATHS (including
+ * `req.headers.authorization` and `req.headers.cookie`) and any custom redaction apply.
+ *
+ * The framework types are described structurally so the package does not depend on
+ * express, fastify or koa.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { runWithContext } from './context';
+import type { ArivLogger, LogData } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Body logging configuration.
+ * Object bodies are logged as-is (so path-based redaction applies) when their JSON size is
+ * within `maxBytes`; larger bodies are replaced with a size marker. String and Buffer bodies
+ * are cut to `maxBytes`.
+ */
+export interface HttpBodyLoggingOptions {
+  /** Log the request body as `request_body` (default: false) */
+  request?: boolean;
+  /** Log the response body as `response_body` (default: false) */
+  response?: boolean;
+  /** Maximum body size in bytes to include (default: 4096) */
+  maxBytes?: number;
+}
+
+/**
+ * Options shared by all HTTP middleware factories.
+ */
+export interface HttpLoggingOptions {
+  /**
+   * Request headers checked, in order, for an incoming correlation ID.
+   * Default: ['x-correlation-id', 'x-request-id']
+   */
+  correlationIdHeaders?: string[];
+
+  /**
+   * Response header used to echo the correlation ID back to the caller.
+   * Set to `false` to disable. Default: 'x-correlation-id'
+   */
+  responseHeader?: string | false;
+
+  /** Generate a correlation ID when none is supplied (default: crypto.randomUUID) */
+  generateId?: () => string;
+
+  /** Domain bound to request loggers (default: unset) */
+  domain?: string;
+
+  /**
+   * Paths that should not be logged (e.g. health checks).
+   * Strings match the path exactly (query string excluded), RegExps are tested against it.
+   */
+  ignorePaths?: (string | RegExp)[] | ((path: string) => boolean);
+
+  /** Property name used to attach the scoped logger to the request (default: 'log') */
+  attachAs?: string;
+
+  /** Also log a line when the request is received (default: false) */
+  logStart?: boolean;
+
+  /** Request and response body logging (default: disabled) */
+  body?: HttpBodyLoggingOptions;
+}
+
+/** Minimal Express-compatible request */
+export type ExpressRequestLike = IncomingMessage & { originalUrl?: string; body?: unknown };
+
+/** Express-compatible middleware */
+export type ExpressMiddleware = (
+  req: ExpressRequestLike,
+  res: ServerResponse,
+  next: (err?: unknown) => void
+) => void;
+
+/** Minimal Koa context */
+export interface KoaContextLike {
+  req: IncomingMessage;
+  res: ServerResponse;
+  path: string;
+  status: number;
+  body?: unknown;
+  request: { body?: unknown };
+  set(field: string, value: string): void;
+  [key: string]: unknown;
+}
+
+/** Koa-compatible middleware */
+export type KoaMiddleware = (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void>;
+
+/** Minimal Fastify request */
+export interface FastifyRequestLike {
+  raw: IncomingMessage;
+  url: string;
+  body?: unknown;
+  [key: string]: unknown;
+}
+
+/** Minimal Fastify reply */
+export interface FastifyReplyLike {
+  raw: ServerResponse;
+  statusCode: number;
+  header(field: string, value: string): unknown;
+}
+
+/** Minimal Fastify instance (only the hook API is used) */
+export interface FastifyInstanceLike {
+  addHook(name: string, hook: (...args: never[]) => unknown): unknown;
+}
+
+/** Fastify-compatible plugin (registered without encapsulation) */
+export type FastifyPlugin = ((
+  fastify: FastifyInstanceLike,
+  opts: unknown,
+  done: (err?: Error) => void
+) => void) & { [key: symbol]: unknown };
+
+/** Plain node:http request handler */
+export type HttpHandler = (
+  req: IncomingMessage & { log?: ArivLogger },
+  res: ServerResponse
+) => void | Promise<void>;
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+const DEFAULT_CORRELATION_HEADERS = ['x-correlation-id', 'x-request-id'];
+const DEFAULT_MAX_BODY_BYTES = 4096;
+
+/** Per-request logging handle shared by all framework adapters */
+interface RequestLogging {
+  log: ArivLogger;
+  correlationId: string;
+  /** Run downstream handlers with the request context active */
+  run<T>(fn: () => T): T;
+  /** Log the completion line (only the first call has an effect) */
+  finish(details: {
+    statusCode: number;
+    requestBody?: unknown;
+    responseBody?: unknown;
+    /** Response body already capped while it was written (node:http based adapters) */
+    capturedResponseBody?: string;
+  }): void;
+}
+
+function getPath(url: string | undefined): string {
+  if (!url) {
+    return '/';
+  }
+  const queryIndex = url.indexOf('?');
+  return queryIndex === -1 ? url : url.slice(0, queryIndex);
+}
+
+function isIgnored(path: string, ignorePaths: HttpLoggingOptions['ignorePaths']): boolean {
+  if (!ignorePaths) {
+    return false;
+  }
+  if (typeof ignorePaths === 'function') {
+    return ignorePaths(path);
+  }
+  return ignorePaths.some((pattern) =>
+    typeof pattern === 'string' ? pattern === path : pattern.test(path)
+  );
+}
+
+function readCorrelationId(req: IncomingMessage, headers: string[]): string | undefined {
+  for (const header of headers) {
+    const value = req.headers[header.toLowerCase()];
+    const id = Array.isArray(value) ? value[0] : value;
+    if (id) {
+      return id;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a response status code to a log level: 5xx → error, 4xx → warn, otherwise info.
+ */
+export function levelForStatus(statusCode: number): 'info' | 'warn' | 'error' {
+  if (statusCode >= 500) {
+    return 'error';
+  }
+  if (statusCode >= 400) {
+    return 'warn';
+  }
+  return 'info';
+}
+
+/**
+ * Cap a body to the configured size.
+ * Objects stay structured (so path-based redaction still applies) or become a size marker.
+ */
+function capBody(body: unknown, maxBytes: number): unknown {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    const text = typeof body === 'string' ? body : body.toString('utf8');
+    const size = Buffer.byteLength(text);
+    return size <= maxBytes ? text : `${text.slice(0, maxBytes)}...[truncated ${size} bytes]`;
+  }
+
+  let size: number;
+  try {
+    size = Buffer.byteLength(JSON.stringify(body) ?? '');
+  } catch {
+    return '[Unserializable body]';
+  }
+  return size <= maxBytes ? body : `[Body omitted: ${size} bytes exceeds ${maxBytes}]`;
+}
+
+/**
+ * Collect response body chunks written through res.write()/res.end(), up to maxBytes.
+ */
+function captureResponseBody(res: ServerResponse, maxBytes: number): () => string {
+  const chunks: Buffer[] = [];
+  let captured = 0;
+  let total = 0;
+
+  const collect = (chunk: unknown, encoding?: unknown) => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return;
+    }
+    const buffer = Buffer.isBuffer(chunk)
+      ? chunk
+      : Buffer.from(
+          String(chunk),
+          typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8'
+        );
+    total += buffer.length;
+    if (captured < maxBytes) {
+      const slice = buffer.subarray(0, maxBytes - captured);
+      chunks.push(slice);
+      captured += slice.length;
+    }
+  };
+
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+
+  res.write = function write(this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+    collect(chunk, args[0]);
+    return (originalWrite as (...a: unknown[]) => boolean).call(this, chunk, ...args);
+  } as ServerResponse['write'];
+
+  res.end = function end(this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+    collect(chunk, args[0]);
+    return (originalEnd as (...a: unknown[]) => ServerResponse).call(this, chunk, ...args);
+  } as ServerResponse['end'];
+
+  return () => {
+    const text = Buffer.concat(chunks).toString('utf8');
+    return total > captured ? `${text}...[truncated ${total} bytes]` : text;
+  };
+}
+
+/**
+ * Run a node:http handler; a thrown or rejected error is logged and answered with a 500
+ * (or the response is cut off if headers were already sent) instead of becoming an
+ * unhandled rejection.
+ */
+function invokeHandler(
+  handler: HttpHandler,
+  req: IncomingMessage,
+  res: ServerResponse,
+  log: ArivLogger
+): void {
+  new Promise<void>((resolve) => resolve(handler(req, res))).catch((err: unknown) => {
+    log.error('Request handler failed', { err });
+    if (!res.headersSent) {
+      res.statusCode = 500;
+      res.end();
+    } else if (!res.writableEnded) {
+      res.destroy();
+    }
+  });
+}
+
+/**
+ * Start logging a request. Returns null when the path is ignored.
+ */
+function beginRequest(
+  logger: ArivLogger,
+  options: HttpLoggingOptions,
+  req: IncomingMessage,
+  path: string
+): RequestLogging | null {
+  if (isIgnored(path, options.ignorePaths)) {
+    return null;
+  }
+
+  const start = process.hrtime.bigint();
+  const correlationId =
+    readCorrelationId(req, options.correlationIdHeaders ?? DEFAULT_CORRELATION_HEADERS) ??
+    (options.generateId ?? randomUUID)();
+  const context = { correlationId, domain: options.domain };
+  const log = logger.withContext(context);
+  const maxBytes = options.body?.maxBytes ?? DEFAULT_MAX_BODY_BYTES;
+  let finished = false;
+
+  if (options.logStart) {
+    log.info('Request received', { req });
+  }
+
+  return {
+    log,
+    correlationId,
+
+    run<T>(fn: () => T): T {
+      return runWithContext(context, fn);
+    },
+
+    finish({ statusCode, requestBody, responseBody, capturedResponseBody }): void {
+      if (finished) {
+        return;
+      }
+      finished = true;
+
+      const data: LogData = {
+        req,
+        status_code: statusCode,
+        duration_ms: Number(process.hrtime.bigint() - start) / 1e6,
+      };
+      if (options.body?.request) {
+        data.request_body = capBody(requestBody, maxBytes);
+      }
+      if (options.body?.response) {
+        data.response_body = capturedResponseBody ?? capBody(responseBody, maxBytes);
+      }
+
+      log[levelForStatus(statusCode)]('Request completed', data);
+    },
+  };
+}
+
+/**
+ * Wire completion logging to a node:http response (shared by Express and node:http).
+ */
+function trackNodeResponse(
+  tracking: RequestLogging,
+  options: HttpLoggingOptions,
+  req: ExpressRequestLike,
+  res: ServerResponse
+): void {
+  const readResponseBody = options.body?.response
+    ? captureResponseBody(res, options.body.maxBytes ?? DEFAULT_MAX_BODY_BYTES)
+    : undefined;
+
+  const onDone = () => {
+    res.removeListener('finish', onDone);
+    res.removeListener('close', onDone);
+    tracking.finish({
+      statusCode: res.statusCode,
+      requestBody: req.body,
+      capturedResponseBody: readResponseBody?.(),
+    });
+  };
+
+  res.on('finish', onDone);
+  res.on('close', onDone);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Create Express middleware that logs every request.
+ *
+ * @example
+ * ```typescript
+ * app.use(createExpressMiddleware(logger, { ignorePaths: ['/health'] }));
+ *
+ * app.get('/users/:id', (req, res) => {
+ *   req.log.info('Loading user'); // includes correlation_id
+ * });
+ * ```
+ */
+export function createExpressMiddleware(
+  logger: ArivLogger,
+  options: HttpLoggingOptions = {}
+): ExpressMiddleware {
+  const attachAs = options.attachAs ?? 'log';
+
+  return function arivLoggerMiddleware(req, res, next) {
+    const tracking = beginRequest(logger, options, req, getPath(req.originalUrl ?? req.url));
+    if (!tracking) {
+      next();
+      return;
+    }
+
+    (req as unknown as Record<string, unknown>)[attachAs] = tracking.log;
+    if (options.responseHeader !== false) {
+      res.setHeader(options.responseHeader ?? 'x-correlation-id', tracking.correlationId);
+    }
+
+    trackNodeResponse(tracking, options, req, res);
+    tracking.run(() => next());
+  };
+}
+
+/**
+ * Create a Koa middleware that logs every request.
+ * The scoped logger is attached as `ctx.log` (configurable via `attachAs`).
+ *
+ * @example
+ * ```typescript
+ * app.use(createKoaMiddleware(logger));
+ * ```
+ */
+export function createKoaMiddleware(
+  logger: ArivLogger,
+  options: HttpLoggingOptions = {}
+): KoaMiddleware {
+  const attachAs = options.attachAs ?? 'log';
+
+  return async function arivLoggerMiddleware(ctx, next) {
+    const tracking = beginRequest(logger, options, ctx.req, ctx.path);
+    if (!tracking) {
+      await next();
+      return;
+    }
+
+    ctx[attachAs] = tracking.log;
+    if (options.responseHeader !== false) {
+      ctx.set(options.responseHeader ?? 'x-correlation-id', tracking.correlationId);
+    }
+
+    try {
+      await tracking.run(() => next());
+    } catch (err) {
+      // Koa's default error handler responds with the error status (or 500)
+      const status = (err as { status?: number; statusCode?: number }).status;
+      tracking.finish({ statusCode: typeof status === 'number' ? status : 500 });
+      throw err;
+    }
+
+    tracking.finish({
+      statusCode: ctx.status,
+      requestBody: ctx.request.body,
+      responseBody: ctx.body,
+    });
+  };
+}
+
+/**
+ * Create a Fastify plugin that logs every request.
+ * The plugin skips encapsulation, so its hooks apply to every route.
+ * The scoped logger replaces `request.log` (configurable via `attachAs`).
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(createFastifyPlugin(logger, { ignorePaths: ['/health'] }));
+ * ```
+ */
+export function createFastifyPlugin(
+  logger: ArivLogger,
+  options: HttpLoggingOptions = {}
+): FastifyPlugin {
+  const attachAs = options.attachAs ?? 'log';
+  const requests = new WeakMap<object, { tracking: RequestLogging; responseBody?: unknown }>();
+
+  const plugin = ((fastify: FastifyInstanceLike, _opts: unknown, done: () => void) => {
+    fastify.addHook('onRequest', ((
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      hookDone: () => void
+    ) => {
+      const tracking = beginRequest(logger, options, request.raw, getPath(request.url));
+      if (!tracking) {
+        hookDone();
+        return;
+      }
+
+      requests.set(request, { tracking });
+      request[attachAs] = tracking.log;
+      if (options.responseHeader !== false) {
+        reply.header(options.responseHeader ?? 'x-correlation-id', tracking.correlationId);
+      }
+      tracking.run(() => hookDone());
+    }) as (...args: never[]) => unknown);
+
+    if (options.body?.response) {
+      fastify.addHook('onSend', ((
+        request: FastifyRequestLike,
+        _reply: FastifyReplyLike,
+        payload: unknown,
+        hookDone: (err: null, payload: unknown) => void
+      ) => {
+        const entry = requests.get(request);
+        if (entry) {
+          entry.responseBody = payload;
+        }
+        hookDone(null, payload);
+      }) as (...args: never[]) => unknown);
+    }
+
+    fastify.addHook('onResponse', ((
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      hookDone: () => void
+    ) => {
+      const entry = requests.get(request);
+      if (entry) {
+        entry.tracking.finish({
+          statusCode: reply.statusCode,
+          requestBody: request.body,
+          responseBody: entry.responseBody,
+        });
+      }
+      hookDone();
+    }) as (...args: never[]) => unknown);
+
+    done();
+  }) as FastifyPlugin;
+
+  // Equivalent of wrapping with fastify-plugin: hooks apply outside the plugin's scope
+  plugin[Symbol.for('skip-override')] = true;
+  plugin[Symbol.for('fastify.display-name')] = '@arivlabs/logger';
+
+  return plugin;
+}
+
+/**
+ * Wrap a plain node:http request handler with request logging.
+ * The scoped logger is attached as `req.log` (configurable via `attachAs`). Errors thrown
+ * or rejected by the handler are logged and answered with a 500.
+ *
+ * @example
+ * ```typescript
+ * const server = http.createServer(
+ *   createHttpHandler(logger, (req, res) => {
+ *     req.log?.info('Handling');
+ *     res.end('ok');
+ *   })
+ * );
+ * ```
+ */
+export function createHttpHandler(
+  logger: ArivLogger,
+  handler: HttpHandler,
+  options: HttpLoggingOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const attachAs = options.attachAs ?? 'log';
+
+  return function arivLoggerHandler(req, res) {
+    const tracking = beginRequest(logger, options, req, getPath(req.url));
+    if (!tracking) {
+      invokeHandler(handler, req, res, logger);
+      return;
+    }
+
+    (req as unknown as Record<string, unknown>)[attachAs] = tracking.log;
+    if (options.responseHeader !== false) {
+      res.setHeader(options.responseHeader ?? 'x-correlation-id', tracking.correlationId);
+    }
+
+    trackNodeResponse(tracking, options, req, res);
+    tracking.run(() => invokeHandler(handler, req, res, tracking.log));
+  };
+}
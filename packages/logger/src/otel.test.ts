@@ -0,0 +1,128 @@
+import { context, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { createLogger } from './index';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('OpenTelemetry integration', () => {
+  const originalEnv = process.env;
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const contextManager = new AsyncLocalStorageContextManager();
+  let output: CapturedOutput;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+    trace.setGlobalTracerProvider(provider);
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    process.env = originalEnv;
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    exporter.reset();
+    output = captureDestination();
+  });
+
+  afterEach(() => {
+    output.restore();
+  });
+
+  it('should add trace_id, span_id and trace_flags inside an active span', () => {
+    const logger = createLogger({ service: 'my-service', pretty: false, otel: true });
+    const tracer = trace.getTracer('test');
+
+    tracer.startActiveSpan('operation', (span) => {
+      logger.info('Inside span');
+      span.end();
+    });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(output.lines[0]).toMatchObject({
+      msg: 'Inside span',
+      trace_id: span.spanContext().traceId,
+      span_id: span.spanContext().spanId,
+      trace_flags: '01',
+    });
+  });
+
+  it('should follow the active span across async boundaries', async () => {
+    const logger = createLogger({ service: 'my-service', pretty: false, otel: true });
+    const tracer = trace.getTracer('test');
+
+    await tracer.startActiveSpan('parent', async (parent) => {
+      await tracer.startActiveSpan('child', async (child) => {
+        await Promise.resolve();
+        logger.domain('auth').info('In child');
+        child.end();
+      });
+      logger.info('In parent');
+      parent.end();
+    });
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(output.lines[0].span_id).toBe(child.spanContext().spanId);
+    expect(output.lines[1].span_id).toBe(parent.spanContext().spanId);
+    expect(output.lines[0].trace_id).toBe(output.lines[1].trace_id);
+  });
+
+  it('should omit trace fields when no span is active', () => {
+    const logger = createLogger({ service: 'my-service', pretty: false, otel: true });
+
+    logger.info('No span');
+
+    expect(output.lines[0].trace_id).toBeUndefined();
+    expect(output.lines[0].span_id).toBeUndefined();
+  });
+
+  it('should support custom field names', () => {
+    const logger = createLogger({
+      service: 'my-service',
+      pretty: false,
+      otel: { traceIdKey: 'traceId', spanIdKey: 'spanId', traceFlagsKey: 'traceFlags' },
+    });
+
+    trace.getTracer('test').startActiveSpan('operation', (span) => {
+      logger.info('Custom keys');
+      span.end();
+    });
+
+    expect(output.lines[0]).toHaveProperty('traceId');
+    expect(output.lines[0]).toHaveProperty('spanId');
+    expect(output.lines[0]).toHaveProperty('traceFlags', '01');
+    expect(output.lines[0].trace_id).toBeUndefined();
+  });
+
+  it('should not inject trace fields unless enabled', () => {
+    const logger = createLogger({ service: 'my-service', pretty: false });
+
+    trace.getTracer('test').startActiveSpan('operation', (span) => {
+      logger.info('Disabled');
+      span.end();
+    });
+
+    expect(output.lines[0].trace_id).toBeUndefined();
+  });
+
+  it('should fall back to a no-op when @opentelemetry/api is not installed', () => {
+    jest.isolateModules(() => {
+      jest.doMock('@opentelemetry/api', () => {
+        throw new Error("Cannot find module '@opentelemetry/api'");
+      });
+      const { createOtelMixin } = jest.requireActual<typeof import('./otel')>('./otel');
+      expect(createOtelMixin()).toBeUndefined();
+    });
+    jest.dontMock('@opentelemetry/api');
+  });
+});
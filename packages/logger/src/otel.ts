@@ -0,0 +1,105 @@
+/**
+ * OpenTelemetry trace/span ID injection.
+ *
+ * Reads the active span from `@opentelemetry/api` (an optional peer dependency) and adds
+ * its trace ID, span ID and trace flags to every log record via pino's `mixin`, so logs
+ * can be joined with traces in CloudWatch, X-Ray or any OTel backend.
+ *
+ * When `@opentelemetry/api` is not installed, injection is silently disabled.
+ * When it is installed but no SDK is registered (or no span is active), records are
+ * written without trace fields.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * OpenTelemetry integration options.
+ */
+export interface OtelConfig {
+  /** Field name for the trace ID (default: 'trace_id') */
+  traceIdKey?: string;
+  /** Field name for the span ID (default: 'span_id') */
+  spanIdKey?: string;
+  /** Field name for the trace flags, as a two-digit hex string (default: 'trace_flags') */
+  traceFlagsKey?: string;
+}
+
+/** Subset of `@opentelemetry/api` used here (kept structural to avoid a hard dependency) */
+interface OtelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+interface OtelApi {
+  trace: {
+    getActiveSpan(): { spanContext(): OtelSpanContext } | undefined;
+  };
+  isSpanContextValid?(spanContext: OtelSpanContext): boolean;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+const INVALID_TRACE_ID = '00000000000000000000000000000000';
+
+/**
+ * Load `@opentelemetry/api` if it is installed.
+ * Returns null when the package cannot be resolved.
+ */
+function loadOtelApi(): OtelApi | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require('@opentelemetry/api') as OtelApi;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// MIXIN
+// =============================================================================
+
+/**
+ * Create a pino mixin that injects the active span's identifiers.
+ * Returns undefined when `@opentelemetry/api` is not installed (no-op fallback).
+ *
+ * @internal Used by createLogger() when `otel` is enabled.
+ */
+export function createOtelMixin(
+  config: OtelConfig = {}
+): (() => Record<string, unknown>) | undefined {
+  const api = loadOtelApi();
+  if (!api) {
+    return undefined;
+  }
+
+  const traceIdKey = config.traceIdKey ?? 'trace_id';
+  const spanIdKey = config.spanIdKey ?? 'span_id';
+  const traceFlagsKey = config.traceFlagsKey ?? 'trace_flags';
+
+  return function otelMixin(): Record<string, unknown> {
+    // pino merges log data into the returned object, so always return a fresh one
+    const span = api.trace.getActiveSpan();
+    if (!span) {
+      return {};
+    }
+
+    const spanContext = span.spanContext();
+    const isValid = api.isSpanContextValid
+      ? api.isSpanContextValid(spanContext)
+      : spanContext.traceId !== INVALID_TRACE_ID;
+    if (!isValid) {
+      return {};
+    }
+
+    return {
+      [traceIdKey]: spanContext.traceId,
+      [spanIdKey]: spanContext.spanId,
+      [traceFlagsKey]: spanContext.traceFlags.toString(16).padStart(2, '0'),
+    };
+  };
+}
@@ -0,0 +1,330 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { captureDestination } from './test-utils/capture';
+import { createLogger, type LoggerConfig } from './index';
+import { severityNumber, toLogRecord } from './otlp';
+
+interface ExportCall {
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface WireField {
+  field: number;
+  /** Varints and fixed-size values as bigint, length-delimited values as Buffer */
+  value: bigint | Buffer;
+}
+
+/** Decode one level of a protobuf message */
+function decode(buf: Buffer): WireField[] {
+  const fields: WireField[] = [];
+  let pos = 0;
+  const readVarint = () => {
+    let result = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const byte = buf[pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) {
+        return result;
+      }
+    }
+  };
+  while (pos < buf.length) {
+    const key = Number(readVarint());
+    const wireType = key & 7;
+    let value: bigint | Buffer;
+    if (wireType === 0) {
+      value = readVarint();
+    } else if (wireType === 1) {
+      value = buf.readBigUInt64LE(pos);
+      pos += 8;
+    } else if (wireType === 5) {
+      value = BigInt(buf.readUInt32LE(pos));
+      pos += 4;
+    } else {
+      const length = Number(readVarint());
+      value = buf.subarray(pos, pos + length);
+      pos += length;
+    }
+    fields.push({ field: key >> 3, value });
+  }
+  return fields;
+}
+
+const get = (fields: WireField[], field: number) => fields.filter((f) => f.field === field);
+const message = (fields: WireField[], field: number) =>
+  decode(get(fields, field)[0].value as Buffer);
+const text = (fields: WireField[], field: number) =>
+  (get(fields, field)[0].value as Buffer).toString();
+
+describe('OTLP exporter', () => {
+  const originalEnv = process.env;
+  let server: Server;
+  let endpoint: string;
+  let calls: ExportCall[];
+  /** Scripted response statuses; anything else succeeds */
+  let statuses: number[];
+  /** Scripted response bodies; anything else is `{}` */
+  let bodies: string[];
+
+  const create = (config: Partial<LoggerConfig> = {}) =>
+    createLogger({
+      service: 'my-service',
+      environment: 'test',
+      level: 'debug',
+      destinations: [{ target: { write: () => {} } }],
+      ...config,
+      otlp: { endpoint, protocol: 'http/json', retryBaseDelayMs: 1, ...config.otlp },
+    });
+
+  /** JSON export requests flattened to their log records */
+  const jsonRecords = () =>
+    calls.flatMap(
+      (call) =>
+        JSON.parse(call.body.toString()).resourceLogs[0].scopeLogs[0].logRecords as Record<
+          string,
+          unknown
+        >[]
+    );
+
+  const attributes = (record: Record<string, unknown>) =>
+    Object.fromEntries(
+      (record.attributes as { key: string; value: Record<string, unknown> }[]).map((kv) => [
+        kv.key,
+        Object.values(kv.value)[0],
+      ])
+    );
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        calls.push({ headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(statuses.shift() ?? 200, { 'content-type': 'application/json' });
+        res.end(bodies.shift() ?? '{}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs`;
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    calls = [];
+    statuses = [];
+    bodies = [];
+  });
+
+  it('should export JSON log records with resource and log attributes on shutdown', async () => {
+    const logger = create({ base: { version: '1.2.3' } });
+
+    logger
+      .withContext({ correlationId: 'corr-1', tenantId: 'tenant-1' })
+      .warn('Quota almost reached', { used: 95, ratio: 0.95 });
+    await logger.shutdown();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].headers['content-type']).toBe('application/json');
+    const request = JSON.parse(calls[0].body.toString());
+    expect(request.resourceLogs[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'my-service' } },
+      { key: 'deployment.environment.name', value: { stringValue: 'test' } },
+      { key: 'version', value: { stringValue: '1.2.3' } },
+    ]);
+    expect(request.resourceLogs[0].scopeLogs[0].scope).toEqual({ name: '@arivlabs/logger' });
+
+    const [record] = jsonRecords();
+    expect(record).toMatchObject({
+      severityNumber: 13,
+      severityText: 'warn',
+      body: { stringValue: 'Quota almost reached' },
+      timeUnixNano: expect.stringMatching(/^\d{19}$/),
+    });
+    expect(attributes(record)).toEqual({
+      correlation_id: 'corr-1',
+      tenant_id: 'tenant-1',
+      used: '95',
+      ratio: 0.95,
+    });
+  });
+
+  it('should encode the same request as protobuf', async () => {
+    const logger = create({ otlp: { protocol: 'http/protobuf' } });
+
+    logger.withContext({ correlationId: 'corr-1' }).error('Failed');
+    await logger.shutdown();
+
+    expect(calls[0].headers['content-type']).toBe('application/x-protobuf');
+    const resourceLogs = message(decode(calls[0].body), 1);
+    const resourceAttribute = message(message(resourceLogs, 1), 1);
+    expect(text(resourceAttribute, 1)).toBe('service.name');
+    expect(text(message(resourceAttribute, 2), 1)).toBe('my-service');
+
+    const scopeLogs = message(resourceLogs, 2);
+    expect(text(message(scopeLogs, 1), 1)).toBe('@arivlabs/logger');
+    const record = message(scopeLogs, 2);
+    expect(get(record, 2)[0].value).toBe(17n);
+    expect(text(record, 3)).toBe('error');
+    expect(text(message(record, 5), 1)).toBe('Failed');
+    const attribute = message(record, 6);
+    expect(text(attribute, 1)).toBe('correlation_id');
+    expect(text(message(attribute, 2), 1)).toBe('corr-1');
+    const time = get(record, 1)[0].value as bigint;
+    expect(Number(time / 1_000_000n)).toBeGreaterThan(Date.now() - 60_000);
+  });
+
+  it('should map errors, trace context and nested values', () => {
+    const line = JSON.stringify({
+      level: 50,
+      time: '2026-01-01T00:00:00.000Z',
+      service: 'my-service',
+      msg: 'Failed',
+      err: { type: 'TypeError', message: 'boom', stack: 'TypeError: boom', code: 'E1' },
+      trace_id: '0af7651916cd43dd8448eb211c80319c',
+      span_id: 'b7ad6b7169203331',
+      trace_flags: '01',
+      job: { ids: [1, 2], ok: true, note: null },
+    });
+
+    const record = toLogRecord(line, {
+      resourceFields: { service: 'my-service' },
+      traceKeys: { traceId: 'trace_id', spanId: 'span_id', traceFlags: 'trace_flags' },
+    });
+
+    expect(record).toMatchObject({
+      timeUnixNano: '1767225600000000000',
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      flags: 1,
+    });
+    expect(record.attributes).toEqual([
+      {
+        key: 'job',
+        value: {
+          kvlistValue: {
+            values: [
+              {
+                key: 'ids',
+                value: { arrayValue: { values: [{ intValue: '1' }, { intValue: '2' }] } },
+              },
+              { key: 'ok', value: { boolValue: true } },
+              { key: 'note', value: {} },
+            ],
+          },
+        },
+      },
+      { key: 'exception.type', value: { stringValue: 'TypeError' } },
+      { key: 'exception.message', value: { stringValue: 'boom' } },
+      { key: 'exception.stacktrace', value: { stringValue: 'TypeError: boom' } },
+      {
+        key: 'err',
+        value: { kvlistValue: { values: [{ key: 'code', value: { stringValue: 'E1' } }] } },
+      },
+    ]);
+  });
+
+  it('should map pino levels to severity numbers', () => {
+    expect([10, 20, 30, 40, 50, 60].map(severityNumber)).toEqual([1, 5, 9, 13, 17, 21]);
+  });
+
+  it('should retry retryable statuses and count exported records', async () => {
+    statuses = [503, 429];
+    const logger = create();
+
+    logger.info('Retried');
+    await logger.shutdown();
+
+    expect(calls).toHaveLength(3);
+    expect(logger.getBufferMetrics().otlp).toEqual({
+      queued: 0,
+      exported: 1,
+      droppedQueueFull: 0,
+      droppedExportFailed: 0,
+    });
+  });
+
+  it('should count a 2xx response with a non-JSON body as exported', async () => {
+    bodies = ['OK'];
+    const onError = jest.fn();
+    const logger = create({ otlp: { onError } });
+
+    logger.info('Accepted');
+    await logger.shutdown();
+
+    expect(calls).toHaveLength(1);
+    expect(logger.getBufferMetrics().otlp).toMatchObject({ exported: 1, droppedExportFailed: 0 });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should count records dropped by a full queue or a failed export', async () => {
+    statuses = [400];
+    const onError = jest.fn();
+    const logger = create({
+      otlp: { maxQueueSize: 3, maxBatchSize: 10, scheduledDelayMs: 60_000, onError },
+    });
+
+    for (let i = 0; i < 5; i++) {
+      logger.info(`Line ${i}`);
+    }
+    expect(logger.getBufferMetrics().otlp).toMatchObject({ queued: 3, droppedQueueFull: 2 });
+    await logger.shutdown();
+
+    expect(calls).toHaveLength(1);
+    expect(logger.getBufferMetrics().otlp).toMatchObject({
+      queued: 0,
+      exported: 0,
+      droppedExportFailed: 3,
+    });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Dropped 3 log records: Export failed: HTTP 400' })
+    );
+  });
+
+  it('should honor the exporter level and keep stdout when no destinations are set', async () => {
+    const stdout = captureDestination();
+    const logger = createLogger({
+      service: 'my-service',
+      level: 'debug',
+      pretty: false,
+      enableAsync: false,
+      otlp: { endpoint, protocol: 'http/json', level: 'info' },
+    });
+
+    logger.debug('Local only');
+    logger.info('Exported');
+    await logger.shutdown();
+    stdout.restore();
+
+    expect(stdout.lines.map((line) => line.msg)).toEqual(['Local only', 'Exported']);
+    expect(jsonRecords().map((r) => (r.body as { stringValue: string }).stringValue)).toEqual([
+      'Exported',
+    ]);
+  });
+
+  it('should stop exporting after shutdown', async () => {
+    const logger = create({ otlp: { scheduledDelayMs: 5 } });
+
+    logger.info('Before shutdown');
+    await logger.shutdown();
+    logger.info('After shutdown');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(jsonRecords().map((r) => (r.body as { stringValue: string }).stringValue)).toEqual([
+      'Before shutdown',
+    ]);
+    expect(logger.getBufferMetrics().otlp).toMatchObject({ queued: 0, exported: 1 });
+  });
+
+  it('should reject unsupported protocols', () => {
+    expect(() => create({ otlp: { protocol: 'grpc' as 'http/json' } })).toThrow(
+      'Unsupported OTLP protocol "grpc"'
+    );
+  });
+});
@@ -0,0 +1,585 @@
+/**
+ * OTLP/HTTP logs exporter.
+ *
+ * Exports records as OpenTelemetry log records to a Collector (or any OTLP/HTTP receiver),
+ * encoded as JSON or protobuf:
+ * - `level` becomes `severityNumber`/`severityText` (trace → 1, debug → 5, info → 9,
+ *   warn → 13, error → 17, fatal → 21), `msg` the body and `time` the timestamp
+ * - `service`, `environment` and `base` fields become resource attributes
+ *   (`service.name`, `deployment.environment.name`, ...) instead of repeating on every record
+ * - Other fields, including `correlation_id` and `tenant_id`, become log attributes;
+ *   `err` becomes `exception.type`/`exception.message`/`exception.stacktrace`
+ * - Trace fields injected by the `otel` option become the record's trace and span ID
+ *
+ * Design notes:
+ * - No OpenTelemetry SDK dependency: the exporter reads the JSON lines pino writes and
+ *   encodes the OTLP request itself (the protobuf subset needed for logs is small)
+ * - Batched like the SDK's BatchLogRecordProcessor: a bounded queue, an export every
+ *   `scheduledDelayMs` or when a batch is full, one request in flight at a time
+ * - 429/502/503/504 and network errors are retried with exponential backoff; records that
+ *   cannot be queued or exported are counted in `stats()`. With `spool`, batches still
+ *   failing after the retries are kept on disk and replayed later
+ * - shutdown() drains the queue; the handleExceptions crash path cannot wait for it
+ */
+
+import pino from 'pino';
+import { createSpool, type SpoolConfig, type SpoolStats } from './spool';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** OTLP/HTTP encodings */
+export type OtlpProtocol = 'http/protobuf' | 'http/json';
+
+/**
+ * OTLP exporter configuration.
+ *
+ * @example
+ * otlp: { endpoint: 'http://otel-collector:4318/v1/logs', protocol: 'http/json' }
+ */
+export interface OtlpConfig {
+  /**
+   * Logs endpoint (default: OTEL_EXPORTER_OTLP_LOGS_ENDPOINT, else
+   * OTEL_EXPORTER_OTLP_ENDPOINT + `/v1/logs`, else `http://localhost:4318/v1/logs`)
+   */
+  endpoint?: string;
+  /** Encoding (default: OTEL_EXPORTER_OTLP_PROTOCOL, else 'http/protobuf') */
+  protocol?: OtlpProtocol;
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>;
+  /** Minimum level exported (default: 'trace', i.e. everything the logger writes) */
+  level?: string;
+  /** Records per export request (default: 512) */
+  maxBatchSize?: number;
+  /** Records queued before new ones are dropped (default: 2048) */
+  maxQueueSize?: number;
+  /** Export queued records at least this often (default: 1000) */
+  scheduledDelayMs?: number;
+  /** Timeout of one export request (default: 10000) */
+  exportTimeoutMs?: number;
+  /** Retries for 429/502/503/504 and network errors (default: 5) */
+  maxRetries?: number;
+  /** First retry delay; doubles on every retry (default: 200) */
+  retryBaseDelayMs?: number;
+  /** Called when a batch is dropped (default: console.error) */
+  onError?: (err: Error) => void;
+  /**
+   * Keep batches on disk while the receiver is unreachable (after retries) and replay them
+   * in order once it recovers
+   */
+  spool?: SpoolConfig;
+}
+
+/** Exporter counters, reported by getBufferMetrics().otlp */
+export interface OtlpExporterStats {
+  /** Records waiting to be exported */
+  queued: number;
+  /** Records accepted by the receiver */
+  exported: number;
+  /** Records dropped because the queue was full */
+  droppedQueueFull: number;
+  /** Records dropped after failed exports, or rejected by the receiver */
+  droppedExportFailed: number;
+  /** Spool counters (only with `spool`) */
+  spool?: SpoolStats;
+}
+
+/** @internal */
+export interface OtlpExporterOptions extends OtlpConfig {
+  /** Resource attributes (service.name, deployment.environment.name, base fields) */
+  resource: Record<string, unknown>;
+  /** Record fields already described by the resource, dropped when their value matches */
+  resourceFields: Record<string, unknown>;
+  /** Field names written by the `otel` option */
+  traceKeys?: { traceId: string; spanId: string; traceFlags: string };
+}
+
+/** @internal */
+export interface OtlpExporter {
+  /** Queue one record (called by pino) */
+  write(line: string): void;
+  /** Export everything queued, then call `cb` */
+  flush(cb?: () => void): void;
+  /** Stop the export timer and export everything queued */
+  close(): Promise<void>;
+  stats(): OtlpExporterStats;
+}
+
+/** OTLP AnyValue in its JSON form; also the input of the protobuf encoder */
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: AnyValue[] } }
+  | { kvlistValue: { values: KeyValue[] } }
+  | Record<string, never>;
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+interface LogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: AnyValue;
+  attributes: KeyValue[];
+  traceId?: string;
+  spanId?: string;
+  flags?: number;
+}
+
+interface ExportRequest {
+  resourceLogs: {
+    resource: { attributes: KeyValue[] };
+    scopeLogs: { scope: { name: string }; logRecords: LogRecord[] }[];
+  }[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_ENDPOINT = 'http://localhost:4318/v1/logs';
+const SCOPE_NAME = '@arivlabs/logger';
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const MAX_RETRY_DELAY_MS = 20_000;
+
+/** Fields that map onto the log record itself rather than attributes */
+const RECORD_FIELDS = new Set(['level', 'time', 'msg', 'err']);
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+/**
+ * Map a pino level number to an OTel SeverityNumber (1-24).
+ * @internal
+ */
+export function severityNumber(level: number): number {
+  // trace (10) → 1, debug (20) → 5, ..., fatal (60) → 21; custom levels in between round down
+  return Math.min(24, Math.max(1, Math.floor(level / 10) * 4 - 3));
+}
+
+function toAnyValue(value: unknown): AnyValue {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  if (value !== null && typeof value === 'object') {
+    return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } };
+  }
+  return {};
+}
+
+function toKeyValues(fields: Record<string, unknown>): KeyValue[] {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * Convert one pino JSON line to an OTLP log record.
+ * @internal
+ */
+export function toLogRecord(
+  line: string,
+  options: Pick<OtlpExporterOptions, 'resourceFields' | 'traceKeys'>,
+  observedMs = Date.now()
+): LogRecord {
+  let record: Record<string, unknown>;
+  try {
+    record = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    record = { msg: line.trimEnd() };
+  }
+
+  const level = typeof record.level === 'number' ? record.level : 30;
+  const timeMs = typeof record.time === 'string' ? Date.parse(record.time) : NaN;
+  const attributes: Record<string, unknown> = {};
+  const traceKeys = options.traceKeys;
+  const traceFields = traceKeys
+    ? new Set([traceKeys.traceId, traceKeys.spanId, traceKeys.traceFlags])
+    : undefined;
+
+  for (const [key, value] of Object.entries(record)) {
+    const isResource = key in options.resourceFields && options.resourceFields[key] === value;
+    if (!RECORD_FIELDS.has(key) && !isResource && !traceFields?.has(key)) {
+      attributes[key] = value;
+    }
+  }
+
+  // Semantic conventions for exceptions
+  const err = record.err as { type?: string; message?: string; stack?: string } | undefined;
+  if (err && typeof err === 'object') {
+    const { type, message, stack, ...rest } = err;
+    Object.assign(attributes, {
+      'exception.type': type,
+      'exception.message': message,
+      'exception.stacktrace': stack,
+    });
+    if (Object.keys(rest).length > 0) {
+      attributes.err = rest;
+    }
+  }
+
+  const logRecord: LogRecord = {
+    timeUnixNano: toUnixNano(Number.isNaN(timeMs) ? observedMs : timeMs),
+    observedTimeUnixNano: toUnixNano(observedMs),
+    severityNumber: severityNumber(level),
+    severityText: pino.levels.labels[level] ?? String(level),
+    body: toAnyValue(record.msg ?? ''),
+    attributes: toKeyValues(attributes),
+  };
+
+  if (traceKeys && typeof record[traceKeys.traceId] === 'string') {
+    logRecord.traceId = record[traceKeys.traceId] as string;
+    logRecord.spanId = record[traceKeys.spanId] as string;
+    logRecord.flags = parseInt(String(record[traceKeys.traceFlags] ?? '0'), 16) || 0;
+  }
+  return logRecord;
+}
+
+const toUnixNano = (ms: number) => (BigInt(Math.round(ms)) * 1_000_000n).toString();
+
+// =============================================================================
+// PROTOBUF ENCODING
+// =============================================================================
+
+// Field numbers from opentelemetry/proto/{collector/logs,logs,common,resource}/v1
+
+function varint(value: bigint): Buffer {
+  const bytes: number[] = [];
+  let n = BigInt.asUintN(64, value);
+  do {
+    let byte = Number(n & 0x7fn);
+    n >>= 7n;
+    if (n > 0n) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (n > 0n);
+  return Buffer.from(bytes);
+}
+
+const tag = (field: number, wireType: number) => varint(BigInt((field << 3) | wireType));
+
+const pbVarint = (field: number, value: number | bigint) =>
+  Buffer.concat([tag(field, 0), varint(BigInt(value))]);
+
+const pbBytes = (field: number, bytes: Buffer) =>
+  Buffer.concat([tag(field, 2), varint(BigInt(bytes.length)), bytes]);
+
+const pbString = (field: number, value: string) => pbBytes(field, Buffer.from(value, 'utf8'));
+
+function pbFixed64(field: number, value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return Buffer.concat([tag(field, 1), buf]);
+}
+
+function pbFixed32(field: number, value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return Buffer.concat([tag(field, 5), buf]);
+}
+
+function pbDouble(field: number, value: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeDoubleLE(value);
+  return Buffer.concat([tag(field, 1), buf]);
+}
+
+function encodeAnyValue(value: AnyValue): Buffer {
+  if ('stringValue' in value) {
+    return pbString(1, value.stringValue);
+  }
+  if ('boolValue' in value) {
+    return pbVarint(2, value.boolValue ? 1 : 0);
+  }
+  if ('intValue' in value) {
+    return pbVarint(3, BigInt(value.intValue));
+  }
+  if ('doubleValue' in value) {
+    return pbDouble(4, value.doubleValue);
+  }
+  if ('arrayValue' in value) {
+    return pbBytes(
+      5,
+      Buffer.concat(value.arrayValue.values.map((v) => pbBytes(1, encodeAnyValue(v))))
+    );
+  }
+  if ('kvlistValue' in value) {
+    return pbBytes(
+      6,
+      Buffer.concat(value.kvlistValue.values.map((kv) => pbBytes(1, encodeKeyValue(kv))))
+    );
+  }
+  return Buffer.alloc(0);
+}
+
+const encodeKeyValue = (kv: KeyValue) =>
+  Buffer.concat([pbString(1, kv.key), pbBytes(2, encodeAnyValue(kv.value))]);
+
+const encodeAttributes = (field: number, attributes: KeyValue[]) =>
+  Buffer.concat(attributes.map((kv) => pbBytes(field, encodeKeyValue(kv))));
+
+function encodeLogRecord(record: LogRecord): Buffer {
+  const parts = [
+    pbFixed64(1, BigInt(record.timeUnixNano)),
+    pbVarint(2, record.severityNumber),
+    pbString(3, record.severityText),
+    pbBytes(5, encodeAnyValue(record.body)),
+    encodeAttributes(6, record.attributes),
+  ];
+  if (record.flags !== undefined) {
+    parts.push(pbFixed32(8, record.flags));
+  }
+  if (record.traceId) {
+    parts.push(pbBytes(9, Buffer.from(record.traceId, 'hex')));
+  }
+  if (record.spanId) {
+    parts.push(pbBytes(10, Buffer.from(record.spanId, 'hex')));
+  }
+  parts.push(pbFixed64(11, BigInt(record.observedTimeUnixNano)));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Encode an export request as an `ExportLogsServiceRequest` protobuf message.
+ * @internal
+ */
+export function encodeExportRequest(request: ExportRequest): Buffer {
+  return Buffer.concat(
+    request.resourceLogs.map((resourceLogs) =>
+      pbBytes(
+        1,
+        Buffer.concat([
+          pbBytes(1, encodeAttributes(1, resourceLogs.resource.attributes)),
+          ...resourceLogs.scopeLogs.map((scopeLogs) =>
+            pbBytes(
+              2,
+              Buffer.concat([
+                pbBytes(1, pbString(1, scopeLogs.scope.name)),
+                ...scopeLogs.logRecords.map((record) => pbBytes(2, encodeLogRecord(record))),
+              ])
+            )
+          ),
+        ])
+      )
+    )
+  );
+}
+
+// =============================================================================
+// EXPORTER
+// =============================================================================
+
+function defaultEndpoint(): string {
+  const { OTEL_EXPORTER_OTLP_LOGS_ENDPOINT, OTEL_EXPORTER_OTLP_ENDPOINT } = process.env;
+  if (OTEL_EXPORTER_OTLP_LOGS_ENDPOINT) {
+    return OTEL_EXPORTER_OTLP_LOGS_ENDPOINT;
+  }
+  if (OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return `${OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/logs`;
+  }
+  return DEFAULT_ENDPOINT;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Records a 2xx JSON response reports as rejected. A body that is not JSON counts as full
+ * success: the receiver accepted the batch, and treating it as a failure would export it again.
+ */
+function rejectedRecords(text: string): number {
+  try {
+    const { partialSuccess } = JSON.parse(text) as {
+      partialSuccess?: { rejectedLogRecords?: string | number };
+    };
+    return Number(partialSuccess?.rejectedLogRecords ?? 0) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Create the OTLP exporter used by the `otlp` option. Throws on an unsupported protocol.
+ * @internal
+ */
+export function createOtlpExporter(options: OtlpExporterOptions): OtlpExporter {
+  const protocol =
+    options.protocol ??
+    (process.env.OTEL_EXPORTER_OTLP_LOGS_PROTOCOL as OtlpProtocol | undefined) ??
+    (process.env.OTEL_EXPORTER_OTLP_PROTOCOL as OtlpProtocol | undefined) ??
+    'http/protobuf';
+  if (protocol !== 'http/protobuf' && protocol !== 'http/json') {
+    throw new Error(
+      `[@arivlabs/logger] Unsupported OTLP protocol "${protocol}" (use http/protobuf or http/json)`
+    );
+  }
+
+  const endpoint = options.endpoint ?? defaultEndpoint();
+  const maxBatchSize = options.maxBatchSize ?? 512;
+  const maxQueueSize = options.maxQueueSize ?? 2048;
+  const exportTimeoutMs = options.exportTimeoutMs ?? 10_000;
+  const maxRetries = options.maxRetries ?? 5;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? 200;
+  const onError =
+    options.onError ??
+    ((err: Error) => console.error('[@arivlabs/logger] OTLP exporter:', err.message));
+  const resource = { attributes: toKeyValues(options.resource) };
+  const headers = {
+    ...options.headers,
+    'content-type': protocol === 'http/json' ? 'application/json' : 'application/x-protobuf',
+  };
+
+  const queue: LogRecord[] = [];
+  const stats = { exported: 0, droppedQueueFull: 0, droppedExportFailed: 0 };
+  let draining: Promise<void> | undefined;
+  let closed = false;
+
+  /** POST one batch; resolves with the number of records the receiver rejected */
+  async function post(records: LogRecord[]): Promise<number> {
+    const request: ExportRequest = {
+      resourceLogs: [
+        { resource, scopeLogs: [{ scope: { name: SCOPE_NAME }, logRecords: records }] },
+      ],
+    };
+    const body = protocol === 'http/json' ? JSON.stringify(request) : encodeExportRequest(request);
+
+    for (let attempt = 0; ; attempt++) {
+      let retryable: boolean;
+      let failure: string;
+      try {
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(exportTimeoutMs),
+        });
+        const text = await res.text();
+        if (res.ok) {
+          // Partial success is only readable in the JSON encoding
+          return protocol === 'http/json' && text ? rejectedRecords(text) : 0;
+        }
+        retryable = RETRYABLE_STATUSES.has(res.status);
+        failure = `HTTP ${res.status}`;
+      } catch (err) {
+        retryable = true;
+        failure = (err as Error).message;
+      }
+
+      if (!retryable || attempt >= maxRetries) {
+        throw Object.assign(new Error(`Export failed: ${failure}`), { retryable });
+      }
+      const delay = Math.min(MAX_RETRY_DELAY_MS, retryBaseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+
+  const isRetryable = (err: unknown) => (err as { retryable?: boolean }).retryable === true;
+
+  const dropBatch = (batch: LogRecord[], err: unknown) => {
+    stats.droppedExportFailed += batch.length;
+    onError(new Error(`Dropped ${batch.length} log records: ${(err as Error).message}`));
+  };
+
+  /** Export one batch and count the outcome; throws only for retryable failures */
+  async function exportBatch(batch: LogRecord[]): Promise<void> {
+    try {
+      const rejected = await post(batch);
+      stats.exported += batch.length - rejected;
+      stats.droppedExportFailed += rejected;
+    } catch (err) {
+      if (isRetryable(err)) {
+        throw err;
+      }
+      dropBatch(batch, err);
+    }
+  }
+
+  /** Replay spooled records: transient failures keep them spooled */
+  async function replaySpooled(records: LogRecord[]): Promise<void> {
+    for (let start = 0; start < records.length; start += maxBatchSize) {
+      await exportBatch(records.slice(start, start + maxBatchSize));
+    }
+  }
+
+  const spool = options.spool
+    ? createSpool<LogRecord>(options.spool, replaySpooled, onError)
+    : undefined;
+
+  /** Export batches until the queue is empty. Concurrent callers share one drain. */
+  function drain(): Promise<void> {
+    draining ??= (async () => {
+      try {
+        while (queue.length > 0) {
+          const batch = queue.splice(0, maxBatchSize);
+          // Spooled records go first: queue behind them
+          if (spool?.hasPending()) {
+            spool.append(batch);
+            continue;
+          }
+          try {
+            await exportBatch(batch);
+          } catch (err) {
+            if (spool) {
+              spool.append(batch);
+            } else {
+              dropBatch(batch, err);
+            }
+          }
+        }
+      } finally {
+        draining = undefined;
+      }
+    })();
+    return draining;
+  }
+
+  const timer = setInterval(() => void drain(), options.scheduledDelayMs ?? 1000);
+  timer.unref();
+
+  return {
+    write(line: string): void {
+      if (closed) {
+        return;
+      }
+      if (queue.length >= maxQueueSize) {
+        stats.droppedQueueFull++;
+        return;
+      }
+      queue.push(toLogRecord(line, options));
+      if (queue.length >= maxBatchSize) {
+        void drain();
+      }
+    },
+
+    flush(cb?: () => void): void {
+      void drain().then(() => cb?.());
+    },
+
+    async close(): Promise<void> {
+      // Records written after close() are dropped, not queued
+      closed = true;
+      clearInterval(timer);
+      spool?.close();
+      await drain();
+    },
+
+    stats: () => ({ queued: queue.length, ...stats, spool: spool?.stats() }),
+  };
+}
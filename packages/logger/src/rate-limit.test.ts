@@ -0,0 +1,246 @@
+import { createLogger } from './index';
+import { createRateLimiter, type SuppressionSummary } from './rate-limit';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createRateLimiter()', () => {
+    it('should allow a burst per key and summarize the rest when the window closes', () => {
+      const limiter = createRateLimiter({ windowMs: 1000, burst: 2 });
+      const summaries: SuppressionSummary[] = [];
+      const write = (summary: SuppressionSummary) => summaries.push(summary);
+
+      expect(limiter.allow('a', 'A', write)).toBe(true);
+      expect(limiter.allow('a', 'A', write)).toBe(true);
+      expect(limiter.allow('b', 'B', write)).toBe(true);
+      expect(limiter.allow('a', 'A', write)).toBe(false);
+      jest.advanceTimersByTime(300);
+      expect(limiter.allow('a', 'A', write)).toBe(false);
+      expect(summaries).toEqual([]);
+
+      jest.advanceTimersByTime(700);
+
+      expect(summaries).toEqual([
+        {
+          key: 'a',
+          msg: 'A',
+          count: 2,
+          firstAt: Date.parse('2026-01-01T00:00:00.000Z'),
+          lastAt: Date.parse('2026-01-01T00:00:00.300Z'),
+          windowMs: 1000,
+        },
+      ]);
+      expect(limiter.allow('a', 'A', write)).toBe(true);
+    });
+
+    it('should not write a summary for windows without suppressed lines', () => {
+      const limiter = createRateLimiter({ windowMs: 1000, burst: 5 });
+      const write = jest.fn();
+
+      limiter.allow('a', 'A', write);
+      jest.advanceTimersByTime(5000);
+      limiter.flush();
+
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    it('should write pending summaries on flush()', () => {
+      const limiter = createRateLimiter({ windowMs: 60000, burst: 1 });
+      const write = jest.fn();
+
+      limiter.allow('a', 'A', write);
+      limiter.allow('a', 'A', write);
+      limiter.flush();
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(write.mock.calls[0][0]).toMatchObject({ key: 'a', count: 1 });
+      jest.advanceTimersByTime(60000);
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop limiting new keys once maxKeys is reached', () => {
+      const limiter = createRateLimiter({ windowMs: 1000, burst: 1, maxKeys: 1 });
+      const write = jest.fn();
+
+      limiter.allow('a', 'A', write);
+      expect(limiter.allow('b', 'B', write)).toBe(true);
+      expect(limiter.allow('b', 'B', write)).toBe(true);
+      expect(limiter.allow('a', 'A', write)).toBe(false);
+    });
+  });
+
+  describe('createLogger integration', () => {
+    const originalEnv = process.env;
+    let output: CapturedOutput;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      output = captureDestination();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should suppress repeated messages and log one summary per window', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        rateLimit: { windowMs: 60000, burst: 3 },
+      });
+      const reqLogger = logger.withContext({ correlationId: 'req-1' });
+
+      for (let i = 0; i < 100; i++) {
+        reqLogger.error('Request failed', { attempt: i });
+      }
+      logger.error('Different message');
+
+      expect(output.lines.map((line) => line.msg)).toEqual([
+        'Request failed',
+        'Request failed',
+        'Request failed',
+        'Different message',
+      ]);
+
+      jest.advanceTimersByTime(60000);
+
+      expect(output.lines[4]).toMatchObject({
+        level: 50,
+        msg: 'Log lines suppressed by rate limit',
+        correlation_id: 'req-1',
+        rate_limit_key: 'error::Request failed',
+        suppressed_count: 97,
+        suppressed_msg: 'Request failed',
+        first_suppressed_at: '2026-01-01T00:00:00.000Z',
+        last_suppressed_at: '2026-01-01T00:00:00.000Z',
+        window_ms: 60000,
+      });
+    });
+
+    it('should key by call site when configured', async () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        rateLimit: { burst: 1, key: 'callsite' },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        logger.warn(`Retry ${i}`);
+        logger.warn(`Other ${i}`);
+      }
+      await logger.shutdown();
+
+      expect(output.lines.map((line) => line.msg)).toEqual([
+        'Retry 0',
+        'Other 0',
+        'Log lines suppressed by rate limit',
+        'Log lines suppressed by rate limit',
+      ]);
+      expect(output.lines[2].rate_limit_key).toMatch(/^warn:.*rate-limit\.test\.ts:\d+:\d+/);
+      expect(output.lines[2].rate_limit_key).not.toBe(output.lines[3].rate_limit_key);
+    });
+
+    it('should key timers and events by the call site that created them', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        rateLimit: { burst: 2, key: 'callsite' },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        logger.startTimer('op-a').done();
+      }
+      logger.startTimer('op-b').done();
+      logger.event('user.login', { userId: 'u1' });
+
+      expect(output.lines.map((line) => line.msg)).toEqual([
+        'op-a completed',
+        'op-a completed',
+        'op-b completed',
+        'user.login',
+      ]);
+    });
+
+    it('should not limit excluded levels or count disabled levels', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'info',
+        rateLimit: { burst: 1, levels: ['debug', 'info'] },
+      });
+
+      logger.debug('Hidden');
+      logger.info('Shown');
+      logger.info('Shown');
+      logger.warn('Warn');
+      logger.warn('Warn');
+
+      expect(output.lines.map((line) => line.msg)).toEqual(['Shown', 'Warn', 'Warn']);
+    });
+  });
+
+  describe('once()', () => {
+    const originalEnv = process.env;
+    let output: CapturedOutput;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      output = captureDestination();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should log a warning only the first time a key is seen across child loggers', () => {
+      const logger = createLogger({ service: 'my-service', pretty: false });
+
+      expect(logger.once('legacy-auth', 'Legacy auth is deprecated', { header: 'x-token' })).toBe(
+        true
+      );
+      expect(logger.domain('auth').once('legacy-auth', 'Legacy auth is deprecated')).toBe(false);
+      expect(logger.once('other', 'Other deprecation')).toBe(true);
+
+      expect(output.lines).toHaveLength(2);
+      expect(output.lines[0]).toMatchObject({
+        level: 40,
+        msg: 'Legacy auth is deprecated',
+        header: 'x-token',
+      });
+    });
+
+    it('should not rate limit once() warnings', async () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        rateLimit: { burst: 2, key: 'callsite' },
+      });
+
+      for (const key of ['k1', 'k2', 'k3']) {
+        expect(logger.once(key, `Deprecated ${key}`)).toBe(true);
+      }
+      await logger.shutdown();
+
+      expect(output.lines.map((line) => line.msg)).toEqual([
+        'Deprecated k1',
+        'Deprecated k2',
+        'Deprecated k3',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Rate limiting and duplicate suppression.
+ *
+ * When a dependency fails, a single call site can emit thousands of identical lines per
+ * minute. The rate limiter lets the first `burst` lines for a key through in each window
+ * and counts the rest. When a window with suppressed lines closes, one summary record is
+ * written with the suppressed count and the first/last suppression timestamps.
+ *
+ * Design notes:
+ * - Fixed windows per key, starting at the first line seen for that key
+ * - Summaries are written by an unref'd timer when the window closes (or on shutdown), so
+ *   they are not delayed until the next matching line and never keep the process alive
+ * - The number of tracked keys is capped; past the cap, lines for new keys are not limited
+ */
+
+import type { LogData } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Derive a rate-limit key from a log call. Return undefined to skip rate limiting.
+ */
+export type RateLimitKeyFn = (
+  level: string,
+  msg: string | undefined,
+  data: LogData | undefined
+) => string | undefined;
+
+/**
+ * Rate limiting configuration.
+ *
+ * @example
+ * ```typescript
+ * rateLimit: { windowMs: 60_000, burst: 5, key: 'callsite' }
+ * ```
+ */
+export interface RateLimitConfig {
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number;
+  /** Lines allowed per key in each window before suppression starts (default: 10) */
+  burst?: number;
+  /**
+   * How lines are grouped:
+   * - `message`: level + domain + message text (default)
+   * - `callsite`: source location of the log call (captures a one-frame stack trace per call)
+   * - a function returning a custom key
+   */
+  key?: 'message' | 'callsite' | RateLimitKeyFn;
+  /** Levels subject to rate limiting (default: every level except fatal) */
+  levels?: string[];
+  /** Maximum number of keys tracked at once (default: 1000) */
+  maxKeys?: number;
+}
+
+/** Summary of the lines suppressed for one key in one window */
+export interface SuppressionSummary {
+  key: string;
+  /** Message of the first suppressed line */
+  msg: string | undefined;
+  count: number;
+  firstAt: number;
+  lastAt: number;
+  windowMs: number;
+}
+
+/** Writes a summary record; supplied by the log method that suppressed the lines */
+export type SummaryWriter = (summary: SuppressionSummary) => void;
+
+/** @internal */
+export interface RateLimiter {
+  /** Levels subject to rate limiting */
+  readonly levels: ReadonlySet<string>;
+  /** Key strategy */
+  readonly key: NonNullable<RateLimitConfig['key']>;
+  /** Record a line for `key` and return whether it may be written */
+  allow(key: string, msg: string | undefined, write: SummaryWriter): boolean;
+  /** Close every open window, writing pending summaries */
+  flush(): void;
+}
+
+interface WindowEntry {
+  start: number;
+  count: number;
+  suppressed: number;
+  firstAt: number;
+  lastAt: number;
+  msg?: string;
+  write?: SummaryWriter;
+  timer?: NodeJS.Timeout;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Key a log call by its source location.
+ * `skip` is the log method itself, so the first remaining frame is the caller.
+ * @internal
+ */
+export function callSiteKey(skip: (...args: never[]) => unknown): string {
+  const limit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 1;
+  const holder: { stack?: string } = {};
+  Error.captureStackTrace(holder, skip);
+  Error.stackTraceLimit = limit;
+
+  const frame = holder.stack?.split('\n')[1];
+  return frame ? frame.trim().replace(/^at /, '') : 'unknown';
+}
+
+/**
+ * Create the rate limiter shared by a root logger and all of its children.
+ * @internal
+ */
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const windowMs = config.windowMs ?? 60000;
+  const burst = config.burst ?? 10;
+  const maxKeys = config.maxKeys ?? 1000;
+  const levels = new Set(config.levels ?? ['trace', 'debug', 'info', 'warn', 'error']);
+  const entries = new Map<string, WindowEntry>();
+
+  function close(key: string, entry: WindowEntry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    if (entries.get(key) === entry) {
+      entries.delete(key);
+    }
+    if (entry.suppressed > 0 && entry.write) {
+      entry.write({
+        key,
+        msg: entry.msg,
+        count: entry.suppressed,
+        firstAt: entry.firstAt,
+        lastAt: entry.lastAt,
+        windowMs,
+      });
+    }
+  }
+
+  function prune(now: number): void {
+    for (const [key, entry] of entries) {
+      if (now - entry.start >= windowMs) {
+        close(key, entry);
+      }
+    }
+  }
+
+  return {
+    levels,
+    key: config.key ?? 'message',
+
+    allow(key: string, msg: string | undefined, write: SummaryWriter): boolean {
+      const now = Date.now();
+      let entry = entries.get(key);
+
+      if (entry && now - entry.start >= windowMs) {
+        close(key, entry);
+        entry = undefined;
+      }
+
+      if (!entry) {
+        if (entries.size >= maxKeys) {
+          prune(now);
+          if (entries.size >= maxKeys) {
+            return true;
+          }
+        }
+        entries.set(key, { start: now, count: 1, suppressed: 0, firstAt: 0, lastAt: 0 });
+        return true;
+      }
+
+      if (entry.count < burst) {
+        entry.count++;
+        return true;
+      }
+
+      if (entry.suppressed === 0) {
+        const opened = entry;
+        opened.firstAt = now;
+        opened.msg = msg;
+        opened.write = write;
+        opened.timer = setTimeout(() => close(key, opened), opened.start + windowMs - now);
+        opened.timer.unref();
+      }
+      entry.suppressed++;
+      entry.lastAt = now;
+      return false;
+    },
+
+    flush(): void {
+      for (const [key, entry] of entries) {
+        close(key, entry);
+      }
+    },
+  };
+}
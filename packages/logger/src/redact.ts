@@ -0,0 +1,367 @@
+/**
+ * Value-pattern and key-name redaction.
+ *
+ * Path-based redaction (DEFAULT_REDACT_PATHS) only censors values under known key names
+ * at fixed depths. This module adds two opt-in layers:
+ * - Value patterns: scan string values and the log message itself for things that look
+ *   like secrets regardless of where they appear: a JWT inside `msg`, an AWS key under
+ *   `detail`, a card number in an error message.
+ * - Key names: censor sensitive keys at any depth, case-insensitively and across
+ *   camelCase/snake_case/kebab-case spellings (`body.user.Password`, `X-Api-Key`).
+ *
+ * Design notes:
+ * - Runs in pino's `formatters.log` (merged log object), the `msg` serializer and the
+ *   `err` serializer output (so Error messages and stacks are covered)
+ * - Copy-on-write: objects are only cloned along paths where something was masked, and
+ *   the caller's objects are never mutated
+ * - Bounded: depth, number of values scanned for patterns and scanned characters per string
+ *   are capped so a large payload cannot stall the event loop
+ * - Key names fail closed: every key up to `keys.maxDepth` is checked, however many values
+ *   the pattern scan has already used up
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How a detector masks a hit:
+ * - `match`: replace only the matched substring (default)
+ * - `value`: replace the whole string value
+ */
+export type ValueMaskMode = 'match' | 'value';
+
+/**
+ * A value detector: a pattern plus an optional validator for candidate matches.
+ */
+export interface ValueDetector {
+  /** Detector name (used for documentation and debugging) */
+  name: string;
+  /** Pattern to search for. The global flag is added automatically. */
+  pattern: RegExp;
+  /** Mask only the match or the whole value (default: 'match') */
+  mask?: ValueMaskMode;
+  /** Return false to ignore a candidate match (e.g. Luhn check for card numbers) */
+  validate?: (match: string) => boolean;
+}
+
+/** Names of the built-in detectors */
+export type BuiltinDetectorName =
+  | 'jwt'
+  | 'awsAccessKeyId'
+  | 'awsSecretAccessKey'
+  | 'bearerToken'
+  | 'creditCard'
+  | 'privateKey'
+  | 'email';
+
+/**
+ * Value-pattern redaction configuration.
+ */
+export interface PatternRedactConfig {
+  /**
+   * Detectors to run: built-in names, custom detectors or plain regular expressions.
+   * Default: DEFAULT_VALUE_DETECTORS (every built-in except 'email').
+   *
+   * @example
+   * detectors: [...DEFAULT_VALUE_DETECTORS, 'email', /sk_live_[A-Za-z0-9]{24}/]
+   */
+  detectors?: (BuiltinDetectorName | ValueDetector | RegExp)[];
+  /** Maximum object depth to scan (default: 8) */
+  maxDepth?: number;
+  /** Maximum number of values visited per log record (default: 1000) */
+  maxNodes?: number;
+  /** Maximum characters scanned per string; the rest is left as-is (default: 16384) */
+  maxStringLength?: number;
+}
+
+/**
+ * Key-name redaction configuration.
+ */
+export interface KeyRedactConfig {
+  /**
+   * Sensitive key names. Matching ignores case and `-`, `_`, `.` and whitespace, so
+   * `apiKey` also matches `api_key`, `API-KEY` and `ApiKey`. Matching is exact after
+   * normalization: `token` does not match `tokenCount`.
+   * Default: DEFAULT_SENSITIVE_KEYS
+   */
+  names?: string[];
+  /** Maximum object depth at which keys are checked (default: 8) */
+  maxDepth?: number;
+}
+
+/** @internal */
+export interface RedactorOptions {
+  patterns?: PatternRedactConfig;
+  keys?: KeyRedactConfig;
+  censor: string;
+  remove: boolean;
+}
+
+/** @internal */
+export interface Redactor {
+  /** Scan a single string for value patterns */
+  redactString(text: string): string;
+  /** Redact a value (string, array or plain object), copy-on-write */
+  redactValue<T>(value: T): T;
+}
+
+// =============================================================================
+// BUILT-IN DETECTORS
+// =============================================================================
+
+/**
+ * Luhn checksum, used to tell card numbers from other long digit runs.
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/[ -]/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in detectors. Spread one to change its mask mode:
+ * `{ ...BUILTIN_DETECTORS.jwt, mask: 'value' }`
+ */
+export const BUILTIN_DETECTORS: Readonly<Record<BuiltinDetectorName, ValueDetector>> = {
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/,
+  },
+  awsAccessKeyId: {
+    name: 'awsAccessKeyId',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA|AGPA|AIDA|AIPA|ANPA|ANVA|AROA|APKA|ASCA)[A-Z0-9]{16}\b/,
+  },
+  awsSecretAccessKey: {
+    name: 'awsSecretAccessKey',
+    pattern: /(?<![A-Za-z0-9/+=])[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+=])/,
+    // 40 base64 characters are also common in hashes; require mixed case and a digit
+    validate: (match) => /[a-z]/.test(match) && /[A-Z]/.test(match) && /[0-9]/.test(match),
+  },
+  bearerToken: {
+    name: 'bearerToken',
+    pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]+=*/i,
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/,
+    validate: passesLuhn,
+  },
+  privateKey: {
+    name: 'privateKey',
+    pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/,
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/,
+  },
+};
+
+/**
+ * Detectors enabled when `redact.patterns` is `true`.
+ * Email is opt-in because addresses are often logged intentionally.
+ */
+export const DEFAULT_VALUE_DETECTORS: readonly BuiltinDetectorName[] = [
+  'jwt',
+  'awsAccessKeyId',
+  'awsSecretAccessKey',
+  'bearerToken',
+  'creditCard',
+  'privateKey',
+];
+
+/**
+ * Key names redacted at any depth when `redact.keys` is `true`.
+ * Covers the leaf names of DEFAULT_REDACT_PATHS plus common credential headers.
+ */
+export const DEFAULT_SENSITIVE_KEYS: readonly string[] = [
+  'password',
+  'secret',
+  'token',
+  'apiKey',
+  'accessToken',
+  'refreshToken',
+  'sessionToken',
+  'secretAccessKey',
+  'privateKey',
+  'clientSecret',
+  'authorization',
+  'cookie',
+  'setCookie',
+  'xApiKey',
+];
+
+// =============================================================================
+// REDACTOR
+// =============================================================================
+
+function toDetector(entry: BuiltinDetectorName | ValueDetector | RegExp): ValueDetector {
+  if (typeof entry === 'string') {
+    const builtin = BUILTIN_DETECTORS[entry];
+    if (!builtin) {
+      throw new Error(`[@arivlabs/logger] Unknown redaction detector: ${entry}`);
+    }
+    return builtin;
+  }
+  if (entry instanceof RegExp) {
+    return { name: entry.source, pattern: entry };
+  }
+  return entry;
+}
+
+function withGlobalFlag(pattern: RegExp): RegExp {
+  return pattern.flags.includes('g')
+    ? new RegExp(pattern)
+    : new RegExp(pattern, `${pattern.flags}g`);
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function normalizeKey(key: string): string {
+  return key.replace(/[-_.\s]/g, '').toLowerCase();
+}
+
+/**
+ * Create the redactor used by createLogger() for value-pattern and/or key-name redaction.
+ * Both modes share a single copy-on-write traversal. It descends to the deeper of the two
+ * `maxDepth` settings; each mode only applies within its own depth. Only the pattern scan
+ * is limited by `maxNodes`: key names are checked for every key up to `keys.maxDepth`.
+ *
+ * @internal
+ */
+export function createRedactor(options: RedactorOptions): Redactor {
+  const { patterns, keys, censor, remove } = options;
+
+  const detectors = patterns
+    ? (patterns.detectors ?? DEFAULT_VALUE_DETECTORS).map((entry) => {
+        const detector = toDetector(entry);
+        return { ...detector, pattern: withGlobalFlag(detector.pattern) };
+      })
+    : [];
+  const patternDepth = patterns ? (patterns.maxDepth ?? 8) : -1;
+  const maxStringLength = patterns?.maxStringLength ?? 16384;
+
+  const sensitiveKeys = new Set((keys?.names ?? DEFAULT_SENSITIVE_KEYS).map(normalizeKey));
+  const keyDepth = keys ? (keys.maxDepth ?? 8) : -1;
+
+  const maxDepth = Math.max(patternDepth, keyDepth);
+  const maxNodes = patterns ? (patterns.maxNodes ?? 1000) : 0;
+
+  function redactString(text: string): string {
+    if (detectors.length === 0) {
+      return text;
+    }
+
+    const scanned = text.length > maxStringLength ? text.slice(0, maxStringLength) : text;
+    let result = scanned;
+
+    for (const detector of detectors) {
+      const { pattern, validate } = detector;
+
+      if (detector.mask === 'value') {
+        for (const match of result.matchAll(pattern)) {
+          if (!validate || validate(match[0])) {
+            return censor;
+          }
+        }
+        continue;
+      }
+
+      pattern.lastIndex = 0;
+      if (!pattern.test(result)) {
+        continue;
+      }
+      pattern.lastIndex = 0;
+      result = result.replace(pattern, (match) => (!validate || validate(match) ? censor : match));
+    }
+
+    if (result === scanned) {
+      return text;
+    }
+    return text.length > maxStringLength ? result + text.slice(maxStringLength) : result;
+  }
+
+  function redactValue<T>(value: T): T {
+    let budget = maxNodes;
+
+    // Once the pattern budget is used up, only values that may hold keys are still visited
+    const worthVisiting = (depth: number) => budget > 0 || depth < keyDepth;
+
+    const visit = (current: unknown, depth: number): unknown => {
+      const scan = budget-- > 0;
+      if (typeof current === 'string') {
+        return scan && depth <= patternDepth ? redactString(current) : current;
+      }
+      if (current === null || typeof current !== 'object' || depth >= maxDepth) {
+        return current;
+      }
+      if (!scan && depth >= keyDepth) {
+        return current;
+      }
+
+      if (Array.isArray(current)) {
+        let copy: unknown[] | undefined;
+        for (let i = 0; i < current.length && worthVisiting(depth + 1); i++) {
+          const next = visit(current[i], depth + 1);
+          if (next !== current[i]) {
+            copy ??= current.slice();
+            copy[i] = next;
+          }
+        }
+        return copy ?? current;
+      }
+
+      if (!isPlainObject(current)) {
+        return current;
+      }
+
+      const checkKeys = depth < keyDepth;
+      let copy: Record<string, unknown> | undefined;
+      for (const key of Object.keys(current)) {
+        if (!worthVisiting(depth + 1) && !checkKeys) {
+          break;
+        }
+
+        if (checkKeys && sensitiveKeys.has(normalizeKey(key))) {
+          copy ??= { ...current };
+          if (remove) {
+            delete copy[key];
+          } else {
+            copy[key] = censor;
+          }
+          continue;
+        }
+
+        const next = visit(current[key], depth + 1);
+        if (next !== current[key]) {
+          copy ??= { ...current };
+          copy[key] = next;
+        }
+      }
+      return copy ?? current;
+    };
+
+    return visit(value, 0) as T;
+  }
+
+  return { redactString, redactValue };
+}
@@ -0,0 +1,193 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import pino from 'pino';
+import { createLogger, type ArivLogger, type RotateConfig } from './index';
+
+describe('rotating file destination', () => {
+  const originalEnv = process.env;
+  let logger: ArivLogger | undefined;
+  let dir: string;
+  let path: string;
+
+  const create = (rotate: RotateConfig, enableAsync = false) =>
+    createLogger({
+      service: 'my-service',
+      level: 'info',
+      enableAsync,
+      asyncBufferSize: 1024,
+      destinations: [{ target: path, rotate }],
+    });
+
+  /** Rotated files, oldest first (`-<n>` collision suffixes sort after the plain stamp) */
+  const rotatedFiles = () =>
+    readdirSync(dir)
+      .filter((name) => name.startsWith('app.log.'))
+      .map((name) => [name.replace(/\.gz$/, ''), name])
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([, name]) => name);
+
+  const readFile = (name: string) => {
+    const raw = readFileSync(join(dir, name));
+    return (name.endsWith('.gz') ? gunzipSync(raw) : raw).toString();
+  };
+
+  /** Messages across rotated files and the active file, in write order */
+  const allMessages = () =>
+    [...rotatedFiles(), 'app.log']
+      .flatMap((name) => readFile(name).split('\n'))
+      .filter(Boolean)
+      .map((line) => JSON.parse(line).msg as string);
+
+  /** Log each line on its own tick, as a server would */
+  const logLines = async (log: ArivLogger, lines: string[]) => {
+    for (const msg of lines) {
+      log.info(msg);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    dir = mkdtempSync(join(tmpdir(), 'logger-rotation-'));
+    path = join(dir, 'app.log');
+  });
+
+  afterEach(async () => {
+    await logger?.shutdown();
+    logger = undefined;
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should rotate by size without losing or reordering lines', async () => {
+    logger = create({ maxBytes: 1000 });
+    const expected = Array.from({ length: 30 }, (_, i) => `Line ${i}`);
+
+    await logLines(logger, expected);
+    await logger.shutdown();
+    logger = undefined;
+
+    expect(rotatedFiles().length).toBeGreaterThan(1);
+    expect(rotatedFiles().every((name) => /^app\.log\.\d{4}-\d{2}-\d{2}T[\d-]+Z/.test(name))).toBe(
+      true
+    );
+    expect(allMessages()).toEqual(expected);
+  });
+
+  it('should not lose lines rotated in async mode', async () => {
+    logger = create({ maxBytes: 2000 }, true);
+    const expected = Array.from({ length: 200 }, (_, i) => `Line ${i}`);
+    // The file is opened asynchronously; rotation waits until it is open
+    while (!existsSync(path)) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    for (const msg of expected) {
+      logger.info(msg);
+      if (msg.endsWith('0')) {
+        // Let buffered writes and reopen() interleave with new lines
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    }
+    await logger.shutdown();
+    logger = undefined;
+
+    expect(rotatedFiles().length).toBeGreaterThan(0);
+    expect(allMessages()).toEqual(expected);
+  });
+
+  it('should rotate a burst written within one tick once, then again on the next write', async () => {
+    const open = jest.spyOn(pino, 'destination');
+    logger = create({ maxBytes: 500 });
+    const sonic = open.mock.results[0].value as ReturnType<typeof pino.destination>;
+    const expected = Array.from({ length: 40 }, (_, i) => `Line ${i}`);
+
+    for (const msg of expected) {
+      logger.info(msg);
+    }
+    expect(rotatedFiles()).toHaveLength(1);
+    // Node would emit a MaxListenersExceededWarning past this (jest's sandboxed `process`
+    // does not see process warnings)
+    expect(sonic.listenerCount('ready')).toBeLessThanOrEqual(sonic.getMaxListeners());
+    await new Promise((resolve) => setImmediate(resolve));
+    logger.info('After');
+    await logger.shutdown();
+    logger = undefined;
+
+    expect(rotatedFiles()).toHaveLength(2);
+    expect(allMessages()).toEqual([...expected, 'After']);
+  });
+
+  it('should compress rotated files and keep at most maxFiles', async () => {
+    logger = create({ maxBytes: 500, maxFiles: 2, compress: true });
+    const lines = Array.from({ length: 40 }, (_, i) => `Line ${i}`);
+
+    await logLines(logger, lines);
+    await logger.shutdown();
+    logger = undefined;
+
+    const rotated = rotatedFiles();
+    expect(rotated).toHaveLength(2);
+    expect(rotated.every((name) => name.endsWith('.gz'))).toBe(true);
+    // The newest rotated files are kept
+    expect(allMessages().at(-1)).toBe('Line 39');
+    expect(JSON.parse(readFile(rotated[0]).split('\n')[0]).msg).toMatch(/^Line \d+$/);
+  });
+
+  it('should rotate on an interval but never rotate an empty file', async () => {
+    logger = create({ intervalMs: 50 });
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(rotatedFiles()).toEqual([]);
+
+    logger.info('First');
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    logger.info('Second');
+
+    expect(rotatedFiles()).toHaveLength(1);
+    expect(readFile(rotatedFiles()[0])).toContain('"msg":"First"');
+    expect(readFile('app.log')).toContain('"msg":"Second"');
+  });
+
+  it('should delete rotated files older than maxAgeMs left by previous runs', async () => {
+    const old = 'app.log.2020-01-01T00-00-00-000Z.gz';
+    const recent = 'app.log.2026-01-01T00-00-00-000Z';
+    for (const name of [old, recent, 'app.log.bak']) {
+      writeFileSync(join(dir, name), '');
+    }
+    const past = new Date('2020-01-01T00:00:00.000Z');
+    utimesSync(join(dir, old), past, past);
+
+    logger = create({ maxBytes: 1_000_000, maxAgeMs: 24 * 60 * 60_000 });
+    await logger.shutdown();
+    logger = undefined;
+
+    expect(readdirSync(dir).sort()).toEqual(['app.log', recent, 'app.log.bak']);
+  });
+
+  it('should reject invalid rotation settings', () => {
+    expect(() => create({})).toThrow('rotate needs maxBytes and/or intervalMs');
+    expect(() => create({ maxBytes: -1 })).toThrow('rotate.maxBytes must be a positive number');
+    expect(() =>
+      createLogger({
+        service: 'my-service',
+        destinations: [{ target: 1, rotate: { maxBytes: 1000 } }],
+      })
+    ).toThrow('rotate requires a file path target with format "json"');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Rotating file destination.
+ *
+ * The active file keeps its configured path. On rotation it is renamed to
+ * `<path>.<timestamp>` (e.g. `app.log.2026-01-01T00-00-00-000Z`) and SonicBoom's reopen()
+ * creates a fresh file at the path. Rotated files are optionally gzipped and pruned by
+ * count and age.
+ *
+ * Design notes:
+ * - reopen() never drops lines: writes are buffered while the new file opens. In async
+ *   mode, lines still buffered at the moment of rotation are written to the new file, so
+ *   file boundaries (and `maxBytes`) are approximate
+ * - A rotation waits for SonicBoom's 'ready' (the next tick in sync mode) before the next
+ *   one: each reopen() adds a 'ready' listener, so a synchronous burst would pile them up.
+ *   Lines written meanwhile go to the new file; the next write rotates it again if they
+ *   reach `maxBytes`
+ * - Compression and pruning run in the background after the new file is open, one
+ *   rotation at a time; shutdown() waits for them
+ * - A size-triggered rotation is checked on write, an interval-triggered one by an
+ *   unref'd timer; empty files are never rotated
+ */
+
+import { createReadStream, createWriteStream, existsSync, renameSync, statSync } from 'node:fs';
+import { readdir, stat, unlink } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import pino, { type DestinationStream } from 'pino';
+import type { SonicBoomDestination } from './destinations';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Rotation settings for a file destination. At least one of `maxBytes` and `intervalMs`
+ * is required.
+ *
+ * @example
+ * rotate: { maxBytes: 50 * 1024 * 1024, maxFiles: 10, compress: true }
+ */
+export interface RotateConfig {
+  /** Rotate when the active file reaches this size in bytes */
+  maxBytes?: number;
+  /** Rotate every `intervalMs` milliseconds, counted from logger creation */
+  intervalMs?: number;
+  /** Keep at most this many rotated files (default: unlimited) */
+  maxFiles?: number;
+  /** Delete rotated files older than this many milliseconds (default: never) */
+  maxAgeMs?: number;
+  /** gzip rotated files (`.gz`) (default: false) */
+  compress?: boolean;
+}
+
+/** @internal */
+export interface RotatingFileOptions {
+  /** Buffered async writes */
+  async: boolean;
+  /** Buffer size before auto-flush in async mode */
+  bufferSize: number;
+  /** Called when renaming, compressing or pruning fails */
+  onError(err: Error): void;
+}
+
+/** @internal */
+export interface RotatingFile {
+  /** Stream handed to pino: counts bytes and triggers size-based rotation */
+  stream: DestinationStream;
+  /** SonicBoom writer of the active file */
+  sonic: SonicBoomDestination;
+  /** Rotate now (no-op for an empty file or while a rotation is in progress) */
+  rotate(): void;
+  /** Stop rotating (before the active file is closed) */
+  stop(): void;
+  /** Wait for background compression and pruning */
+  idle(): Promise<void>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** `2026-01-01T00-00-00-000Z`: sortable and safe in file names */
+const STAMP = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(-\d+)?(\.gz)?$/;
+
+function rotatedName(path: string, now: Date): string {
+  const stamp = now.toISOString().replace(/[:.]/g, '-');
+  let name = `${path}.${stamp}`;
+  for (let i = 1; existsSync(name) || existsSync(`${name}.gz`); i++) {
+    name = `${path}.${stamp}-${i}`;
+  }
+  return name;
+}
+
+/** Ignore files that were already removed (by pruning or by hand) */
+function ignoreMissing(err: NodeJS.ErrnoException): void {
+  if (err.code !== 'ENOENT') {
+    throw err;
+  }
+}
+
+async function compressFile(file: string): Promise<void> {
+  try {
+    await pipeline(createReadStream(file), createGzip(), createWriteStream(`${file}.gz`));
+    await unlink(file);
+  } catch (err) {
+    ignoreMissing(err as NodeJS.ErrnoException);
+  }
+}
+
+/** Sort key of a rotated file: `-<n>` collision suffixes sort after the plain stamp */
+const sortKey = (name: string) => name.replace(/\.gz$/, '');
+
+/** Delete rotated files beyond `maxFiles` (newest kept) or older than `maxAgeMs` */
+async function pruneRotated(path: string, maxFiles?: number, maxAgeMs?: number): Promise<void> {
+  if (maxFiles === undefined && maxAgeMs === undefined) {
+    return;
+  }
+
+  const prefix = `${basename(path)}.`;
+  const dir = dirname(path);
+  const rotated = (await readdir(dir))
+    .filter((name) => name.startsWith(prefix) && STAMP.test(name.slice(prefix.length)))
+    .sort((a, b) => (sortKey(a) < sortKey(b) ? 1 : -1));
+
+  const now = Date.now();
+  for (const [index, name] of rotated.entries()) {
+    const file = join(dir, name);
+    const expired =
+      (maxFiles !== undefined && index >= maxFiles) ||
+      (maxAgeMs !== undefined && now - (await stat(file)).mtimeMs > maxAgeMs);
+    if (expired) {
+      await unlink(file).catch(ignoreMissing);
+    }
+  }
+}
+
+function assertPositive(value: number | undefined, name: string): void {
+  if (value !== undefined && !(value > 0 && Number.isFinite(value))) {
+    throw new Error(`[@arivlabs/logger] rotate.${name} must be a positive number`);
+  }
+}
+
+// =============================================================================
+// ROTATING FILE
+// =============================================================================
+
+/**
+ * Open a rotating file at `path`. Throws on invalid settings.
+ * @internal
+ */
+export function openRotatingFile(
+  path: string,
+  config: RotateConfig,
+  options: RotatingFileOptions
+): RotatingFile {
+  const { maxBytes, intervalMs, maxFiles, maxAgeMs, compress = false } = config;
+  if (maxBytes === undefined && intervalMs === undefined) {
+    throw new Error('[@arivlabs/logger] rotate needs maxBytes and/or intervalMs');
+  }
+  assertPositive(maxBytes, 'maxBytes');
+  assertPositive(intervalMs, 'intervalMs');
+  assertPositive(maxFiles, 'maxFiles');
+  assertPositive(maxAgeMs, 'maxAgeMs');
+
+  // reopen() needs SonicBoom to own the path (an fd cannot be reopened)
+  const sonic = pino.destination({
+    dest: path,
+    sync: !options.async,
+    minLength: options.async ? options.bufferSize : 0,
+    mkdir: true,
+  }) as unknown as SonicBoomDestination & {
+    fd: number;
+    reopen(): void;
+    on(event: 'ready', listener: () => void): void;
+  };
+
+  let bytes = 0;
+  try {
+    bytes = statSync(path).size;
+  } catch {
+    // Not created yet (async open)
+  }
+
+  let rotating = false;
+  let stopped = false;
+  // Background compression and pruning, one rotation at a time
+  let pending: Promise<void> = Promise.resolve();
+  // Rotated file waiting for the new file to open
+  let rotated: string | undefined;
+
+  const enqueue = (work: () => Promise<void>) => {
+    pending = pending.then(work).catch((err: Error) => options.onError(err));
+  };
+
+  // 'ready' fires once the new file is open and the previous one has no pending writes
+  sonic.on('ready', () => {
+    const target = rotated;
+    rotating = false;
+    rotated = undefined;
+    if (target === undefined) {
+      return;
+    }
+    enqueue(async () => {
+      if (compress) {
+        await compressFile(target);
+      }
+      await pruneRotated(path, maxFiles, maxAgeMs);
+    });
+  });
+
+  function rotate(): void {
+    // Skip empty files, rotations in progress and a file that is still opening
+    if (bytes === 0 || rotating || stopped || sonic.destroyed || sonic.fd < 0) {
+      return;
+    }
+
+    const target = rotatedName(path, new Date());
+    try {
+      renameSync(path, target);
+    } catch (err) {
+      // Keep writing to the current file; retry on the next trigger
+      options.onError(err as Error);
+      return;
+    }
+
+    rotating = true;
+    bytes = 0;
+    rotated = target;
+    sonic.reopen();
+  }
+
+  const timer = intervalMs ? setInterval(rotate, intervalMs) : undefined;
+  timer?.unref();
+
+  // Apply retention to files left by previous runs
+  enqueue(() => pruneRotated(path, maxFiles, maxAgeMs));
+
+  const stream: DestinationStream = {
+    write(chunk: string) {
+      sonic.write(chunk);
+      bytes += Buffer.byteLength(chunk);
+      if (maxBytes !== undefined && bytes >= maxBytes) {
+        rotate();
+      }
+    },
+  };
+
+  return {
+    stream,
+    sonic,
+    rotate,
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearInterval(timer);
+      }
+    },
+    idle: () => pending,
+  };
+}
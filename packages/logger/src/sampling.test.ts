@@ -0,0 +1,150 @@
+import { createLogger, runWithContext } from './index';
+import { resolveSampleRate, shouldKeep } from './sampling';
+import { captureDestination, type CapturedOutput } from './test-utils/capture';
+
+describe('sampling', () => {
+  describe('resolveSampleRate()', () => {
+    const config = {
+      rates: { debug: 0.01, info: 0.5 },
+      domains: { discovery: { info: 0.1 }, audit: { info: 1 } },
+    };
+
+    it('should fall back to 1 for unconfigured levels', () => {
+      expect(resolveSampleRate(config, 'warn', undefined)).toBe(1);
+      expect(resolveSampleRate(config, 'error', 'discovery')).toBe(1);
+    });
+
+    it('should prefer domain rates over global rates', () => {
+      expect(resolveSampleRate(config, 'info', undefined)).toBe(0.5);
+      expect(resolveSampleRate(config, 'info', 'discovery')).toBe(0.1);
+      expect(resolveSampleRate(config, 'info', 'audit')).toBe(1);
+      expect(resolveSampleRate(config, 'debug', 'discovery')).toBe(0.01);
+    });
+
+    it('should clamp rates to [0, 1]', () => {
+      expect(resolveSampleRate({ rates: { info: -1 } }, 'info', undefined)).toBe(0);
+      expect(resolveSampleRate({ rates: { info: 5 } }, 'info', undefined)).toBe(1);
+    });
+  });
+
+  describe('shouldKeep()', () => {
+    it('should be deterministic per correlation ID', () => {
+      for (let i = 0; i < 50; i++) {
+        const id = `req-${i}`;
+        expect(shouldKeep(0.3, id)).toBe(shouldKeep(0.3, id));
+      }
+    });
+
+    it('should keep roughly the configured fraction of requests', () => {
+      let kept = 0;
+      for (let i = 0; i < 10000; i++) {
+        if (shouldKeep(0.1, `request-${i}`)) {
+          kept++;
+        }
+      }
+      expect(kept).toBeGreaterThan(800);
+      expect(kept).toBeLessThan(1200);
+    });
+
+    it('should nest decisions: kept at a lower rate implies kept at a higher rate', () => {
+      for (let i = 0; i < 500; i++) {
+        const id = `nest-${i}`;
+        if (shouldKeep(0.05, id)) {
+          expect(shouldKeep(0.2, id)).toBe(true);
+        }
+      }
+    });
+
+    it('should handle the 0 and 1 boundaries', () => {
+      expect(shouldKeep(1, undefined)).toBe(true);
+      expect(shouldKeep(0, 'any')).toBe(false);
+    });
+  });
+
+  describe('createLogger integration', () => {
+    const originalEnv = process.env;
+    let output: CapturedOutput;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      output = captureDestination();
+    });
+
+    afterEach(() => {
+      output.restore();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    const findKeptAndDroppedIds = (rate: number) => {
+      let kept: string | undefined;
+      let dropped: string | undefined;
+      for (let i = 0; !(kept && dropped); i++) {
+        const id = `corr-${i}`;
+        if (shouldKeep(rate, id)) {
+          kept ??= id;
+        } else {
+          dropped ??= id;
+        }
+      }
+      return { kept: kept as string, dropped: dropped as string };
+    };
+
+    it('should keep or drop all lines of a request together and add sample_rate', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        level: 'debug',
+        sampling: { domains: { discovery: { info: 0.1 } } },
+      });
+      const { kept, dropped } = findKeptAndDroppedIds(0.1);
+
+      for (const correlationId of [kept, dropped]) {
+        const reqLogger = logger.withContext({ correlationId, domain: 'discovery' });
+        reqLogger.info('First');
+        reqLogger.info('Second');
+        reqLogger.warn('Always kept');
+      }
+
+      expect(output.lines.map((line) => [line.correlation_id, line.msg])).toEqual([
+        [kept, 'First'],
+        [kept, 'Second'],
+        [kept, 'Always kept'],
+        [dropped, 'Always kept'],
+      ]);
+      expect(output.lines[0].sample_rate).toBe(0.1);
+      expect(output.lines[2].sample_rate).toBeUndefined();
+    });
+
+    it('should not sample other domains', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        sampling: { domains: { discovery: { info: 0 } } },
+      });
+
+      logger.domain('discovery').info('Dropped');
+      logger.domain('auth').info('Kept');
+
+      expect(output.lines.map((line) => line.msg)).toEqual(['Kept']);
+    });
+
+    it('should use the correlation ID and domain from runWithContext()', () => {
+      const logger = createLogger({
+        service: 'my-service',
+        pretty: false,
+        sampling: { domains: { discovery: { info: 0.1 } } },
+      });
+      const { kept, dropped } = findKeptAndDroppedIds(0.1);
+
+      for (const correlationId of [kept, dropped]) {
+        runWithContext({ correlationId, domain: 'discovery' }, () => logger.info('Implicit'));
+      }
+
+      expect(output.lines).toHaveLength(1);
+      expect(output.lines[0]).toMatchObject({ correlation_id: kept, sample_rate: 0.1 });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Consistent per-request log sampling.
+ *
+ * The keep/drop decision is derived from a hash of the correlation ID, so every line of a
+ * sampled request is kept (or dropped) together instead of leaving random fragments.
+ * Because the same hash is compared against every level's rate, a request kept at a
+ * lower rate (e.g. debug at 1%) is always also kept at higher rates (info at 10%).
+ *
+ * Lines without a correlation ID fall back to an independent random decision.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Keep rates by level name, between 0 (drop all) and 1 (keep all) */
+export type LevelSampleRates = Partial<Record<string, number>>;
+
+/**
+ * Sampling configuration.
+ *
+ * Levels without a configured rate are always kept.
+ *
+ * @example
+ * ```typescript
+ * sampling: {
+ *   rates: { debug: 0.01, info: 0.5 },
+ *   domains: { discovery: { info: 0.1 } },
+ * }
+ * ```
+ */
+export interface SamplingConfig {
+  /** Keep rates applied to every domain */
+  rates?: LevelSampleRates;
+  /** Per-domain keep rates, taking precedence over `rates` for the listed levels */
+  domains?: Record<string, LevelSampleRates>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Resolve the keep rate for a level in a domain (1 when unconfigured).
+ * @internal
+ */
+export function resolveSampleRate(
+  config: SamplingConfig,
+  level: string,
+  domain: string | undefined
+): number {
+  const domainRate = domain !== undefined ? config.domains?.[domain]?.[level] : undefined;
+  const rate = domainRate ?? config.rates?.[level];
+  if (rate === undefined || rate >= 1) {
+    return 1;
+  }
+  return rate <= 0 ? 0 : rate;
+}
+
+/**
+ * Map a correlation ID to a stable number in [0, 1) using 32-bit FNV-1a.
+ */
+function hashToUnit(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Decide whether to keep a line sampled at `rate`.
+ * Deterministic for a given correlation ID, random otherwise.
+ * @internal
+ */
+export function shouldKeep(rate: number, correlationId: string | undefined): boolean {
+  if (rate >= 1) {
+    return true;
+  }
+  if (rate <= 0) {
+    return false;
+  }
+  const point = correlationId !== undefined ? hashToUnit(correlationId) : Math.random();
+  return point < rate;
+}
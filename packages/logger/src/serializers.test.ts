@@ -0,0 +1,242 @@
+import { BUILTIN_SERIALIZERS, applyTypeSerializers, resolveTypeSerializers } from './serializers';
+import { createTestLogger } from './testing';
+
+// Shapes of the client libraries' objects, as far as the serializers read them
+
+function axiosError(status?: number) {
+  const config = {
+    method: 'post',
+    baseURL: 'https://api.example.com',
+    url: '/v1/charges?api_key=secret',
+    headers: { Authorization: 'Bearer secret-token' },
+    data: '{"card":"4111111111111111"}',
+  };
+  return Object.assign(
+    new Error(status ? `Request failed with status code ${status}` : 'socket hang up'),
+    {
+      name: 'AxiosError',
+      isAxiosError: true,
+      code: 'ERR_BAD_RESPONSE',
+      config,
+      request: { path: '/v1/charges?api_key=secret' },
+      response: status
+        ? {
+            status,
+            statusText: 'Bad Gateway',
+            headers: { 'x-request-id': 'req-42', 'set-cookie': 'session=abc' },
+            data: { token: 'secret' },
+            config,
+            request: {},
+          }
+        : undefined,
+    }
+  );
+}
+
+class ServiceException extends Error {
+  $fault = 'client';
+  $metadata = {
+    httpStatusCode: 400,
+    requestId: 'aws-req-1',
+    extendedRequestId: 'ext-1',
+    attempts: 3,
+    totalRetryDelay: 250,
+  };
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+  }
+}
+
+class ZodError extends Error {
+  name = 'ZodError';
+  constructor(public issues: Record<string, unknown>[]) {
+    super(JSON.stringify(issues));
+  }
+}
+
+class DatabaseError extends Error {
+  code = '23505';
+  severity = 'ERROR';
+  table = 'users';
+  constraint = 'users_email_key';
+  detail = 'Key (email)=(alice@example.com) already exists.';
+  routine = '_bt_check_unique';
+}
+
+describe('serializers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('built-ins', () => {
+    it('should serialize axios errors and responses without config, headers or query', () => {
+      const err = axiosError(502);
+
+      const serialized = BUILTIN_SERIALIZERS.axios.serialize(err);
+      expect(serialized).toEqual({
+        type: 'AxiosError',
+        message: 'Request failed with status code 502',
+        code: 'ERR_BAD_RESPONSE',
+        method: 'POST',
+        url: 'https://api.example.com/v1/charges',
+        status: 502,
+        status_text: 'Bad Gateway',
+        request_id: 'req-42',
+        stack: expect.any(String),
+      });
+      expect(JSON.stringify(serialized)).not.toMatch(/secret|4111|session/);
+
+      expect(BUILTIN_SERIALIZERS.axios.serialize(err.response)).toEqual({
+        status: 502,
+        status_text: 'Bad Gateway',
+        method: 'POST',
+        url: 'https://api.example.com/v1/charges',
+        request_id: 'req-42',
+      });
+      expect(BUILTIN_SERIALIZERS.axios.test(new Error('plain'))).toBe(false);
+    });
+
+    it('should serialize fetch responses', () => {
+      const response = new Response('{}', {
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'content-type': 'application/json', 'x-request-id': 'req-7' },
+      });
+
+      expect(BUILTIN_SERIALIZERS.fetch.test(response)).toBe(true);
+      expect(BUILTIN_SERIALIZERS.fetch.serialize(response)).toEqual({
+        status: 404,
+        status_text: 'Not Found',
+        ok: false,
+        content_type: 'application/json',
+        request_id: 'req-7',
+      });
+    });
+
+    it('should keep AWS request metadata', () => {
+      const err = new ServiceException('ThrottlingException', 'Rate exceeded');
+
+      expect(BUILTIN_SERIALIZERS.aws.serialize(err)).toEqual({
+        type: 'ThrottlingException',
+        message: 'Rate exceeded',
+        fault: 'client',
+        http_status_code: 400,
+        request_id: 'aws-req-1',
+        extended_request_id: 'ext-1',
+        attempts: 3,
+        total_retry_delay_ms: 250,
+        stack: expect.any(String),
+      });
+    });
+
+    it('should summarize Zod issues without received values', () => {
+      const issues = Array.from({ length: 22 }, (_, i) => ({
+        code: 'invalid_type',
+        path: ['items', i, 'price'],
+        message: 'Expected number, received string',
+        received: 'secret-value',
+      }));
+
+      const serialized = BUILTIN_SERIALIZERS.zod.serialize(new ZodError(issues)) as {
+        issues: unknown[];
+      };
+      expect(serialized).toMatchObject({
+        type: 'ZodError',
+        message: 'Validation failed with 22 issues',
+        omitted_issues: 2,
+      });
+      expect(serialized.issues).toHaveLength(20);
+      expect(serialized.issues[1]).toEqual({
+        path: 'items.1.price',
+        code: 'invalid_type',
+        message: 'Expected number, received string',
+      });
+      expect(JSON.stringify(serialized)).not.toContain('secret-value');
+    });
+
+    it('should serialize Postgres errors without row details', () => {
+      const err = new DatabaseError('duplicate key value violates unique constraint');
+
+      const serialized = BUILTIN_SERIALIZERS.pg.serialize(err);
+      expect(serialized).toEqual({
+        type: 'DatabaseError',
+        message: 'duplicate key value violates unique constraint',
+        code: '23505',
+        severity: 'ERROR',
+        table: 'users',
+        constraint: 'users_email_key',
+        routine: '_bt_check_unique',
+        stack: expect.any(String),
+      });
+      expect(BUILTIN_SERIALIZERS.pg.test(Object.assign(new Error('x'), { code: 'E1' }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('registry', () => {
+    it('should resolve built-ins by name and reject unknown names', () => {
+      const custom = { name: 'custom', test: () => false, serialize: (value: unknown) => value };
+
+      expect(resolveTypeSerializers(['zod', custom])).toEqual([BUILTIN_SERIALIZERS.zod, custom]);
+      expect(() => resolveTypeSerializers(['mongo' as 'pg'])).toThrow('Unknown serializer "mongo"');
+    });
+
+    it('should only replace matching top-level fields', () => {
+      const types = resolveTypeSerializers(['aws']);
+      const obj = { user_id: 'u-1', count: 2 };
+
+      expect(applyTypeSerializers(obj, types)).toBe(obj);
+      expect(
+        applyTypeSerializers({ failure: new ServiceException('NoSuchKey', 'Missing') }, types)
+      ).toEqual({
+        failure: expect.objectContaining({ type: 'NoSuchKey', request_id: 'aws-req-1' }),
+      });
+    });
+
+    it('should apply type serializers to log fields, err and error causes', () => {
+      const logger = createTestLogger({ serializers: { types: ['axios', 'pg'] } });
+      const cause = axiosError();
+
+      logger.error('Upstream failed', { err: axiosError(502), upstream: axiosError(502).response });
+      logger.error('Import failed', {
+        err: new Error('Import failed', { cause: new DatabaseError('duplicate key') }),
+      });
+      logger.warn('Retrying', { err: new Error('Retry', { cause }) });
+
+      logger.expectLogged({
+        msg: 'Upstream failed',
+        err: { type: 'AxiosError', status: 502 },
+        upstream: { status: 502, request_id: 'req-42' },
+      });
+      expect(logger.entries[0].err).toHaveProperty('fingerprint');
+      expect(JSON.stringify(logger.entries[0])).not.toMatch(/secret|Authorization/);
+      logger.expectLogged({ msg: 'Import failed', err: { cause: { code: '23505' } } });
+      expect(JSON.stringify(logger.entries[1])).not.toContain('alice@example.com');
+      expect(logger.entries[2].err).toMatchObject({
+        cause: { type: 'AxiosError', url: 'https://api.example.com/v1/charges' },
+      });
+    });
+
+    it('should apply field serializers and redact their output', () => {
+      const logger = createTestLogger({
+        redact: { keys: true },
+        serializers: {
+          fields: { user: (user: { id: string; password: string }) => ({ ...user, extra: 1 }) },
+        },
+      });
+
+      logger.info('Signed in', { user: { id: 'u-1', password: 'hunter2' } });
+
+      logger.expectLogged({ user: { id: 'u-1', password: '[REDACTED]', extra: 1 } });
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Serializer registry.
+ *
+ * Two kinds of serializers shape values before they are written:
+ * - Field serializers (`serializers.fields`) apply to a top-level field by name, like pino's
+ *   `serializers` option (`req`, `res` and `err` can be replaced)
+ * - Type serializers (`serializers.types`) apply by what a value is, wherever it is logged:
+ *   to top-level fields, and to errors under `err` including their causes
+ *
+ * Built-in type serializers are opt-in by name:
+ *
+ * ```typescript
+ * createLogger({ service: 'billing', serializers: { types: ['axios', 'aws', 'zod'] } });
+ * logger.error('Charge failed', { err: axiosError });
+ * // {"err":{"type":"AxiosError","message":"Request failed with status code 502",
+ * //   "code":"ERR_BAD_RESPONSE","method":"POST","url":"https://api.stripe.com/v1/charges","status":502,...}}
+ * ```
+ *
+ * Design notes:
+ * - Built-ins return compact shapes without headers, bodies, request config or query
+ *   strings, so credentials in `Authorization` headers or `?token=` never reach the log
+ * - Type serializer output still passes through pattern/key redaction
+ * - The first matching type serializer wins; custom serializers listed before a built-in
+ *   take precedence over it
+ */
+
+import type { SerializerFn } from 'pino';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A serializer chosen by the type of the value */
+export interface TypeSerializer {
+  /** Name for diagnostics */
+  name: string;
+  /** Whether this serializer handles the value */
+  test(value: unknown): boolean;
+  /** Replacement for the value (must be JSON-serializable) */
+  serialize(value: unknown): unknown;
+}
+
+/** Names of the built-in type serializers */
+export type BuiltinSerializerName = 'axios' | 'fetch' | 'aws' | 'zod' | 'pg';
+
+/**
+ * Serializer configuration.
+ *
+ * @example
+ * serializers: {
+ *   fields: { user: (user: User) => ({ id: user.id }) },
+ *   types: ['axios', 'pg', { name: 'money', test: isMoney, serialize: (m) => m.toString() }],
+ * }
+ */
+export interface SerializersConfig {
+  /** Serializers by top-level field name */
+  fields?: Record<string, SerializerFn>;
+  /** Type serializers, built-in by name or custom; the first match wins */
+  types?: (BuiltinSerializerName | TypeSerializer)[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => value !== null && typeof value === 'object';
+
+/** Drop undefined fields so the written shape stays compact */
+function compact(fields: Fields): Fields {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+/** Origin and path only: credentials, query string and fragment are dropped */
+function sanitizeUrl(url: unknown, base?: unknown): string | undefined {
+  if (typeof url !== 'string') {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url, typeof base === 'string' ? base : undefined);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-amzn-requestid', 'x-amz-request-id'];
+
+/** Request ID from response headers (plain objects, AxiosHeaders or fetch Headers) */
+function requestIdHeader(headers: unknown): string | undefined {
+  if (!isObject(headers)) {
+    return undefined;
+  }
+  for (const name of REQUEST_ID_HEADERS) {
+    const value =
+      typeof headers.get === 'function'
+        ? (headers.get as (name: string) => unknown)(name)
+        : headers[name];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// BUILT-INS
+// =============================================================================
+
+const isAxiosError = (value: unknown): value is Error & Fields =>
+  isObject(value) && value.isAxiosError === true;
+
+const isAxiosResponse = (value: unknown): value is Fields =>
+  isObject(value) &&
+  typeof value.status === 'number' &&
+  isObject(value.config) &&
+  'headers' in value &&
+  'request' in value;
+
+/** Method and sanitized URL of an axios request config */
+function axiosRequest(config: unknown): Fields {
+  if (!isObject(config)) {
+    return {};
+  }
+  return {
+    method: typeof config.method === 'string' ? config.method.toUpperCase() : undefined,
+    url: sanitizeUrl(config.url, config.baseURL),
+  };
+}
+
+const axiosSerializer: TypeSerializer = {
+  name: 'axios',
+  test: (value) => isAxiosError(value) || isAxiosResponse(value),
+  serialize(value) {
+    if (isAxiosError(value)) {
+      const response = isObject(value.response) ? value.response : undefined;
+      return compact({
+        type: 'AxiosError',
+        message: value.message,
+        code: value.code,
+        ...axiosRequest(value.config),
+        status: response?.status,
+        status_text: response?.statusText || undefined,
+        request_id: requestIdHeader(response?.headers),
+        stack: value.stack,
+      });
+    }
+    const response = value as Fields;
+    return compact({
+      status: response.status,
+      status_text: response.statusText || undefined,
+      ...axiosRequest(response.config),
+      request_id: requestIdHeader(response.headers),
+    });
+  },
+};
+
+const fetchSerializer: TypeSerializer = {
+  name: 'fetch',
+  test: (value) => typeof Response !== 'undefined' && value instanceof Response,
+  serialize(value) {
+    const response = value as Response;
+    return compact({
+      status: response.status,
+      status_text: response.statusText || undefined,
+      ok: response.ok,
+      url: sanitizeUrl(response.url) || undefined,
+      redirected: response.redirected || undefined,
+      content_type: response.headers.get('content-type') ?? undefined,
+      request_id: requestIdHeader(response.headers),
+    });
+  },
+};
+
+const awsSerializer: TypeSerializer = {
+  name: 'aws',
+  test: (value) => value instanceof Error && isObject((value as Error & Fields).$metadata),
+  serialize(value) {
+    const err = value as Error & Fields;
+    const metadata = err.$metadata as Fields;
+    return compact({
+      type: err.name,
+      message: err.message,
+      fault: err.$fault,
+      http_status_code: metadata.httpStatusCode,
+      request_id: metadata.requestId,
+      extended_request_id: metadata.extendedRequestId,
+      cf_id: metadata.cfId,
+      attempts: metadata.attempts,
+      total_retry_delay_ms: metadata.totalRetryDelay,
+      stack: err.stack,
+    });
+  },
+};
+
+const MAX_ZOD_ISSUES = 20;
+
+const zodSerializer: TypeSerializer = {
+  name: 'zod',
+  test: (value) =>
+    value instanceof Error &&
+    value.name === 'ZodError' &&
+    Array.isArray((value as Error & Fields).issues),
+  serialize(value) {
+    // The message and stack repeat every issue as JSON, including received values
+    const issues = (value as Error & { issues: Fields[] }).issues;
+    return compact({
+      type: 'ZodError',
+      message: `Validation failed with ${issues.length} issue${issues.length === 1 ? '' : 's'}`,
+      issues: issues.slice(0, MAX_ZOD_ISSUES).map((issue) =>
+        compact({
+          path: Array.isArray(issue.path) ? issue.path.join('.') : undefined,
+          code: issue.code,
+          message: issue.message,
+        })
+      ),
+      omitted_issues: issues.length > MAX_ZOD_ISSUES ? issues.length - MAX_ZOD_ISSUES : undefined,
+    });
+  },
+};
+
+const pgSerializer: TypeSerializer = {
+  name: 'pg',
+  test: (value) =>
+    value instanceof Error &&
+    typeof (value as Error & Fields).code === 'string' &&
+    typeof (value as Error & Fields).severity === 'string' &&
+    'routine' in value,
+  serialize(value) {
+    // `detail`, `where` and `internalQuery` can contain row values and SQL, so they are left out
+    const err = value as Error & Fields;
+    return compact({
+      type: err.constructor.name,
+      message: err.message,
+      code: err.code,
+      severity: err.severity,
+      schema: err.schema,
+      table: err.table,
+      column: err.column,
+      constraint: err.constraint,
+      routine: err.routine,
+      stack: err.stack,
+    });
+  },
+};
+
+/**
+ * Built-in type serializers, enabled by name via `serializers.types`.
+ *
+ * - `axios`: axios errors and responses (method, URL without query, status, request ID)
+ * - `fetch`: fetch `Response` objects (status, URL without query, content type, request ID)
+ * - `aws`: AWS SDK v3 `ServiceException`s (`$metadata` request IDs, HTTP status, attempts)
+ * - `zod`: `ZodError` issues (path, code, message) without received values
+ * - `pg`: node-postgres `DatabaseError`s (SQLSTATE code, table, constraint) without `detail`
+ */
+export const BUILTIN_SERIALIZERS: Readonly<Record<BuiltinSerializerName, TypeSerializer>> = {
+  axios: axiosSerializer,
+  fetch: fetchSerializer,
+  aws: awsSerializer,
+  zod: zodSerializer,
+  pg: pgSerializer,
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Resolve built-in names to serializers.
+ * Throws on an unknown built-in name.
+ * @internal
+ */
+export function resolveTypeSerializers(types: SerializersConfig['types'] = []): TypeSerializer[] {
+  return types.map((entry) => {
+    if (typeof entry !== 'string') {
+      return entry;
+    }
+    const builtin = BUILTIN_SERIALIZERS[entry];
+    if (!builtin) {
+      throw new Error(
+        `[@arivlabs/logger] Unknown serializer "${String(entry)}". ` +
+          `Built-ins: ${Object.keys(BUILTIN_SERIALIZERS).join(', ')}`
+      );
+    }
+    return builtin;
+  });
+}
+
+/**
+ * The first type serializer that handles `value`, if any.
+ * @internal
+ */
+export function findTypeSerializer(
+  types: TypeSerializer[],
+  value: unknown
+): TypeSerializer | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+  return types.find((serializer) => serializer.test(value));
+}
+
+/**
+ * Apply type serializers to the top-level fields of a log object. `err` is skipped: the
+ * error serializer applies them itself. Returns the object unchanged when nothing matched.
+ * @internal
+ */
+export function applyTypeSerializers(obj: Fields, types: TypeSerializer[]): Fields {
+  let result: Fields | undefined;
+  for (const key of Object.keys(obj)) {
+    if (key === 'err') {
+      continue;
+    }
+    const serializer = findTypeSerializer(types, obj[key]);
+    if (serializer) {
+      result ??= { ...obj };
+      result[key] = serializer.serialize(obj[key]);
+    }
+  }
+  return result ?? obj;
+}
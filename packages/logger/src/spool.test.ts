@@ -0,0 +1,137 @@
+import { appendFileSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSpool, type Spool, type SpoolConfig } from './spool';
+
+describe('disk spool', () => {
+  let dir: string;
+  let spools: Spool<number>[];
+  let delivered: number[][];
+  let available: boolean;
+
+  const open = (config: Partial<SpoolConfig> = {}) => {
+    const spool = createSpool<number>(
+      { dir, replayIntervalMs: 60_000, ...config },
+      async (records) => {
+        if (!available) {
+          throw new Error('Sink unavailable');
+        }
+        delivered.push(records);
+      }
+    );
+    spools.push(spool);
+    return spool;
+  };
+
+  const segments = () => readdirSync(dir).filter((name) => name.endsWith('.ndjson'));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'logger-spool-'));
+    spools = [];
+    delivered = [];
+    available = true;
+  });
+
+  afterEach(() => {
+    spools.forEach((spool) => spool.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep records while the sink is down and replay them in order', async () => {
+    const spool = open({ maxSegmentBytes: 5, batchSize: 3 });
+    available = false;
+
+    spool.append([1, 2, 3, 4]);
+    spool.append([5, 6]);
+    await spool.replay();
+
+    expect(spool.hasPending()).toBe(true);
+    expect(delivered).toEqual([]);
+    expect(segments()).toHaveLength(2);
+
+    available = true;
+    await spool.replay();
+
+    expect(delivered).toEqual([[1, 2, 3], [4], [5, 6]]);
+    expect(spool.hasPending()).toBe(false);
+    expect(segments()).toEqual([]);
+    expect(spool.stats()).toEqual({
+      spooled: 6,
+      replayed: 6,
+      dropped: 0,
+      pendingRecords: 0,
+      pendingBytes: 0,
+    });
+  });
+
+  it('should resume after the last acknowledged batch when reopened', async () => {
+    const first = open({ batchSize: 2 });
+    first.append([1, 2, 3, 4, 5]);
+    // The sink fails after the first batch, then the process "crashes"
+    let calls = 0;
+    const flaky = createSpool<number>({ dir, batchSize: 2 }, async (records) => {
+      if (++calls > 1) {
+        throw new Error('Sink unavailable');
+      }
+      delivered.push(records);
+    });
+    spools.push(flaky);
+    await flaky.replay();
+    expect(delivered).toEqual([[1, 2]]);
+
+    const reopened = open({ batchSize: 2 });
+    expect(reopened.stats().pendingRecords).toBe(3);
+    await reopened.replay();
+
+    expect(delivered).toEqual([[1, 2], [3, 4], [5]]);
+    expect(reopened.hasPending()).toBe(false);
+  });
+
+  it('should not apply a fully replayed ack to segments of the next run', async () => {
+    const first = open();
+    first.append([1, 2, 3, 4, 5]);
+    await first.replay();
+    first.close();
+    expect(segments()).toEqual([]);
+
+    const second = open();
+    second.append([6, 7, 8, 9, 10, 11, 12]);
+    await second.replay();
+
+    expect(delivered).toEqual([
+      [1, 2, 3, 4, 5],
+      [6, 7, 8, 9, 10, 11, 12],
+    ]);
+    expect(second.stats()).toMatchObject({ replayed: 7, dropped: 0 });
+  });
+
+  it('should drop the oldest segments beyond maxBytes', async () => {
+    // Every append of two records is 4 bytes ("1\n2\n") and starts a new segment
+    const spool = open({ maxBytes: 10, maxSegmentBytes: 1 });
+
+    spool.append([1, 2]);
+    spool.append([3, 4]);
+    spool.append([5, 6]);
+    spool.append([7, 8]);
+    await spool.replay();
+
+    expect(delivered).toEqual([
+      [5, 6],
+      [7, 8],
+    ]);
+    expect(spool.stats()).toMatchObject({ spooled: 8, replayed: 4, dropped: 4 });
+  });
+
+  it('should skip a partial line left by a crash mid-append', async () => {
+    const spool = open();
+    spool.append([1, 2]);
+    appendFileSync(join(dir, segments()[0]), '{"trunc');
+    spool.close();
+
+    const reopened = open();
+    await reopened.replay();
+
+    expect(delivered).toEqual([[1, 2]]);
+    expect(reopened.stats().dropped).toBe(1);
+  });
+});
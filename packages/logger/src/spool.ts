@@ -0,0 +1,320 @@
+/**
+ * Disk-backed spool for network destinations.
+ *
+ * When a sink is unreachable, batches that could not be delivered are appended to a spool
+ * directory instead of being dropped, and replayed in order once the sink recovers. Used
+ * by the CloudWatch transport and the OTLP exporter (`spool` option); custom destinations
+ * can use createSpool() directly.
+ *
+ * Layout:
+ * - `<dir>/000000000001.ndjson`, ...: segments of one JSON record per line, oldest first.
+ *   A segment is closed for appends once it reaches `maxSegmentBytes`
+ * - `<dir>/ack.json`: `{ segment, line }`, the number of lines of the oldest segment
+ *   already delivered. Written atomically (write + rename) after every delivered batch
+ *
+ * Design notes:
+ * - Delivery is at-least-once: a crash between delivery and acknowledgement replays that
+ *   one batch, but an acknowledgement never skips or repeats any other record
+ * - While records are spooled, new batches are appended behind them (not sent directly)
+ *   so the sink receives records in order
+ * - `maxBytes` caps the directory: the oldest segments are dropped (and counted) first
+ * - Segments left by a crashed run are replayed on startup
+ * - Sequence numbers are never reused, so a stale ack cannot apply to a new segment
+ */
+
+import {
+  appendFileSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Spool settings for a network destination.
+ *
+ * @example
+ * spool: { dir: '/var/spool/my-service/cloudwatch', maxBytes: 500 * 1024 * 1024 }
+ */
+export interface SpoolConfig {
+  /** Spool directory, one per destination (created if missing) */
+  dir: string;
+  /** Total size cap; the oldest segments are dropped beyond it (default: 100 MB) */
+  maxBytes?: number;
+  /** Segment size before a new one is started (default: 1 MB) */
+  maxSegmentBytes?: number;
+  /** Try to replay spooled records this often (default: 5000) */
+  replayIntervalMs?: number;
+  /** Records handed to the sink per replayed batch (default: 500) */
+  batchSize?: number;
+}
+
+/** Spool counters since the spool was opened */
+export interface SpoolStats {
+  /** Records appended to the spool */
+  spooled: number;
+  /** Spooled records delivered (acknowledged) */
+  replayed: number;
+  /** Spooled records dropped by the `maxBytes` cap */
+  dropped: number;
+  /** Records waiting in the spool, including ones left by a previous run */
+  pendingRecords: number;
+  /** Size of the spool segments */
+  pendingBytes: number;
+}
+
+/** A spool of undelivered records */
+export interface Spool<T> {
+  /** Whether records are waiting; new records must then be appended, not sent */
+  hasPending(): boolean;
+  /** Append records behind the ones already spooled */
+  append(records: T[]): void;
+  /** Deliver spooled records in order until the spool is empty or delivery fails */
+  replay(): Promise<void>;
+  /** Stop the replay timer (spooled records stay on disk for the next run) */
+  close(): void;
+  stats(): SpoolStats;
+}
+
+/**
+ * Delivers one replayed batch. Reject to keep the batch spooled and retry later; resolve
+ * to acknowledge it (also for records the sink rejected permanently).
+ */
+export type SpoolDeliver<T> = (records: T[]) => Promise<void>;
+
+interface Segment {
+  seq: number;
+  file: string;
+  bytes: number;
+  records: number;
+}
+
+interface Ack {
+  segment: number;
+  line: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const SEGMENT = /^(\d{12})\.ndjson$/;
+const ACK_FILE = 'ack.json';
+
+const segmentFile = (dir: string, seq: number) =>
+  join(dir, `${String(seq).padStart(12, '0')}.ndjson`);
+
+function readLines(file: string): string[] {
+  try {
+    return readFileSync(file, 'utf8').split('\n').filter(Boolean);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw err;
+  }
+}
+
+function unlinkIfExists(file: string): void {
+  try {
+    unlinkSync(file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+  }
+}
+
+function readAck(dir: string): Ack | undefined {
+  try {
+    return JSON.parse(readFileSync(join(dir, ACK_FILE), 'utf8')) as Ack;
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// SPOOL
+// =============================================================================
+
+/**
+ * Open (or create) a spool directory. Segments left by a previous run are kept and
+ * replayed first.
+ *
+ * @example
+ * ```typescript
+ * const spool = createSpool<string>({ dir: '/var/spool/my-sink' }, (lines) => send(lines));
+ * if (spool.hasPending()) spool.append(batch);
+ * else await send(batch).catch(() => spool.append(batch));
+ * ```
+ */
+export function createSpool<T>(
+  config: SpoolConfig,
+  deliver: SpoolDeliver<T>,
+  onError: (err: Error) => void = () => {}
+): Spool<T> {
+  const { dir } = config;
+  const maxBytes = config.maxBytes ?? 100 * 1024 * 1024;
+  const maxSegmentBytes = config.maxSegmentBytes ?? 1024 * 1024;
+  const batchSize = config.batchSize ?? 500;
+
+  mkdirSync(dir, { recursive: true });
+
+  // Segments left by a previous run, oldest first
+  const segments: Segment[] = readdirSync(dir)
+    .map((name) => SEGMENT.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => {
+      const file = join(dir, match[0]);
+      return {
+        seq: Number(match[1]),
+        file,
+        bytes: statSync(file).size,
+        records: readLines(file).length,
+      };
+    })
+    .sort((a, b) => a.seq - b.seq);
+
+  let ack: Ack = readAck(dir) ?? { segment: 0, line: 0 };
+  // The ack outlives fully replayed segments: never reuse its sequence number
+  let nextSeq = Math.max(segments.at(-1)?.seq ?? 0, ack.segment) + 1;
+  // Segment receiving appends (never one left by a previous run)
+  let active: Segment | undefined;
+  const stats = { spooled: 0, replayed: 0, dropped: 0 };
+  let replaying: Promise<void> | undefined;
+
+  const writeAck = (next: Ack) => {
+    const tmp = join(dir, `${ACK_FILE}.tmp`);
+    writeFileSync(tmp, JSON.stringify(next));
+    renameSync(tmp, join(dir, ACK_FILE));
+    ack = next;
+  };
+
+  /** Records of a segment not yet acknowledged */
+  const unacked = (segment: Segment) =>
+    segment.records - (ack.segment === segment.seq ? ack.line : 0);
+
+  const removeSegment = (segment: Segment) => {
+    segments.splice(segments.indexOf(segment), 1);
+    if (active === segment) {
+      active = undefined;
+    }
+    unlinkIfExists(segment.file);
+  };
+
+  /** Drop the oldest segments until `bytes` more fit under maxBytes */
+  const makeRoom = (bytes: number) => {
+    let total = segments.reduce((sum, s) => sum + s.bytes, 0);
+    while (segments.length > 0 && total + bytes > maxBytes) {
+      const oldest = segments[0];
+      stats.dropped += unacked(oldest);
+      total -= oldest.bytes;
+      removeSegment(oldest);
+    }
+  };
+
+  function append(records: T[]): void {
+    if (records.length === 0) {
+      return;
+    }
+    const data = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+    const bytes = Buffer.byteLength(data);
+    if (bytes > maxBytes) {
+      stats.dropped += records.length;
+      return;
+    }
+    makeRoom(bytes);
+
+    if (!active || active.bytes >= maxSegmentBytes) {
+      active = { seq: nextSeq++, file: '', bytes: 0, records: 0 };
+      active.file = segmentFile(dir, active.seq);
+      segments.push(active);
+    }
+    try {
+      appendFileSync(active.file, data);
+    } catch (err) {
+      stats.dropped += records.length;
+      onError(err as Error);
+      return;
+    }
+    active.bytes += bytes;
+    active.records += records.length;
+    stats.spooled += records.length;
+  }
+
+  function replay(): Promise<void> {
+    replaying ??= (async () => {
+      try {
+        while (segments.length > 0) {
+          const segment = segments[0];
+          // Close the segment for appends so it can be replayed to the end
+          if (active === segment) {
+            active = undefined;
+          }
+
+          const lines = readLines(segment.file);
+          let line = ack.segment === segment.seq ? ack.line : 0;
+          while (line < lines.length) {
+            const chunk = lines.slice(line, line + batchSize);
+            const records: T[] = [];
+            for (const text of chunk) {
+              try {
+                records.push(JSON.parse(text) as T);
+              } catch {
+                // Partial line from a crash mid-append
+                stats.dropped++;
+              }
+            }
+            const count = records.length;
+            if (count > 0) {
+              await deliver(records);
+            }
+            // The segment may have been dropped by maxBytes while delivering
+            if (!segments.includes(segment)) {
+              break;
+            }
+            line += chunk.length;
+            writeAck({ segment: segment.seq, line });
+            stats.replayed += count;
+          }
+
+          if (segments.includes(segment)) {
+            removeSegment(segment);
+          }
+        }
+      } catch {
+        // Sink still unavailable: keep everything spooled and retry on the next tick
+      } finally {
+        replaying = undefined;
+      }
+    })();
+    return replaying;
+  }
+
+  const timer = setInterval(() => {
+    if (segments.length > 0) {
+      void replay();
+    }
+  }, config.replayIntervalMs ?? 5000);
+  timer.unref();
+
+  return {
+    hasPending: () => segments.length > 0,
+    append,
+    replay,
+    close: () => clearInterval(timer),
+    stats: () => ({
+      ...stats,
+      pendingRecords: segments.reduce((sum, s) => sum + unacked(s), 0),
+      pendingBytes: segments.reduce((sum, s) => sum + s.bytes, 0),
+    }),
+  };
+}
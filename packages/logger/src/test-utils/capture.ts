@@ -0,0 +1,42 @@
+/**
+ * Test helper: replaces pino.destination() with an in-memory SonicBoom-like stream
+ * so tests can assert on the JSON lines a real pino logger writes.
+ */
+
+import pino from 'pino';
+
+export interface CapturedOutput {
+  /** Parsed log lines, in write order */
+  lines: Record<string, unknown>[];
+  /** Restore the real pino.destination() */
+  restore(): void;
+}
+
+export function captureDestination(): CapturedOutput {
+  const lines: Record<string, unknown>[] = [];
+
+  const destination = {
+    write(chunk: string): boolean {
+      for (const line of chunk.split('\n')) {
+        if (line) {
+          lines.push(JSON.parse(line));
+        }
+      }
+      return true;
+    },
+    flushSync: jest.fn(),
+    flush: jest.fn((cb?: () => void) => cb && cb()),
+    end: jest.fn((cb?: () => void) => cb && cb()),
+    destroyed: false,
+    minLength: 0,
+  };
+
+  const spy = jest
+    .spyOn(pino, 'destination')
+    .mockReturnValue(destination as unknown as ReturnType<typeof pino.destination>);
+
+  return {
+    lines,
+    restore: () => spy.mockRestore(),
+  };
+}
@@ -0,0 +1,111 @@
+import { createTestLogger, logMatchers } from './testing';
+
+expect.extend(logMatchers);
+
+describe('createTestLogger', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should record entries after redaction and serialization', () => {
+    const logger = createTestLogger();
+
+    logger.domain('auth').error('Login failed', {
+      password: 'hunter2',
+      err: new TypeError('bad input'),
+    });
+
+    expect(logger.entries).toHaveLength(1);
+    expect(logger.entries[0]).toMatchObject({
+      level: 50,
+      service: 'test-service',
+      environment: 'test',
+      domain: 'auth',
+      msg: 'Login failed',
+      password: '[REDACTED]',
+      err: { type: 'TypeError', message: 'bad input' },
+    });
+  });
+
+  it('should find entries by level, message, domain, fields and correlation ID', () => {
+    const logger = createTestLogger();
+
+    logger.info('Started');
+    logger.withContext({ correlationId: 'req-1' }).warn('Retrying upload', { attempt: 2 });
+    logger.withContext({ correlationId: 'req-2' }).domain('discovery').debug('Scanned');
+
+    expect(logger.find({ level: 'warn' })).toHaveLength(1);
+    expect(logger.find({ msg: /^Retry/, attempt: 2 })).toHaveLength(1);
+    expect(logger.find({ domain: 'discovery' })[0].msg).toBe('Scanned');
+    expect(logger.findByCorrelationId('req-1').map((entry) => entry.msg)).toEqual([
+      'Retrying upload',
+    ]);
+    expect(logger.expectLogged({ level: 'info', msg: 'Started' }).level).toBe(30);
+    expect(() => logger.expectNotLogged({ level: 'error' })).not.toThrow();
+
+    logger.clear();
+    expect(logger.entries).toEqual([]);
+  });
+
+  it('should explain failed expectations with the logged entries', () => {
+    const logger = createTestLogger();
+    logger.info('Started', { job_id: 'j-1' });
+
+    expect(() => logger.expectLogged({ level: 'error', domain: 'auth' })).toThrow(
+      'Expected a log entry matching { level: "error", domain: "auth" }.\n' +
+        'Logged entries:\n  info "Started" {"service":"test-service","environment":"test","name":"test-service","job_id":"j-1"}'
+    );
+    expect(() => logger.expectNotLogged({ msg: 'Started' })).toThrow(
+      'Expected no log entry matching { msg: "Started" }, found 1.'
+    );
+    expect(() => logger.find({ level: 'verbose' })).toThrow('Unknown log level "verbose"');
+  });
+
+  it('should provide custom matchers', () => {
+    const logger = createTestLogger();
+    logger.warn('Retrying');
+    logger.warn('Retrying');
+
+    expect(logger).toHaveLogged({ level: 'warn', msg: 'Retrying' });
+    expect(logger).not.toHaveLogged({ level: 'error' });
+    expect(logger).toHaveLoggedTimes({ msg: 'Retrying' }, 2);
+    expect(() => expect(logger).toHaveLogged({ msg: 'Done' })).toThrow(
+      'Expected a log entry matching { msg: "Done" }.'
+    );
+  });
+
+  it('should apply the configured level and keep output deterministic', () => {
+    const logger = createTestLogger({
+      level: 'info',
+      deterministic: { time: '2026-03-01T12:00:00.000Z' },
+      base: { pid: 123, hostname: 'ci-runner' },
+    });
+
+    logger.debug('Hidden');
+    logger.info('Shown');
+    logger.metric('jobs', 1);
+
+    expect(logger.entries).toEqual([
+      {
+        level: 30,
+        time: '2026-03-01T12:00:00.000Z',
+        name: 'test-service',
+        service: 'test-service',
+        environment: 'test',
+        msg: 'Shown',
+      },
+      expect.objectContaining({
+        time: '2026-03-01T12:00:00.000Z',
+        jobs: 1,
+        _aws: expect.objectContaining({ Timestamp: Date.parse('2026-03-01T12:00:00.000Z') }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * @arivlabs/logger/testing
+ *
+ * A logger for tests that records what it writes. createTestLogger() runs the real pipeline
+ * (levels, redaction, serializers, sampling) and keeps every record as a parsed entry in
+ * memory instead of writing to stdout.
+ *
+ * ```typescript
+ * import { createTestLogger, logMatchers } from '@arivlabs/logger/testing';
+ *
+ * expect.extend(logMatchers);
+ *
+ * const logger = createTestLogger({ service: 'billing' });
+ * await chargeCard(logger);
+ * logger.expectLogged({ level: 'info', msg: 'Card charged', domain: 'payments' });
+ * expect(logger).toHaveLogged({ level: 'warn', msg: /retry/ });
+ * ```
+ *
+ * Design notes:
+ * - Records reach the in-memory stream synchronously, so entries are available right
+ *   after the log call
+ * - Child loggers (domain(), withContext(), child()) write to the same entries
+ * - `deterministic` replaces the clock with a fixed time and removes `pid`/`hostname`, so
+ *   entries can be snapshot-tested
+ */
+
+import { isDeepStrictEqual } from 'node:util';
+import pino from 'pino';
+import type { EventCatalog, EventPayloads } from './events';
+import { createLogger, type ArivLogger, type LogData, type LoggerConfig } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A record as written by the logger, parsed from JSON */
+export type LogEntry = Record<string, unknown> & {
+  /** Numeric pino level (e.g. 30 for info) */
+  level: number;
+  time: string;
+  msg?: string;
+};
+
+/**
+ * Criteria for finding entries. Every given key must match: `level` by name, `msg` exactly
+ * or by RegExp, any other field by (partial, for objects) deep equality.
+ *
+ * @example
+ * { level: 'error', msg: /timed out/, domain: 'discovery', err: { type: 'TimeoutError' } }
+ */
+export interface LogMatch {
+  level?: string;
+  msg?: string | RegExp;
+  domain?: string;
+  [field: string]: unknown;
+}
+
+/** Options for createTestLogger() */
+export type TestLoggerConfig = Partial<
+  Omit<LoggerConfig, 'destinations' | 'pretty' | 'enableAsync' | 'asyncBufferSize' | 'format'>
+> & {
+  /**
+   * Fixed clock and no `pid`/`hostname`, for snapshot tests. `true` uses
+   * `2026-01-01T00:00:00.000Z`; pass `{ time }` for another timestamp.
+   * Default: false
+   */
+  deterministic?: boolean | { time: string | Date };
+};
+
+/** A logger that records its output */
+export interface TestLogger<
+  E extends EventPayloads = Record<string, LogData>,
+> extends ArivLogger<E> {
+  /** Entries written so far, oldest first */
+  readonly entries: LogEntry[];
+  /** Entries matching all criteria */
+  find(match: LogMatch): LogEntry[];
+  /** Entries with `correlation_id === correlationId` */
+  findByCorrelationId(correlationId: string): LogEntry[];
+  /** Throw unless an entry matches; returns the first match */
+  expectLogged(match: LogMatch): LogEntry;
+  /** Throw if any entry matches */
+  expectNotLogged(match: LogMatch): void;
+  /** Forget the entries written so far */
+  clear(): void;
+}
+
+/** Result shape shared by Jest and Vitest matchers */
+interface MatcherResult {
+  pass: boolean;
+  message(): string;
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+const DEFAULT_DETERMINISTIC_TIME = '2026-01-01T00:00:00.000Z';
+
+/** Partial deep match: objects match on the expected keys, RegExps test strings */
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' && expected.test(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => matchesValue(actual[i], item))
+    );
+  }
+  if (expected !== null && typeof expected === 'object') {
+    return (
+      actual !== null &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) =>
+        matchesValue((actual as Record<string, unknown>)[key], value)
+      )
+    );
+  }
+  return isDeepStrictEqual(actual, expected);
+}
+
+/**
+ * Whether an entry matches all criteria.
+ * Throws on an unknown level name.
+ */
+function matchesEntry(entry: LogEntry, match: LogMatch): boolean {
+  return Object.entries(match).every(([key, expected]) => {
+    if (expected === undefined) {
+      return true;
+    }
+    if (key === 'level') {
+      const value = pino.levels.values[expected as string];
+      if (value === undefined) {
+        throw new Error(`[@arivlabs/logger] Unknown log level "${String(expected)}"`);
+      }
+      return entry.level === value;
+    }
+    return matchesValue(entry[key], expected);
+  });
+}
+
+function describeMatch(match: LogMatch): string {
+  return `{ ${Object.entries(match)
+    .map(([key, value]) => `${key}: ${value instanceof RegExp ? value : JSON.stringify(value)}`)
+    .join(', ')} }`;
+}
+
+/** The most recent entries, one line each */
+function describeEntries(entries: LogEntry[], limit = 20): string {
+  if (entries.length === 0) {
+    return 'No entries were logged.';
+  }
+  const shown = entries.slice(-limit).map(({ level, msg, time: _time, ...fields }) => {
+    const label = pino.levels.labels[level] ?? String(level);
+    return `  ${label} ${JSON.stringify(msg ?? '')} ${JSON.stringify(fields)}`;
+  });
+  const skipped = entries.length > limit ? `  ... ${entries.length - limit} earlier entries\n` : '';
+  return `Logged entries:\n${skipped}${shown.join('\n')}`;
+}
+
+// =============================================================================
+// TEST LOGGER
+// =============================================================================
+
+/**
+ * Create a logger that records parsed entries in memory.
+ *
+ * Defaults for tests: service `test-service`, environment `test`, level `trace`, sync writes.
+ *
+ * @example
+ * ```typescript
+ * const logger = createTestLogger({ deterministic: true });
+ * logger.domain('auth').info('Login', { user_id: 'u-1' });
+ * expect(logger.entries).toMatchSnapshot();
+ * ```
+ */
+export function createTestLogger<E extends EventPayloads = Record<string, LogData>>(
+  config: TestLoggerConfig & { events?: EventCatalog<E> } = {}
+): TestLogger<E> {
+  const { deterministic, ...loggerConfig } = config;
+  const entries: LogEntry[] = [];
+
+  const fixedTime = deterministic
+    ? new Date(
+        deterministic === true ? DEFAULT_DETERMINISTIC_TIME : deterministic.time
+      ).toISOString()
+    : undefined;
+
+  const capture = {
+    write(line: string): void {
+      const entry = JSON.parse(line) as LogEntry;
+      if (fixedTime) {
+        entry.time = fixedTime;
+        delete entry.pid;
+        delete entry.hostname;
+        // EMF records carry their own timestamp
+        const aws = entry._aws as { Timestamp?: number } | undefined;
+        if (aws?.Timestamp !== undefined) {
+          aws.Timestamp = Date.parse(fixedTime);
+        }
+      }
+      entries.push(entry);
+    },
+  };
+
+  const logger = createLogger({
+    service: 'test-service',
+    environment: 'test',
+    level: 'trace',
+    ...loggerConfig,
+    pretty: false,
+    enableAsync: false,
+    destinations: [{ target: capture }],
+  });
+
+  const find = (match: LogMatch) => entries.filter((entry) => matchesEntry(entry, match));
+
+  return Object.assign(logger, {
+    entries,
+    find,
+    findByCorrelationId: (correlationId: string) =>
+      entries.filter((entry) => entry.correlation_id === correlationId),
+    expectLogged(match: LogMatch): LogEntry {
+      const [first] = find(match);
+      if (!first) {
+        throw new Error(
+          `Expected a log entry matching ${describeMatch(match)}.\n${describeEntries(entries)}`
+        );
+      }
+      return first;
+    },
+    expectNotLogged(match: LogMatch): void {
+      const found = find(match);
+      if (found.length > 0) {
+        throw new Error(
+          `Expected no log entry matching ${describeMatch(match)}, ` +
+            `found ${found.length}.\n${describeEntries(found)}`
+        );
+      }
+    },
+    clear(): void {
+      entries.length = 0;
+    },
+  });
+}
+
+// =============================================================================
+// MATCHERS
+// =============================================================================
+
+/**
+ * Custom matchers for Jest and Vitest: `expect.extend(logMatchers)`.
+ *
+ * @example
+ * expect(logger).toHaveLogged({ level: 'error', domain: 'auth' });
+ * expect(logger).not.toHaveLogged({ msg: /password/ });
+ * expect(logger).toHaveLoggedTimes({ msg: 'Retrying' }, 3);
+ */
+export const logMatchers = {
+  toHaveLogged(received: TestLogger, match: LogMatch): MatcherResult {
+    const found = received.find(match);
+    const pass = found.length > 0;
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected no log entry matching ${describeMatch(match)}, found ${found.length}.\n` +
+            describeEntries(found)
+          : `Expected a log entry matching ${describeMatch(match)}.\n` +
+            describeEntries(received.entries),
+    };
+  },
+
+  toHaveLoggedTimes(received: TestLogger, match: LogMatch, times: number): MatcherResult {
+    const found = received.find(match);
+    return {
+      pass: found.length === times,
+      message: () =>
+        `Expected ${times} log entries matching ${describeMatch(match)}, found ` +
+        `${found.length}.\n${describeEntries(received.entries)}`,
+    };
+  },
+};
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    interface Matchers<R> {
+      /** The test logger wrote at least one entry matching all criteria */
+      toHaveLogged(match: LogMatch): R;
+      /** The test logger wrote exactly `times` entries matching all criteria */
+      toHaveLoggedTimes(match: LogMatch, times: number): R;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { createTestLogger } from './testing';
+
+describe('timers', () => {
+  const originalEnv = process.env;
+  let now: bigint;
+
+  /** Advance the monotonic clock */
+  const advance = (ms: number) => {
+    now += BigInt(ms * 1e6);
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env.LOG_LEVEL;
+    now = 1_000_000_000n;
+    jest.spyOn(process.hrtime, 'bigint').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should log the duration once when a timer is done', () => {
+    const logger = createTestLogger();
+
+    const timer = logger.startTimer('sync-tenants', { tenant_id: 't-1' });
+    advance(12.5);
+    expect(timer.elapsedMs()).toBe(12.5);
+    expect(logger.entries).toHaveLength(0);
+
+    expect(timer.done({ count: 3 })).toBe(12.5);
+    advance(5);
+    timer.done();
+    timer.fail(new Error('late'));
+
+    expect(logger.entries).toHaveLength(1);
+    logger.expectLogged({
+      level: 'info',
+      msg: 'sync-tenants completed',
+      operation: 'sync-tenants',
+      duration_ms: 12.5,
+      tenant_id: 't-1',
+      count: 3,
+    });
+    expect(logger.entries[0].slow).toBeUndefined();
+  });
+
+  it('should escalate to warn past the slow threshold', () => {
+    const logger = createTestLogger();
+
+    const fast = logger.startTimer('query', undefined, { slowMs: 100, level: 'debug' });
+    advance(99);
+    fast.done();
+    const slow = logger.startTimer('query', undefined, { slowMs: 100, level: 'debug' });
+    advance(100);
+    slow.done();
+
+    expect(logger.entries.map((entry) => [entry.level, entry.slow])).toEqual([
+      [20, undefined],
+      [40, true],
+    ]);
+  });
+
+  it('should log failures at error with the serialized error', () => {
+    const logger = createTestLogger();
+
+    const timer = logger.startTimer('upload');
+    advance(3);
+    timer.fail(new TypeError('bad file'), { file: 'a.csv' });
+
+    logger.expectLogged({
+      level: 'error',
+      msg: 'upload failed',
+      duration_ms: 3,
+      file: 'a.csv',
+      err: { type: 'TypeError', message: 'bad file' },
+    });
+  });
+
+  it('should wrap operations on domain and context loggers', async () => {
+    const logger = createTestLogger();
+    const scoped = logger.domain('auth').withContext({ correlationId: 'req-1' });
+
+    const result = await scoped.timed(
+      'load-users',
+      async () => {
+        advance(40);
+        return ['alice'];
+      },
+      { data: { source: 'db' } }
+    );
+    const failure = new Error('timeout');
+    await expect(
+      scoped.timed('load-roles', async () => {
+        throw failure;
+      })
+    ).rejects.toBe(failure);
+
+    expect(result).toEqual(['alice']);
+    expect(logger.findByCorrelationId('req-1')).toEqual([
+      expect.objectContaining({
+        level: 30,
+        domain: 'auth',
+        msg: 'load-users completed',
+        duration_ms: 40,
+        source: 'db',
+      }),
+      expect.objectContaining({
+        level: 50,
+        domain: 'auth',
+        msg: 'load-roles failed',
+        err: expect.objectContaining({ message: 'timeout' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Duration timers and operation wrappers.
+ *
+ * logger.startTimer() and logger.timed() replace hand-written
+ * `Date.now() - start` bookkeeping with one consistent record per operation:
+ *
+ * ```json
+ * {"level":30,"msg":"sync-tenants completed","operation":"sync-tenants","duration_ms":812.4}
+ * {"level":50,"msg":"sync-tenants failed","operation":"sync-tenants","duration_ms":12.1,"err":{...}}
+ * ```
+ *
+ * Design notes:
+ * - Durations come from process.hrtime.bigint() (monotonic, sub-millisecond), like the
+ *   HTTP middleware's `duration_ms`
+ * - Records are written through the logger that started the timer, so domain, context,
+ *   levels and sampling apply as for any other call
+ * - A timer logs once: later done()/fail() calls are ignored
+ */
+
+import type { LogData } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Options for logger.startTimer() and logger.timed() */
+export interface TimerOptions {
+  /** Level of the completion record (default: 'info') */
+  level?: 'trace' | 'debug' | 'info';
+  /** Completions taking at least this many milliseconds are logged at warn with `slow: true` */
+  slowMs?: number;
+}
+
+/** Options for logger.timed() */
+export interface TimedOptions extends TimerOptions {
+  /** Fields added to the completion or failure record */
+  data?: LogData;
+}
+
+/** A running timer returned by logger.startTimer() */
+export interface TimerHandle {
+  /** Log `<name> completed` with `duration_ms`; returns the duration */
+  done(data?: LogData): number;
+  /** Log `<name> failed` at error with `duration_ms` and `err`; returns the duration */
+  fail(err: unknown, data?: LogData): number;
+  /** Milliseconds since the timer started, without logging */
+  elapsedMs(): number;
+}
+
+/** @internal */
+export type TimerLogFn = (
+  level: 'trace' | 'debug' | 'info' | 'warn' | 'error',
+  msg: string,
+  data: LogData
+) => void;
+
+// =============================================================================
+// TIMERS
+// =============================================================================
+
+/**
+ * Start a timer that logs through `log` when it completes or fails.
+ * @internal
+ */
+export function startTimer(
+  log: TimerLogFn,
+  name: string,
+  data: LogData | undefined,
+  options: TimerOptions = {}
+): TimerHandle {
+  const start = process.hrtime.bigint();
+  let finished = false;
+
+  const elapsedMs = () => Number(process.hrtime.bigint() - start) / 1e6;
+
+  return {
+    done(doneData?: LogData): number {
+      const duration = elapsedMs();
+      if (!finished) {
+        finished = true;
+        const slow = options.slowMs !== undefined && duration >= options.slowMs;
+        log(slow ? 'warn' : (options.level ?? 'info'), `${name} completed`, {
+          ...data,
+          ...doneData,
+          operation: name,
+          duration_ms: duration,
+          ...(slow && { slow: true }),
+        });
+      }
+      return duration;
+    },
+
+    fail(err: unknown, failData?: LogData): number {
+      const duration = elapsedMs();
+      if (!finished) {
+        finished = true;
+        log('error', `${name} failed`, {
+          ...data,
+          ...failData,
+          operation: name,
+          duration_ms: duration,
+          err,
+        });
+      }
+      return duration;
+    },
+
+    elapsedMs,
+  };
+}
+
+/**
+ * Run `fn`, logging its completion or failure. Rejections are logged and rethrown.
+ * @internal
+ */
+export async function timed<T>(
+  log: TimerLogFn,
+  name: string,
+  fn: () => Promise<T> | T,
+  options: TimedOptions = {}
+): Promise<T> {
+  const timer = startTimer(log, name, options.data, options);
+  try {
+    const result = await fn();
+    timer.done();
+    return result;
+  } catch (err) {
+    timer.fail(err);
+    throw err;
+  }
+}